@@ -0,0 +1,98 @@
+// ============================================
+// CITY DEMOGRAPHICS IMPORT (row validation)
+// ============================================
+// Turns CSV rows into city_demographics + city_aliases rows. Kept apart from the CLI so
+// the validation rules are testable without a database.
+
+export interface CityRecord {
+  city: {
+    name: string;
+    district: string | null;
+    state: string;
+    tier: string;
+    population_2011: number;
+    metro_population_2011: number | null;
+    growth_rate: number;
+    literacy_rate: number | null;
+    avg_household_income_inr: number | null;
+  };
+  aliases: { alias: string; kind: 'name' | 'neighbourhood' }[];
+}
+
+export const CITY_CSV_COLUMNS = [
+  'name',
+  'district',
+  'state',
+  'tier',
+  'population_2011',
+  'metro_population_2011',
+  'growth_rate',
+  'literacy_rate',
+  'avg_household_income_inr',
+  'aliases',
+  'neighbourhoods',
+] as const;
+
+function requiredText(record: Record<string, string>, column: string, row: number): string {
+  const value = (record[column] ?? '').trim();
+  if (!value) throw new Error(`Row ${row}: missing ${column}`);
+  return value;
+}
+
+function optionalNumber(record: Record<string, string>, column: string, row: number): number | null {
+  const raw = (record[column] ?? '').trim();
+  if (!raw) return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`Row ${row}: ${column} must be a non-negative number, got "${raw}"`);
+  return value;
+}
+
+function normalizeTier(raw: string, row: number): string {
+  const match = raw.match(/^(?:tier\s*)?([123])$/i);
+  if (!match) throw new Error(`Row ${row}: tier must be 1, 2 or 3 (or "Tier 1" etc.), got "${raw}"`);
+  return `Tier ${match[1]}`;
+}
+
+// ';'-separated in the CSV ("bangalore;bengaluru"); stored in the same letters-only
+// lowercase form that cityCandidates produces from a location
+function splitAliases(raw: string | undefined): string[] {
+  return (raw ?? '')
+    .split(';')
+    .map((alias) => alias.toLowerCase().replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+export function toCityRecord(record: Record<string, string>, index: number): CityRecord {
+  const row = index + 1;
+  const name = requiredText(record, 'name', row);
+  const population = optionalNumber(record, 'population_2011', row);
+  if (!population) throw new Error(`Row ${row}: population_2011 is required`);
+  const growthRate = optionalNumber(record, 'growth_rate', row);
+  if (growthRate === null) throw new Error(`Row ${row}: growth_rate is required`);
+  const literacyRate = optionalNumber(record, 'literacy_rate', row);
+  if (literacyRate !== null && literacyRate > 100) throw new Error(`Row ${row}: literacy_rate is a percentage, got ${literacyRate}`);
+  const income = optionalNumber(record, 'avg_household_income_inr', row);
+  const metro = optionalNumber(record, 'metro_population_2011', row);
+
+  // The city's own name is always an alias so lookups only need city_aliases
+  const names = new Set([...splitAliases(name), ...splitAliases(record.aliases)]);
+  const neighbourhoods = splitAliases(record.neighbourhoods).filter((alias) => !names.has(alias));
+
+  return {
+    city: {
+      name,
+      district: (record.district ?? '').trim() || null,
+      state: requiredText(record, 'state', row),
+      tier: normalizeTier(requiredText(record, 'tier', row), row),
+      population_2011: Math.round(population),
+      metro_population_2011: metro !== null ? Math.round(metro) : null,
+      growth_rate: growthRate,
+      literacy_rate: literacyRate,
+      avg_household_income_inr: income !== null ? Math.round(income) : null,
+    },
+    aliases: [
+      ...[...names].map((alias) => ({ alias, kind: 'name' as const })),
+      ...neighbourhoods.map((alias) => ({ alias, kind: 'neighbourhood' as const })),
+    ],
+  };
+}
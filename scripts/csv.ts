@@ -0,0 +1,12 @@
+// Minimal CSV reader for the offline scripts: header row, comma-separated, no quoting.
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const columns = header.split(',').map((c) => c.trim());
+  return lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = line.split(',');
+      return Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()]));
+    });
+}
@@ -0,0 +1,178 @@
+// ============================================
+// GRADIENT BOOSTED STUMPS (training)
+// ============================================
+// Fits the Pass 2 ensemble from labelled outcomes: squared-error boosting where every
+// round adds the single- or two-feature stump that best explains the current residuals.
+// Output is a GBDTModel that scoring.ts runs unchanged.
+
+import {
+  DEFAULT_MODEL,
+  gbdtPredict,
+  scoreToVerdict,
+  type DecisionStump,
+  type GBDTFeatures,
+  type GBDTModel,
+  type InteractionStump,
+} from '../supabase/functions/_shared/scoring.ts';
+
+export type Verdict = 'GO' | 'CAUTION' | 'AVOID';
+
+export interface LabelledRow {
+  features: GBDTFeatures;
+  score?: number;
+  verdict?: Verdict;
+}
+
+// Regression targets for rows labelled only with a verdict; each sits inside its verdict band
+export const VERDICT_TARGETS: Record<Verdict, number> = { GO: 75, CAUTION: 50, AVOID: 22 };
+
+export const FEATURE_KEYS: Array<keyof GBDTFeatures> = [
+  'avgFactorScore',
+  'budgetRatio',
+  'competitionDensity',
+  'marketGrowthSignal',
+  'profitMarginEstimate',
+  'locationTierScore',
+  'revenueToExpenseRatio',
+  'factorVariance',
+  'topFactorScore',
+  'bottomFactorScore',
+];
+
+type InteractionTemplate = Pick<InteractionStump, 'featureA' | 'featureB' | 'operation'>;
+
+export interface TrainingOptions {
+  version: string;
+  rounds?: number;
+  learningRate?: number;
+  minLeafSize?: number;
+  // Feature pairs the booster may split on; defaults to the pairs in the current model
+  interactions?: InteractionTemplate[];
+}
+
+interface Candidate {
+  values: number[];
+  threshold: number;
+  leftValue: number;
+  rightValue: number;
+  gain: number;
+}
+
+export function targetFor(row: LabelledRow): number {
+  if (typeof row.score === 'number') return row.score;
+  if (row.verdict) return VERDICT_TARGETS[row.verdict];
+  throw new Error('Training row needs a score or a verdict');
+}
+
+function interactionColumn(rows: LabelledRow[], t: InteractionTemplate): number[] {
+  return rows.map(({ features }) => {
+    const a = features[t.featureA];
+    const b = features[t.featureB];
+    switch (t.operation) {
+      case 'multiply': return a * b;
+      case 'divide': return b !== 0 ? a / b : 0;
+      case 'min': return Math.min(a, b);
+      case 'max': return Math.max(a, b);
+    }
+  });
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Best split of `values` for the residuals; thresholds are midpoints between distinct values. */
+function bestSplit(values: number[], residuals: number[], minLeafSize: number): Candidate | null {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const total = residuals.reduce((sum, r) => sum + r, 0);
+
+  let best: Candidate | null = null;
+  let leftSum = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    leftSum += residuals[order[i]];
+    const leftCount = i + 1;
+    const rightCount = order.length - leftCount;
+    const current = values[order[i]];
+    const next = values[order[i + 1]];
+    if (current === next || leftCount < minLeafSize || rightCount < minLeafSize) continue;
+
+    const leftMean = leftSum / leftCount;
+    const rightMean = (total - leftSum) / rightCount;
+    // Reduction in squared error relative to predicting nothing
+    const gain = leftCount * leftMean ** 2 + rightCount * rightMean ** 2;
+    if (!best || gain > best.gain) {
+      best = { values, threshold: round3((current + next) / 2), leftValue: leftMean, rightValue: rightMean, gain };
+    }
+  }
+  return best;
+}
+
+export function evaluateModel(model: GBDTModel, rows: LabelledRow[]): { rmse: number; verdictAccuracy: number } {
+  let squaredError = 0;
+  let correct = 0;
+  let labelled = 0;
+  for (const row of rows) {
+    const score = gbdtPredict(row.features, model);
+    squaredError += (score - targetFor(row)) ** 2;
+    const expected = row.verdict ?? (typeof row.score === 'number' ? scoreToVerdict(row.score, row.features.budgetRatio) : undefined);
+    if (expected) {
+      labelled++;
+      if (scoreToVerdict(score, row.features.budgetRatio) === expected) correct++;
+    }
+  }
+  return {
+    rmse: rows.length > 0 ? round3(Math.sqrt(squaredError / rows.length)) : 0,
+    verdictAccuracy: labelled > 0 ? round3(correct / labelled) : 0,
+  };
+}
+
+export function trainGBDT(rows: LabelledRow[], options: TrainingOptions): GBDTModel {
+  if (rows.length === 0) throw new Error('No training rows');
+  const rounds = options.rounds ?? 80;
+  const learningRate = options.learningRate ?? 0.1;
+  const minLeafSize = options.minLeafSize ?? Math.max(2, Math.floor(rows.length * 0.05));
+  const templates = options.interactions ?? DEFAULT_MODEL.interactionStumps.map(({ featureA, featureB, operation }) => ({ featureA, featureB, operation }));
+
+  const targets = rows.map(targetFor);
+  const baseScore = round3(targets.reduce((sum, t) => sum + t, 0) / targets.length);
+  const predictions = rows.map(() => baseScore);
+
+  // Columns never change between rounds, only the residuals do
+  const featureColumns = FEATURE_KEYS.map((key) => ({ key, values: rows.map((row) => row.features[key]) }));
+  const interactionColumns = templates.map((template) => ({ template, values: interactionColumn(rows, template) }));
+
+  const decisionStumps: DecisionStump[] = [];
+  const interactionStumps: InteractionStump[] = [];
+
+  for (let round = 0; round < rounds; round++) {
+    const residuals = targets.map((t, i) => t - predictions[i]);
+
+    let best: { candidate: Candidate; key?: keyof GBDTFeatures; template?: InteractionTemplate } | null = null;
+    for (const { key, values } of featureColumns) {
+      const candidate = bestSplit(values, residuals, minLeafSize);
+      if (candidate && (!best || candidate.gain > best.candidate.gain)) best = { candidate, key };
+    }
+    for (const { template, values } of interactionColumns) {
+      const candidate = bestSplit(values, residuals, minLeafSize);
+      if (candidate && (!best || candidate.gain > best.candidate.gain)) best = { candidate, template };
+    }
+    if (!best || best.candidate.gain < 1e-9) break;
+
+    const { candidate } = best;
+    const leaves = { threshold: candidate.threshold, leftValue: round3(candidate.leftValue), rightValue: round3(candidate.rightValue), weight: learningRate };
+    if (best.key) decisionStumps.push({ featureKey: best.key, ...leaves });
+    else if (best.template) interactionStumps.push({ ...best.template, ...leaves });
+
+    candidate.values.forEach((value, i) => {
+      predictions[i] += (value <= leaves.threshold ? leaves.leftValue : leaves.rightValue) * learningRate;
+    });
+  }
+
+  const stumps = { baseScore, decisionStumps, interactionStumps };
+  const metrics = evaluateModel({ version: options.version, source: 'gradient-boosting', ...stumps }, rows);
+  return {
+    version: options.version,
+    source: 'gradient-boosting',
+    trainedAt: new Date().toISOString(),
+    training: { rows: rows.length, rounds: decisionStumps.length + interactionStumps.length, learningRate, ...metrics },
+    ...stumps,
+  };
+}
@@ -0,0 +1,71 @@
+// Loads towns into city_demographics / city_aliases without redeploying analyze-business.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run import:cities -- --data towns.csv [--dry-run]
+//
+// CSV header (aliases and neighbourhoods are ';'-separated, everything but name/state/tier/
+// population_2011/growth_rate may be blank):
+//   name,district,state,tier,population_2011,metro_population_2011,growth_rate,literacy_rate,avg_household_income_inr,aliases,neighbourhoods
+//
+// Rows are upserted on (name, state), so re-running with corrected figures updates them in place.
+// An alias that already points at another city is moved to the imported one.
+
+import { readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+import { parseCsv } from './csv.ts';
+import { CITY_CSV_COLUMNS, toCityRecord } from './city-records.ts';
+
+const BATCH_SIZE = 200;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const next = argv[i + 1];
+    args[argv[i].slice(2)] = next && !next.startsWith('--') ? next : 'true';
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.data) {
+    console.error('Usage: npm run import:cities -- --data <towns.csv> [--dry-run]');
+    process.exit(1);
+  }
+
+  const records = parseCsv(readFileSync(args.data, 'utf8'));
+  const missing = CITY_CSV_COLUMNS.filter((column) => !(column in (records[0] ?? {})));
+  if (missing.length > 0) throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  const rows = records.map(toCityRecord);
+  console.log(`Parsed ${rows.length} cities, ${rows.reduce((n, r) => n + r.aliases.length, 0)} aliases`);
+  if (args['dry-run'] === 'true') return;
+
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  const client = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const batch = rows.slice(start, start + BATCH_SIZE);
+    const { data: cities, error } = await client
+      .from('city_demographics')
+      .upsert(batch.map((r) => r.city), { onConflict: 'name,state' })
+      .select('id, name, state');
+    if (error) throw new Error(`City upsert failed: ${error.message}`);
+
+    const ids = new Map(cities.map((c) => [`${c.name}|${c.state}`, c.id]));
+    // One upsert cannot touch the same alias twice; the last city in the file wins
+    const aliases = new Map<string, { alias: string; kind: string; city_id: string }>();
+    for (const r of batch) {
+      for (const a of r.aliases) aliases.set(a.alias, { ...a, city_id: ids.get(`${r.city.name}|${r.city.state}`) as string });
+    }
+    const { error: aliasError } = await client.from('city_aliases').upsert([...aliases.values()], { onConflict: 'alias' });
+    if (aliasError) throw new Error(`Alias upsert failed: ${aliasError.message}`);
+    console.log(`Imported rows ${start + 1}-${start + batch.length}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
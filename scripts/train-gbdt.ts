@@ -0,0 +1,81 @@
+// Trains the Pass 2 stump ensemble from labelled outcomes and writes a versioned model JSON.
+//
+//   npm run train:gbdt -- --data outcomes.csv [--version gbdt-2026-10-19] [--rounds 80]
+//                         [--learning-rate 0.1] [--out supabase/functions/_shared/models/gbdt-model.json]
+//
+// Input rows carry the ten GBDTFeatures columns plus a `score` (0-100) and/or a `verdict`
+// (GO | CAUTION | AVOID), either as a CSV with a header row or a JSON array of objects.
+// analyze-business bundles models/gbdt-model.json, so redeploy the function after training.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseCsv } from './csv.ts';
+import { FEATURE_KEYS, trainGBDT, evaluateModel, type LabelledRow, type Verdict } from './gbdt-boosting.ts';
+import { DEFAULT_MODEL, type GBDTFeatures, type GBDTModel } from '../supabase/functions/_shared/scoring.ts';
+
+const DEFAULT_OUT = 'supabase/functions/_shared/models/gbdt-model.json';
+const VERDICTS = ['GO', 'CAUTION', 'AVOID'];
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+}
+
+function toRow(record: Record<string, unknown>, index: number): LabelledRow {
+  const features = {} as GBDTFeatures;
+  for (const key of FEATURE_KEYS) {
+    const value = Number(record[key]);
+    if (record[key] === '' || record[key] === undefined || !Number.isFinite(value)) {
+      throw new Error(`Row ${index + 1}: missing or non-numeric ${key}`);
+    }
+    features[key] = value;
+  }
+
+  const row: LabelledRow = { features };
+  if (record.score !== undefined && record.score !== '') row.score = Number(record.score);
+  const verdict = String(record.verdict ?? '').toUpperCase();
+  if (VERDICTS.includes(verdict)) row.verdict = verdict as Verdict;
+  if (row.score === undefined && !row.verdict) throw new Error(`Row ${index + 1}: needs a score or a verdict`);
+  return row;
+}
+
+// Same layout as the bundled model: metadata pretty-printed, one stump per line
+function formatModel(model: GBDTModel): string {
+  const { decisionStumps, interactionStumps, ...meta } = model;
+  const stumpLines = (stumps: object[]) => stumps.map((stump) => `    ${JSON.stringify(stump)}`).join(',\n');
+  const head = JSON.stringify(meta, null, 2).slice(0, -2);
+  return `${head},\n  "decisionStumps": [\n${stumpLines(decisionStumps)}\n  ],\n  "interactionStumps": [\n${stumpLines(interactionStumps)}\n  ]\n}\n`;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.data) {
+    console.error('Usage: npm run train:gbdt -- --data <outcomes.csv|outcomes.json> [--version <id>] [--out <path>]');
+    process.exit(1);
+  }
+
+  const text = readFileSync(args.data, 'utf8');
+  const records: Record<string, unknown>[] = extname(args.data).toLowerCase() === '.json' ? JSON.parse(text) : parseCsv(text);
+  const rows = records.map(toRow);
+
+  const version = args.version || `gbdt-${new Date().toISOString().slice(0, 10)}`;
+  const model = trainGBDT(rows, {
+    version,
+    rounds: args.rounds ? Number(args.rounds) : undefined,
+    learningRate: args['learning-rate'] ? Number(args['learning-rate']) : undefined,
+  });
+
+  const previous = evaluateModel(DEFAULT_MODEL, rows);
+  console.log(`Trained ${version} on ${rows.length} rows: ${model.training?.rounds} stumps`);
+  console.log(`  rmse ${previous.rmse} -> ${model.training?.rmse}`);
+  console.log(`  verdict accuracy ${previous.verdictAccuracy} -> ${model.training?.verdictAccuracy} (was ${DEFAULT_MODEL.version})`);
+
+  const out = args.out || DEFAULT_OUT;
+  writeFileSync(out, formatModel(model));
+  console.log(`Wrote ${out}`);
+}
+
+main();
@@ -0,0 +1,42 @@
+import { CheckCircle2, Circle, Loader2 } from 'lucide-react';
+import { AnalysisStepDetails, AnalysisStepId } from '@/lib/analysisJobs';
+import { cn } from '@/lib/utils';
+
+const steps: { id: AnalysisStepId; label: string }[] = [
+  { id: 'realtime-data', label: 'Gathering real-time market data' },
+  { id: 'factors', label: 'Discovering success factors' },
+  { id: 'score', label: 'Scoring feasibility' },
+  { id: 'explanations', label: 'Writing location-specific insights' },
+];
+
+interface AnalysisProgressProps {
+  details: AnalysisStepDetails;
+}
+
+export function AnalysisProgress({ details }: AnalysisProgressProps) {
+  const activeIndex = steps.findIndex((step) => !details[step.id]);
+
+  return (
+    <ul className="space-y-2">
+      {steps.map((step, index) => {
+        const done = Boolean(details[step.id]);
+        const active = index === activeIndex;
+        return (
+          <li key={step.id} className="flex items-start gap-3">
+            {done ? (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 text-go shrink-0" />
+            ) : active ? (
+              <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-primary shrink-0" />
+            ) : (
+              <Circle className="w-4 h-4 mt-0.5 text-muted-foreground/50 shrink-0" />
+            )}
+            <div>
+              <p className={cn('text-sm', !done && !active && 'text-muted-foreground')}>{step.label}</p>
+              {done && <p className="text-xs text-muted-foreground">{details[step.id]}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
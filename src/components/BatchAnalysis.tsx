@@ -0,0 +1,274 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Upload, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { submitAnalysisBatch, resumeAnalysisBatch } from '@/lib/analysisJobs';
+import {
+  parseBatchCsv,
+  rankBatchResults,
+  batchCounts,
+  isBatchStalled,
+  MAX_BATCH_ROWS,
+  type ParsedBatch,
+  type BatchJobRow,
+  type BatchAnalysisRow,
+  type BatchResult,
+} from '@/lib/batches';
+
+interface BatchRow {
+  id: string;
+  name: string;
+  row_count: number;
+  created_at: string;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const verdictBadge = (verdict: string | null | undefined) => {
+  switch (verdict) {
+    case 'GO':
+      return <Badge className="bg-go/20 text-go border-go/30">GO</Badge>;
+    case 'CAUTION':
+      return <Badge className="bg-caution/20 text-caution border-caution/30">CAUTION</Badge>;
+    case 'AVOID':
+      return <Badge className="bg-avoid/20 text-avoid border-avoid/30">AVOID</Badge>;
+    default:
+      return <Badge variant="outline">-</Badge>;
+  }
+};
+
+const statusBadge = (result: BatchResult) => {
+  switch (result.status) {
+    case 'completed':
+      return <Badge variant="outline" className="text-go border-go/30">Done</Badge>;
+    case 'failed':
+      return <Badge variant="outline" className="text-avoid border-avoid/30" title={result.error ?? undefined}>Failed</Badge>;
+    case 'running':
+      if (result.stalled) return <Badge variant="outline" className="text-caution border-caution/30" title="This row's worker stopped responding">Stalled</Badge>;
+      return <Badge variant="outline" className="gap-1"><Loader2 className="w-3 h-3 animate-spin" />Running</Badge>;
+    default:
+      return <Badge variant="outline" className="text-muted-foreground">Queued</Badge>;
+  }
+};
+
+export function BatchAnalysis() {
+  const [batches, setBatches] = useState<BatchRow[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [parsed, setParsed] = useState<ParsedBatch | null>(null);
+  const [name, setName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [stalled, setStalled] = useState(false);
+  const [resuming, setResuming] = useState(false);
+
+  const counts = useMemo(() => batchCounts(results), [results]);
+
+  const fetchBatches = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('analysis_batches')
+      .select('id, name, row_count, created_at')
+      .order('created_at', { ascending: false })
+      .limit(20);
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error fetching batches:', error);
+      return;
+    }
+    setBatches(data || []);
+    setSelectedId((current) => current ?? data?.[0]?.id ?? null);
+  }, []);
+
+  const fetchResults = useCallback(async (batchId: string) => {
+    const [jobs, analyses] = await Promise.all([
+      supabase.from('analysis_jobs').select('id, status, input, row_number, analysis_id, error, updated_at').eq('batch_id', batchId),
+      supabase.from('business_analyses').select('id, verdict, score').eq('batch_id', batchId),
+    ]);
+    if (jobs.error || analyses.error) {
+      if (import.meta.env.DEV) console.error('Error fetching batch results:', jobs.error ?? analyses.error);
+      return [];
+    }
+    const ranked = rankBatchResults(jobs.data as unknown as BatchJobRow[], (analyses.data || []) as BatchAnalysisRow[]);
+    setResults(ranked);
+    setStalled(isBatchStalled(jobs.data as unknown as BatchJobRow[]));
+    return ranked;
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  // Keep polling the selected batch until every row has finished
+  useEffect(() => {
+    if (!selectedId) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    const poll = async () => {
+      const ranked = await fetchResults(selectedId);
+      if (!cancelled && batchCounts(ranked).pending > 0) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedId, fetchResults]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setParsed(parseBatchCsv(await file.text()));
+    setName(file.name.replace(/\.csv$/i, ''));
+  };
+
+  const handleResume = async () => {
+    if (!selectedId) return;
+    setResuming(true);
+    try {
+      await resumeAnalysisBatch(selectedId);
+      toast.success('Batch resumed');
+      setStalled(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not resume the batch');
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!parsed || parsed.errors.length > 0) return;
+    setSubmitting(true);
+    try {
+      const batchId = await submitAnalysisBatch(name, parsed.rows);
+      toast.success(`Queued ${parsed.rows.length} ideas for analysis`);
+      setParsed(null);
+      setName('');
+      setSelectedId(batchId);
+      await fetchBatches();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Batch submission failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>New Batch</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV with <span className="font-mono">idea, location, budget</span> columns (up to {MAX_BATCH_ROWS} rows).
+            Each row is analysed on the server and saved to your history.
+          </p>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} className="sm:max-w-xs" />
+            <Input placeholder="Batch name" value={name} onChange={(e) => setName(e.target.value)} className="sm:max-w-xs" />
+            <Button
+              onClick={handleSubmit}
+              disabled={!parsed || parsed.errors.length > 0 || parsed.rows.length === 0 || submitting}
+              className="gap-2"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {parsed && parsed.rows.length > 0 ? `Analyze ${parsed.rows.length} ideas` : 'Analyze'}
+            </Button>
+          </div>
+          {parsed && parsed.errors.length > 0 && (
+            <div className="space-y-1 text-sm text-avoid">
+              {parsed.errors.slice(0, 5).map((error) => (
+                <p key={error} className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  {error}
+                </p>
+              ))}
+              {parsed.errors.length > 5 && <p className="text-muted-foreground">…and {parsed.errors.length - 5} more</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle>Batch Results</CardTitle>
+          {batches.length > 0 && (
+            <Select value={selectedId ?? undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Choose a batch" />
+              </SelectTrigger>
+              <SelectContent>
+                {batches.map((batch) => (
+                  <SelectItem key={batch.id} value={batch.id}>
+                    {batch.name} ({batch.row_count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {results.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No batches yet. Upload a CSV above to analyze several ideas at once.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>{counts.completed + counts.failed} of {counts.total} finished</span>
+                  {counts.failed > 0 && <span className="text-avoid">{counts.failed} failed</span>}
+                </div>
+                <Progress value={((counts.completed + counts.failed) / counts.total) * 100} />
+              </div>
+              {stalled && (
+                <div className="flex items-center justify-between gap-4 rounded-md border border-caution/30 bg-caution/10 p-3 text-sm">
+                  <span className="flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 shrink-0 text-caution" />
+                    This batch stopped making progress. Resume it to pick up the unfinished rows.
+                  </span>
+                  <Button size="sm" variant="outline" onClick={handleResume} disabled={resuming} className="gap-2 shrink-0">
+                    {resuming ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    Resume
+                  </Button>
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    <TableHead>Business Idea</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Verdict</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.rowNumber}>
+                      <TableCell className="font-mono">{result.rank ?? '-'}</TableCell>
+                      <TableCell className="max-w-[240px] truncate" title={result.input.businessIdea}>
+                        {result.input.businessIdea}
+                      </TableCell>
+                      <TableCell>{result.input.location !== 'Not specified' ? result.input.location : '-'}</TableCell>
+                      <TableCell>{result.input.budget !== 'Not specified' ? result.input.budget : '-'}</TableCell>
+                      <TableCell>{verdictBadge(result.analysis?.verdict)}</TableCell>
+                      <TableCell>{result.analysis?.score != null ? `${result.analysis.score}/100` : '-'}</TableCell>
+                      <TableCell>{statusBadge(result)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,19 +1,35 @@
-import { useState, useRef, useEffect } from 'react';
-import { Send, MapPin, IndianRupee, Loader2, AlertCircle } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, MapPin, IndianRupee, Loader2, AlertCircle, Database, RefreshCw, Lightbulb, MessageSquare, PencilLine } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ChatMessage, BusinessAnalysis } from '@/types/analysis';
-import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
+import { parseBudget, describeBudget } from '@/lib/budget';
+import { resolveCountry } from '@/lib/countries';
+import { submitAnalysisJob, waitForAnalysisJob, fetchAnalysisJob, jobProgress, pendingJobId, rememberPendingJob, forgetPendingJob, formatCacheAge, AnalysisStepDetails, AnalysisRequest } from '@/lib/analysisJobs';
+import { askFollowup, fetchFollowups, MAX_QUESTION_LENGTH } from '@/lib/followup';
+import { reviseAnalysis, MAX_CORRECTION_LENGTH } from '@/lib/corrections';
 import { VerdictCard } from './VerdictCard';
 import { ChatGreeting } from './ChatGreeting';
+import { AnalysisProgress } from './AnalysisProgress';
 import { useAuth } from '@/hooks/useAuth';
 
 interface ChatTabProps {
   onAnalysisComplete: (analysis: BusinessAnalysis) => void;
 }
 
+// 'idea' analyses every message as a new business idea; 'followup' asks about the latest analysis
+// and 'correct' re-runs it with the user's corrections to its estimates
+type ChatMode = 'idea' | 'followup' | 'correct';
+
+const PLACEHOLDERS: Record<ChatMode, string> = {
+  idea: 'Describe your business idea in detail...',
+  followup: 'Ask about this analysis, e.g. "Why is break-even so long?"',
+  correct: 'Correct an estimate, e.g. "rent is ₹80k/month" or "there are 3 gyms within 1 km"',
+};
+
 export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
   const { user } = useAuth();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -21,46 +37,203 @@ export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
   const [location, setLocation] = useState('');
   const [budget, setBudget] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<AnalysisStepDetails>({});
+  const [partialAnalysis, setPartialAnalysis] = useState<BusinessAnalysis | null>(null);
   const [showGreeting, setShowGreeting] = useState(true);
+  const [mode, setMode] = useState<ChatMode>('idea');
+  const [replyStatus, setReplyStatus] = useState<string | null>(null);  // shown while a follow-up or revision runs
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Live read-back of the budget so a misread ("10-15 lakh" as 10 lakh) is caught before submitting
+  const parsedBudget = useMemo(
+    () => (budget.trim() ? parseBudget(budget, undefined, resolveCountry(location).currency) : null),
+    [budget, location],
+  );
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, progress, replyStatus]);
 
-  // Save analysis to database if user is logged in
-  const saveAnalysis = async (analysis: BusinessAnalysis, businessIdea: string) => {
-    if (!user) return;
+  // Follow-ups go to the most recent analysis in the thread that the server saved
+  const activeAnalysis = useMemo(
+    () => [...messages].reverse().find((message) => message.analysis && message.analysisId),
+    [messages],
+  );
+  const busy = isLoading || replyStatus !== null;
+
+  // Aborted on unmount; the job keeps running on the server and is resumed on the next mount
+  const lifetimeRef = useRef<AbortController>(new AbortController());
+
+  // The server saves the finished analysis to business_analyses; the chat only follows the job
+  const runAnalysis = async (request: AnalysisRequest, forceRefresh = false, resumeJobId?: string) => {
+    const { signal } = lifetimeRef.current;
+    setIsLoading(true);
+    setProgress({});
+    setPartialAnalysis(null);
 
     try {
-      const insertData = {
-        user_id: user.id,
-        business_idea: businessIdea,
-        location: location || null,
-        budget: budget || null,
-        verdict: analysis.verdict,
-        score: analysis.score,
-        summary: analysis.summary,
-        analysis_data: JSON.parse(JSON.stringify(analysis)),
-        ai_model_used: 'gemini',
+      const jobId = resumeJobId ?? await submitAnalysisJob({ ...request, forceRefresh });
+      rememberPendingJob(jobId);
+
+      // Progress comes from the job row; the verdict is shown as soon as scoring finishes
+      const result = await waitForAnalysisJob(jobId, (job) => {
+        const { details, partialAnalysis } = jobProgress(job);
+        setProgress(details);
+        setPartialAnalysis(partialAnalysis);
+      }, signal);
+      if (!result) return;
+      forgetPendingJob();
+
+      const { analysis, cache, analysisId } = result;
+      onAnalysisComplete(analysis);
+
+      const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: analysis.summary,
+        analysis,
+        request,
+        cache,
+        analysisId,
+        timestamp: new Date(),
+      };
+
+      setMessages((prev) => [...prev, assistantMessage]);
+    } catch (error) {
+      forgetPendingJob();
+      if (import.meta.env.DEV) console.error('Analysis error:', error);
+      const errorMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: `⚠️ ${error instanceof Error ? error.message : 'Analysis failed. Please try again.'}`,
+        timestamp: new Date(),
       };
-      
-      const { error } = await supabase.from('business_analyses').insert(insertData);
-      if (error) {
-        if (import.meta.env.DEV) console.error('Failed to save analysis:', error);
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setProgress({});
+        setPartialAnalysis(null);
       }
+    }
+  };
+
+  const runAnalysisRef = useRef(runAnalysis);
+  runAnalysisRef.current = runAnalysis;
+
+  // Pick up a job started before a reload or tab switch, finished or not
+  const userId = user?.id;
+  useEffect(() => {
+    const controller = new AbortController();
+    lifetimeRef.current = controller;
+    const jobId = pendingJobId();
+    if (userId && jobId) {
+      fetchAnalysisJob(jobId).catch(() => null).then((job) => {
+        if (controller.signal.aborted) return;
+        if (!job) {
+          forgetPendingJob();
+          return;
+        }
+        setShowGreeting(false);
+        setMessages([{ id: crypto.randomUUID(), role: 'user', content: job.input.businessIdea, timestamp: new Date(job.created_at) }]);
+        runAnalysisRef.current(job.input, job.force_refresh, job.id);
+      });
+    }
+    return () => controller.abort();
+  }, [userId]);
+
+  // Switching to follow-ups shows the analysis's earlier thread when it is not on screen yet
+  const handleModeChange = async (next: ChatMode) => {
+    setMode(next);
+    const analysisId = activeAnalysis?.analysisId;
+    if (next !== 'followup' || !analysisId || messages.some((message) => message.followupOf === analysisId)) return;
+    try {
+      const earlier = await fetchFollowups(analysisId);
+      if (earlier.length > 0) setMessages((prev) => [...prev, ...earlier]);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Loading follow-ups failed:', error);
+    }
+  };
+
+  const askAboutAnalysis = async (question: string) => {
+    const analysisId = activeAnalysis?.analysisId;
+    if (!analysisId) return;
+    setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: 'user', content: question, followupOf: analysisId, timestamp: new Date() }]);
+    setInput('');
+    setReplyStatus('Looking through the analysis...');
+    try {
+      const answer = await askFollowup(analysisId, question);
+      setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: 'assistant', content: answer, followupOf: analysisId, timestamp: new Date() }]);
     } catch (error) {
-      if (import.meta.env.DEV) console.error('Failed to save analysis:', error);
+      if (import.meta.env.DEV) console.error('Follow-up error:', error);
+      const errorMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: `⚠️ ${error instanceof Error ? error.message : 'Could not answer that. Please try again.'}`,
+        timestamp: new Date(),
+      };
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      setReplyStatus(null);
+    }
+  };
+
+  // The revision becomes the latest analysis, so further questions and corrections build on it
+  const correctAnalysis = async (corrections: string) => {
+    const analysisId = activeAnalysis?.analysisId;
+    if (!analysisId) return;
+    setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: 'user', content: corrections, timestamp: new Date() }]);
+    setInput('');
+    setReplyStatus('Re-scoring with your corrections...');
+    try {
+      const { analysis, analysisId: revisionId } = await reviseAnalysis(analysisId, corrections);
+      onAnalysisComplete(analysis);
+      const changes = analysis.revision?.changes ?? [];
+      const unmatched = analysis.revision?.unmatched ?? [];
+      const content = [
+        `Revised with your corrections:\n${changes.map((change) => `• ${change}`).join('\n')}`,
+        ...(unmatched.length > 0 ? [`Not applied: ${unmatched.join('; ')}`] : []),
+        analysis.summary,
+      ].join('\n\n');
+      setMessages((prev) => [...prev, {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content,
+        analysis,
+        request: analysis.input,
+        analysisId: revisionId,
+        timestamp: new Date(),
+      }]);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Revision error:', error);
+      const errorMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: `⚠️ ${error instanceof Error ? error.message : 'Revision failed. Please try again.'}`,
+        timestamp: new Date(),
+      };
+      setMessages((prev) => [...prev, errorMessage]);
+    } finally {
+      setReplyStatus(null);
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || busy) return;
+
+    if (mode === 'followup') {
+      await askAboutAnalysis(input.trim());
+      return;
+    }
+    if (mode === 'correct') {
+      await correctAnalysis(input.trim());
+      return;
+    }
 
     if (input.trim().length < 10) {
       const errorMessage: ChatMessage = {
@@ -95,85 +268,73 @@ export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    const currentInput = input;
     setInput('');
-    setIsLoading(true);
-
-    try {
-      const { data, error } = await supabase.functions.invoke('analyze-business', {
-        body: {
-          businessIdea: currentInput,
-          location: location || 'Not specified',
-          budget: budget || 'Not specified',
-        },
-      });
-
-      // Handle edge function errors - check data.error first since invoke may put error responses in data
-      if (data?.error) {
-        throw new Error(data.error);
-      }
 
-      if (error) {
-        // Try to parse the error context for a user-friendly message
-        throw new Error(error.message || 'Analysis failed. Please try again.');
-      }
-
-      // Extract analysis from response wrapper
-      const analysis = data?.analysis as BusinessAnalysis;
-      if (!analysis || !analysis.verdict) {
-        throw new Error('Invalid analysis response. Please try again.');
-      }
-      onAnalysisComplete(analysis);
-
-      // Save to database
-      await saveAnalysis(analysis, currentInput);
-
-      const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: analysis.summary,
-        analysis,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('Analysis error:', error);
-      const errorMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: `⚠️ ${error instanceof Error ? error.message : 'Analysis failed. Please try again.'}`,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
-    }
+    await runAnalysis({
+      businessIdea: input,
+      location: location || 'Not specified',
+      budget: budget || 'Not specified',
+    });
   };
 
   return (
     <div className="flex flex-col h-[calc(100vh-12rem)]">
+      {/* New idea vs. questions about the latest analysis */}
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <Tabs value={mode} onValueChange={(value) => handleModeChange(value as ChatMode)}>
+          <TabsList className="bg-secondary/30">
+            <TabsTrigger value="idea" className="gap-1.5">
+              <Lightbulb className="w-4 h-4" />
+              New idea
+            </TabsTrigger>
+            <TabsTrigger value="followup" className="gap-1.5" disabled={!activeAnalysis}>
+              <MessageSquare className="w-4 h-4" />
+              Ask about this analysis
+            </TabsTrigger>
+            <TabsTrigger value="correct" className="gap-1.5" disabled={!activeAnalysis}>
+              <PencilLine className="w-4 h-4" />
+              Correct assumptions
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {mode !== 'idea' && activeAnalysis?.request && (
+          <p className="text-sm text-muted-foreground truncate" title={activeAnalysis.request.businessIdea}>
+            {activeAnalysis.request.businessIdea}
+            {activeAnalysis.request.location !== 'Not specified' && ` · ${activeAnalysis.request.location}`}
+          </p>
+        )}
+      </div>
+
       {/* Location & Budget Inputs */}
-      <div className="flex gap-4 mb-4">
-        <div className="flex-1 relative">
-          <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Location (e.g., Koramangala, Bangalore)"
-            value={location}
-            onChange={(e) => setLocation(e.target.value)}
-            className="pl-10 bg-secondary/30 border-border/50"
-          />
-        </div>
-        <div className="flex-1 relative">
-          <IndianRupee className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Budget (e.g., ₹15 lakhs)"
-            value={budget}
-            onChange={(e) => setBudget(e.target.value)}
-            className="pl-10 bg-secondary/30 border-border/50"
-          />
+      {mode === 'idea' && (
+        <div className="flex gap-4 mb-4">
+          <div className="flex-1 relative">
+            <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Location (e.g., Koramangala, Bangalore)"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className="pl-10 bg-secondary/30 border-border/50"
+            />
+          </div>
+          <div className="flex-1">
+            <div className="relative">
+              <IndianRupee className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Budget (e.g., ₹15 lakhs, 10-15L, 8L own + 12L loan)"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="pl-10 bg-secondary/30 border-border/50"
+              />
+            </div>
+            {parsedBudget && (
+              <p className={cn('mt-1 text-xs', parsedBudget.recognized ? 'text-muted-foreground' : 'text-caution')}>
+                Read as {describeBudget(parsedBudget)}
+              </p>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Chat Messages */}
       <div className="flex-1 overflow-y-auto space-y-4 pr-2">
@@ -217,22 +378,52 @@ export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
                   <VerdictCard analysis={message.analysis} />
                 </div>
               )}
+
+              {message.cache?.hit && message.request && (
+                <div className="mt-3 flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1.5">
+                    <Database className="w-3.5 h-3.5" />
+                    Served from cache · {formatCacheAge(message.cache.ageSeconds)} old
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    disabled={busy}
+                    onClick={() => runAnalysis(message.request!, true)}
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    Run fresh analysis
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         ))}
 
         {isLoading && (
           <div className="flex justify-start">
-            <div className="chat-bubble-ai p-4">
-              <div className="flex items-center gap-3">
+            <div className="chat-bubble-ai p-4 max-w-[80%]">
+              <div className="flex items-center gap-3 mb-3">
                 <Loader2 className="w-5 h-5 animate-spin text-primary" />
                 <span className="text-muted-foreground">Analyzing your business idea...</span>
               </div>
-              <div className="typing-dots mt-2">
-                <span></span>
-                <span></span>
-                <span></span>
-              </div>
+              <AnalysisProgress details={progress} />
+
+              {partialAnalysis && (
+                <div className="mt-4">
+                  <VerdictCard analysis={partialAnalysis} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {replyStatus && (
+          <div className="flex justify-start">
+            <div className="chat-bubble-ai p-4 flex items-center gap-3">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              <span className="text-muted-foreground">{replyStatus}</span>
             </div>
           </div>
         )}
@@ -243,8 +434,9 @@ export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
       {/* Input Form */}
       <form onSubmit={handleSubmit} className="mt-4 flex gap-3">
         <Textarea
-          placeholder="Describe your business idea in detail..."
+          placeholder={PLACEHOLDERS[mode]}
           value={input}
+          maxLength={mode === 'followup' ? MAX_QUESTION_LENGTH : mode === 'correct' ? MAX_CORRECTION_LENGTH : undefined}
           onChange={(e) => setInput(e.target.value)}
           className="flex-1 min-h-[60px] max-h-[120px] resize-none bg-secondary/30 border-border/50"
           onKeyDown={(e) => {
@@ -256,10 +448,10 @@ export function ChatTab({ onAnalysisComplete }: ChatTabProps) {
         />
         <Button
           type="submit"
-          disabled={!input.trim() || isLoading}
+          disabled={!input.trim() || busy}
           className="self-end px-6"
         >
-          {isLoading ? (
+          {busy ? (
             <Loader2 className="w-4 h-4 animate-spin" />
           ) : (
             <Send className="w-4 h-4" />
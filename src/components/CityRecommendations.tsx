@@ -0,0 +1,171 @@
+import { useState, useMemo } from 'react';
+import { MapPinned, IndianRupee, Loader2, AlertCircle, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BusinessAnalysis, CityRecommendation, CityRecommendations as Recommendations } from '@/types/analysis';
+import { recommendCities, sortRecommendations, RECOMMENDATION_COUNT, type RecommendationSortKey } from '@/lib/recommend';
+import { formatMoney } from '@/lib/budget';
+import { cn } from '@/lib/utils';
+
+interface CityRecommendationsProps {
+  recommendations: Recommendations | null;  // kept by the page so it survives switching tabs
+  onRecommendationsComplete: (recommendations: Recommendations) => void;
+  defaultIdea?: string;
+  defaultBudget?: string;
+}
+
+interface Column {
+  key: RecommendationSortKey;
+  label: string;
+  firstDirection: 'asc' | 'desc';  // direction used when the column is first clicked
+  render: (city: CityRecommendation) => React.ReactNode;
+}
+
+const COLUMNS: Column[] = [
+  { key: 'city', label: 'City', firstDirection: 'asc', render: (c) => <span className="font-medium">{c.city}<span className="text-muted-foreground font-normal">, {c.state}</span></span> },
+  { key: 'tier', label: 'Tier', firstDirection: 'asc', render: (c) => c.tier },
+  { key: 'score', label: 'Score', firstDirection: 'desc', render: (c) => `${c.score}/100` },
+  { key: 'avgHouseholdIncome', label: 'Household income', firstDirection: 'desc', render: (c) => (c.avgHouseholdIncome != null ? `${formatMoney(c.avgHouseholdIncome)}/yr` : '-') },
+  { key: 'growthRate', label: 'Growth', firstDirection: 'desc', render: (c) => `${c.growthRate}%` },
+  { key: 'literacyRate', label: 'Literacy', firstDirection: 'desc', render: (c) => (c.literacyRate != null ? `${c.literacyRate}%` : '-') },
+  { key: 'breakEvenMonths', label: 'Break-even', firstDirection: 'asc', render: (c) => `${c.breakEvenMonths} months` },
+  { key: 'roi', label: 'ROI', firstDirection: 'desc', render: (c) => `${c.roi}%` },
+];
+
+const verdictClass: Record<BusinessAnalysis['verdict'], string> = {
+  GO: 'bg-go/20 text-go border-go/30',
+  CAUTION: 'bg-caution/20 text-caution border-caution/30',
+  AVOID: 'bg-avoid/20 text-avoid border-avoid/30',
+};
+
+export function CityRecommendations({ recommendations, onRecommendationsComplete, defaultIdea = '', defaultBudget = '' }: CityRecommendationsProps) {
+  const [idea, setIdea] = useState(defaultIdea);
+  const [budget, setBudget] = useState(defaultBudget === 'Not specified' ? '' : defaultBudget);
+  const [sort, setSort] = useState<{ key: RecommendationSortKey; direction: 'asc' | 'desc' }>({ key: 'score', direction: 'desc' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = idea.trim().length >= 10 && !isLoading;
+  const rows = useMemo(
+    () => (recommendations ? sortRecommendations(recommendations.cities, sort.key, sort.direction) : []),
+    [recommendations, sort],
+  );
+
+  const handleSort = (column: Column) => {
+    setSort((prev) => (prev.key === column.key
+      ? { key: column.key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key: column.key, direction: column.firstDirection }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      onRecommendationsComplete(await recommendCities({ businessIdea: idea, budget: budget || 'Not specified' }));
+      setSort({ key: 'score', direction: 'desc' });
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Recommendation error:', err);
+      setError(err instanceof Error ? err.message : 'Recommendation failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sortIcon = (key: RecommendationSortKey) => {
+    if (sort.key !== key) return <ArrowUpDown className="w-3 h-3 opacity-50" />;
+    return sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPinned className="w-5 h-5 text-primary" />
+          Where Should I Open This?
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Scores the idea and budget in every city we have demographic data for (tier, income, growth, literacy)
+          and shows the best {RECOMMENDATION_COUNT}. City data covers India only.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Textarea
+            placeholder="Describe your business idea in detail..."
+            value={idea}
+            onChange={(e) => setIdea(e.target.value)}
+            className="min-h-[60px] max-h-[120px] resize-none bg-secondary/30 border-border/50"
+          />
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <div className="relative sm:max-w-sm flex-1">
+              <IndianRupee className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Budget (e.g., ₹15 lakhs)"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="pl-10 bg-secondary/30 border-border/50"
+              />
+            </div>
+            <Button type="submit" disabled={!canSubmit} className="gap-2">
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Find best cities
+            </Button>
+          </div>
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-avoid">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+        </form>
+
+        {recommendations && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">{recommendations.businessIdea}</p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    <TableHead>Verdict</TableHead>
+                    {COLUMNS.map((column) => (
+                      <TableHead key={column.key}>
+                        <button
+                          type="button"
+                          onClick={() => handleSort(column)}
+                          className={cn('inline-flex items-center gap-1 hover:text-foreground', sort.key === column.key && 'text-foreground')}
+                        >
+                          {column.label}
+                          {sortIcon(column.key)}
+                        </button>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((city) => (
+                    <TableRow key={`${city.city}-${city.state}`}>
+                      <TableCell className="font-mono">{city.rank}</TableCell>
+                      <TableCell>
+                        <Badge className={verdictClass[city.verdict]}>{city.verdict}</Badge>
+                      </TableCell>
+                      {COLUMNS.map((column) => (
+                        <TableCell key={column.key} className="whitespace-nowrap">{column.render(city)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
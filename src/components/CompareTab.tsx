@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { MapPin, Plus, X, Loader2, Scale, IndianRupee, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BusinessAnalysis, ComparedLocation, LocationComparison } from '@/types/analysis';
+import { compareLocations, normalizeLocations, bestIndex, MAX_COMPARE_LOCATIONS } from '@/lib/compare';
+import { cn } from '@/lib/utils';
+
+interface CompareTabProps {
+  comparison: LocationComparison | null;  // kept by the page so it survives switching tabs
+  onComparisonComplete: (comparison: LocationComparison) => void;
+  onOpenAnalysis: (analysis: BusinessAnalysis) => void;
+}
+
+interface MetricRow {
+  label: string;
+  value: (location: ComparedLocation) => number | null;
+  format: (value: number) => string;
+  best: 'max' | 'min';
+}
+
+const METRICS: MetricRow[] = [
+  { label: 'Score', value: (l) => l.score, format: (v) => `${v}/100`, best: 'max' },
+  { label: 'Break-even', value: (l) => l.breakEvenMonths, format: (v) => `${v} months`, best: 'min' },
+  { label: 'ROI', value: (l) => l.roi, format: (v) => `${v}%`, best: 'max' },
+  { label: 'Direct competitors', value: (l) => l.directCompetitors, format: String, best: 'min' },
+  { label: 'Indirect competitors', value: (l) => l.indirectCompetitors, format: String, best: 'min' },
+];
+
+const verdictClass: Record<BusinessAnalysis['verdict'], string> = {
+  GO: 'bg-go/20 text-go border-go/30',
+  CAUTION: 'bg-caution/20 text-caution border-caution/30',
+  AVOID: 'bg-avoid/20 text-avoid border-avoid/30',
+};
+
+export function CompareTab({ comparison, onComparisonComplete, onOpenAnalysis }: CompareTabProps) {
+  const [idea, setIdea] = useState('');
+  const [budget, setBudget] = useState('');
+  const [locations, setLocations] = useState(['', '', '']);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = normalizeLocations(locations);
+  const canSubmit = idea.trim().length >= 10 && candidates.length >= 2 && !isLoading;
+
+  const setLocation = (index: number, value: string) => {
+    setLocations((prev) => prev.map((location, i) => (i === index ? value : location)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      onComparisonComplete(await compareLocations({ businessIdea: idea, budget: budget || 'Not specified', locations: candidates }));
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Comparison error:', err);
+      setError(err instanceof Error ? err.message : 'Comparison failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderCell = (row: MetricRow, columns: ComparedLocation[]) => {
+    const values = columns.map(row.value);
+    const winner = bestIndex(values, row.best);
+    return values.map((value, index) => (
+      <TableCell key={columns[index].location} className={cn(index === winner && values.length > 1 && 'text-go font-semibold')}>
+        {value == null ? '-' : row.format(value)}
+      </TableCell>
+    ));
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="w-5 h-5 text-primary" />
+            Compare Locations
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Textarea
+              placeholder="Describe your business idea in detail..."
+              value={idea}
+              onChange={(e) => setIdea(e.target.value)}
+              className="min-h-[60px] max-h-[120px] resize-none bg-secondary/30 border-border/50"
+            />
+            <div className="relative max-w-sm">
+              <IndianRupee className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Budget (e.g., ₹15 lakhs)"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="pl-10 bg-secondary/30 border-border/50"
+              />
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {locations.map((location, index) => (
+                <div key={index} className="relative flex items-center gap-2">
+                  <MapPin className="absolute left-3 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder={`Location ${index + 1} (e.g., Indiranagar, Bangalore)`}
+                    value={location}
+                    onChange={(e) => setLocation(index, e.target.value)}
+                    className="pl-10 bg-secondary/30 border-border/50"
+                  />
+                  {locations.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setLocations((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                disabled={locations.length >= MAX_COMPARE_LOCATIONS}
+                onClick={() => setLocations((prev) => [...prev, ''])}
+              >
+                <Plus className="w-4 h-4" />
+                Add location
+              </Button>
+              <Button type="submit" disabled={!canSubmit} className="gap-2">
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                Compare {candidates.length >= 2 ? `${candidates.length} locations` : ''}
+              </Button>
+            </div>
+            {isLoading && (
+              <p className="text-sm text-muted-foreground">
+                Running a full analysis for each location. This takes a minute or two.
+              </p>
+            )}
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-avoid">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </p>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Side by Side</CardTitle>
+            <p className="text-sm text-muted-foreground">{comparison.businessIdea}</p>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {comparison.locations.map((location) => (
+                    <TableHead key={location.location} className="align-top py-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 font-medium text-foreground">
+                          {location.rank !== null && <Badge variant="outline" className="font-mono">#{location.rank}</Badge>}
+                          {location.location}
+                        </div>
+                        {location.error ? (
+                          <p className="text-xs text-avoid">{location.error}</p>
+                        ) : location.analysis && (
+                          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onOpenAnalysis(location.analysis!)}>
+                            Open full analysis
+                          </Button>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Verdict</TableCell>
+                  {comparison.locations.map((location) => (
+                    <TableCell key={location.location}>
+                      {location.verdict ? <Badge className={verdictClass[location.verdict]}>{location.verdict}</Badge> : '-'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {METRICS.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                    {renderCell(row, comparison.locations)}
+                  </TableRow>
+                ))}
+                {comparison.factorNames.length > 0 && (
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell colSpan={comparison.locations.length + 1} className="pt-6 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                      Factor scores
+                    </TableCell>
+                  </TableRow>
+                )}
+                {comparison.factorNames.map((name) => (
+                  <TableRow key={name}>
+                    <TableCell className="text-muted-foreground">{name}</TableCell>
+                    {renderCell(
+                      { label: name, value: (l) => l.factorScores[name] ?? null, format: String, best: 'max' },
+                      comparison.locations,
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
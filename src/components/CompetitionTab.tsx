@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { Users, Shield, AlertTriangle, Lightbulb, Info } from 'lucide-react';
 import { BusinessAnalysis } from '@/types/analysis';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CitedText, SourceList } from './SourceFootnotes';
+import { citedSourceIds } from '@/lib/sources';
 import {
   PieChart,
   Pie,
@@ -31,6 +33,8 @@ export function CompetitionTab({ analysis }: CompetitionTabProps) {
   }
 
   const { competitionAnalysis } = analysis;
+  const sources = analysis.sources ?? [];
+  const citedIds = citedSourceIds(competitionAnalysis.explanation);
   const totalCompetitors = competitionAnalysis.directCompetitors + competitionAnalysis.indirectCompetitors;
 
   const pieData = [
@@ -129,7 +133,14 @@ export function CompetitionTab({ analysis }: CompetitionTabProps) {
             <div className="p-4 rounded-lg bg-go/10 border border-go/30 mb-4">
               <p className="text-lg font-medium">{competitionAnalysis.competitiveAdvantage}</p>
             </div>
-            <p className="text-sm text-muted-foreground">{competitionAnalysis.explanation}</p>
+            <p className="text-sm text-muted-foreground">
+              <CitedText text={competitionAnalysis.explanation} sources={sources} />
+            </p>
+            {citedIds.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-border/50">
+                <SourceList sources={sources} ids={citedIds} />
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
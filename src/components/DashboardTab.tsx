@@ -1,9 +1,14 @@
 import { useState, useEffect, useMemo } from 'react';
 import { LayoutDashboard, TrendingUp, Users, AlertTriangle, Target, Lightbulb, Quote, Calendar } from 'lucide-react';
-import { BusinessAnalysis } from '@/types/analysis';
+import { BusinessAnalysis, CityRecommendations as Recommendations } from '@/types/analysis';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { VerdictCard } from './VerdictCard';
+import { ScoreWaterfall } from './ScoreWaterfall';
+import { WhatIfPanel } from './WhatIfPanel';
+import { CityRecommendations } from './CityRecommendations';
+import { CitedText } from './SourceFootnotes';
 import { cn } from '@/lib/utils';
+import { formatMoney } from '@/lib/budget';
 import { supabase } from '@/integrations/supabase/client';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
@@ -29,6 +34,8 @@ import {
 
 interface DashboardTabProps {
   analysis: BusinessAnalysis | null;
+  cityRecommendations: Recommendations | null;
+  onCityRecommendationsComplete: (recommendations: Recommendations) => void;
 }
 
 interface MarketTrend {
@@ -40,7 +47,7 @@ interface MarketTrend {
   investment_volume: number | null;
 }
 
-export function DashboardTab({ analysis }: DashboardTabProps) {
+export function DashboardTab({ analysis, cityRecommendations, onCityRecommendationsComplete }: DashboardTabProps) {
   const [historicalTrends, setHistoricalTrends] = useState<MarketTrend[]>([]);
   const [trendView, setTrendView] = useState<'yearly' | 'monthly'>('yearly');
 
@@ -121,6 +128,9 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
           </p>
         </div>
 
+        {/* Idea and budget only: rank cities instead */}
+        <CityRecommendations recommendations={cityRecommendations} onRecommendationsComplete={onCityRecommendationsComplete} />
+
         {/* Historical Trends - Always visible */}
         <Card className="glass-card">
           <CardHeader>
@@ -220,7 +230,9 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
     );
   }
 
-  const { marketAnalysis, financialProjection, competitionAnalysis, risks, recommendations, expertInsights } = analysis;
+  const { marketAnalysis, financialProjection, competitionAnalysis, risks, recommendations, expertInsights, dataQuality, scoreBreakdown, budgetDetails } = analysis;
+
+  const defaultedEstimates = dataQuality?.factorDiscovery.defaultedFields ?? [];
 
   // Dynamic break-even calculation based on financial projection
   const calculateBreakEven = () => {
@@ -255,6 +267,9 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
 
   const dynamicBreakEven = calculateBreakEven();
 
+  // Projections are in the analysis currency; the market trend charts above stay in INR
+  const formatAmount = (value: number) => formatMoney(value, analysis.country?.currency ?? 'INR');
+
   const cumulativeData = financialProjection.yearlyData.reduce((acc: any[], year, index) => {
     const cumRevenue = (acc[index - 1]?.cumRevenue || 0) + year.revenue;
     const cumProfit = (acc[index - 1]?.cumProfit || 0) + year.profit;
@@ -273,6 +288,53 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
       {/* Main Verdict */}
       <VerdictCard analysis={analysis} />
 
+      {/* Fallback values the model did not supply */}
+      {defaultedEstimates.length > 0 && (
+        <div className="p-4 rounded-lg bg-caution/10 border border-caution/30">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-caution mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium text-caution mb-1">Some estimates are fallbacks</p>
+              <p className="text-sm text-muted-foreground">
+                The AI did not return usable values for {defaultedEstimates.length} field{defaultedEstimates.length === 1 ? '' : 's'}, so they
+                were set to 0 and may skew the score: <span className="font-mono text-xs">{defaultedEstimates.slice(0, 8).join(', ')}{defaultedEstimates.length > 8 ? ', …' : ''}</span>
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Budget text the parser could not read; scored against the default instead */}
+      {budgetDetails && !budgetDetails.recognized && budgetDetails.raw !== 'Not specified' && (
+        <div className="p-4 rounded-lg bg-caution/10 border border-caution/30">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-caution mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium text-caution mb-1">Budget not recognised</p>
+              <p className="text-sm text-muted-foreground">
+                "{budgetDetails.raw}" could not be read as an amount, so the score assumes {formatAmount(budgetDetails.min)}.
+                Try a figure like "15 lakh" or "10-15L" in the What If panel.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Per-feature contributions to the score */}
+      {scoreBreakdown && <ScoreWaterfall breakdown={scoreBreakdown} />}
+
+      {/* Deterministic re-scoring with user overrides (older analyses have no Pass 1 data) */}
+      {analysis.pass1 && <WhatIfPanel key={analysis.summary} analysis={{ ...analysis, pass1: analysis.pass1 }} />}
+
+      {/* Same idea and budget, ranked across cities */}
+      <CityRecommendations
+        key={`cities-${analysis.summary}`}
+        recommendations={cityRecommendations}
+        onRecommendationsComplete={onCityRecommendationsComplete}
+        defaultIdea={analysis.input?.businessIdea}
+        defaultBudget={analysis.input?.budget}
+      />
+
       {/* Key Metrics */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card className="glass-card">
@@ -434,14 +496,14 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatCurrency} />
+                <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatAmount} />
                 <Tooltip
                   contentStyle={{
                     backgroundColor: 'hsl(var(--card))',
                     border: '1px solid hsl(var(--border))',
                     borderRadius: '8px',
                   }}
-                  formatter={(value: number) => formatCurrency(value)}
+                  formatter={(value: number) => formatAmount(value)}
                 />
                 <Legend />
                 <Area
@@ -481,7 +543,9 @@ export function DashboardTab({ analysis }: DashboardTabProps) {
         </CardHeader>
         <CardContent>
           <div className="prose prose-invert max-w-none">
-            <p className="text-muted-foreground whitespace-pre-wrap">{expertInsights}</p>
+            <p className="text-muted-foreground whitespace-pre-wrap">
+              <CitedText text={expertInsights} sources={analysis.sources ?? []} />
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -11,6 +11,7 @@ interface HeaderProps {
 
 const tabs = [
   { id: 'chat', label: 'Chat' },
+  { id: 'compare', label: 'Compare' },
   { id: 'roadmap', label: 'Roadmap' },
   { id: 'dashboard', label: 'Dashboard' },
   { id: 'market', label: 'Market' },
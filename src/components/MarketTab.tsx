@@ -1,8 +1,9 @@
-import { TrendingUp, Target, BarChart3, Globe, Info } from 'lucide-react';
+import { TrendingUp, Target, BarChart3, Globe, Info, MapPin, BookOpen } from 'lucide-react';
 import { BusinessAnalysis } from '@/types/analysis';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { CitedText, SourceList, SourceRefs } from './SourceFootnotes';
 
 interface MarketTabProps {
   analysis: BusinessAnalysis | null;
@@ -21,7 +22,9 @@ export function MarketTab({ analysis }: MarketTabProps) {
     );
   }
 
-  const { marketAnalysis, competitionAnalysis } = analysis;
+  const { marketAnalysis, competitionAnalysis, locationProfile } = analysis;
+  const sources = analysis.sources ?? [];
+  const marketData = analysis.marketData ?? analysis.pass1?.marketData ?? [];
 
   const getCompetitionColor = (level: string) => {
     const lower = level.toLowerCase();
@@ -79,6 +82,55 @@ export function MarketTab({ analysis }: MarketTabProps) {
         </Card>
       </div>
 
+      {/* Location Profile: matched city, plus neighbourhood figures when the location names one */}
+      {locationProfile && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="w-5 h-5 text-primary" />
+              {locationProfile.neighbourhood ? `${locationProfile.neighbourhood.name}, ${locationProfile.city}` : locationProfile.city}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {[locationProfile.district, locationProfile.state].filter(Boolean).join(', ')} · {locationProfile.tier}
+            </p>
+          </CardHeader>
+          <CardContent>
+            {locationProfile.neighbourhood ? (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                  <p className="text-sm text-muted-foreground mb-1">Commercial Rent</p>
+                  <p className="text-xl font-bold">
+                    ₹{locationProfile.neighbourhood.rentPerSqft.min}–{locationProfile.neighbourhood.rentPerSqft.max}
+                  </p>
+                  <p className="text-xs text-muted-foreground">per sq ft / month</p>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                  <p className="text-sm text-muted-foreground mb-1">Footfall Index</p>
+                  <p className="text-xl font-bold">{locationProfile.neighbourhood.footfallIndex}/100</p>
+                  <p className="text-xs text-muted-foreground">commercial density</p>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                  <p className="text-sm text-muted-foreground mb-1">Income Band</p>
+                  <p className="text-xl font-bold capitalize">{locationProfile.neighbourhood.incomeBand}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                  <p className="text-sm text-muted-foreground mb-2">Customer Segments</p>
+                  <div className="flex flex-wrap gap-1">
+                    {locationProfile.neighbourhood.customerSegments.map((segment) => (
+                      <Badge key={segment} variant="outline" className="text-xs">{segment}</Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No neighbourhood profile for this location, so the analysis used city-wide figures.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Market Analysis Detail */}
       <Card className="glass-card">
         <CardHeader>
@@ -89,11 +141,56 @@ export function MarketTab({ analysis }: MarketTabProps) {
         </CardHeader>
         <CardContent>
           <div className="p-4 rounded-lg bg-secondary/30 border border-border/50">
-            <p className="text-muted-foreground leading-relaxed">{marketAnalysis.explanation}</p>
+            <p className="text-muted-foreground leading-relaxed">
+              <CitedText text={marketAnalysis.explanation} sources={sources} />
+            </p>
           </div>
+
+          {marketData.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium">Market Data</p>
+              {marketData.map((point, index) => (
+                <div key={index} className="flex items-start justify-between gap-4 p-3 rounded-lg bg-secondary/30 border border-border/50">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {point.metric}
+                      <SourceRefs ids={point.sourceIds ?? []} sources={sources} />
+                    </p>
+                    <p className="text-xs text-muted-foreground">{point.source}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-semibold">
+                      {point.estimatedValue.toLocaleString()} {point.unit}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {point.minValue.toLocaleString()}–{point.maxValue.toLocaleString()} · {point.confidence}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Sources cited by the market data and explanations */}
+      {sources.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-primary" />
+              Sources
+            </CardTitle>
+            {analysis.searchProvider && (
+              <p className="text-sm text-muted-foreground">Web results via {analysis.searchProvider}</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <SourceList sources={sources} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Opportunities & Threats Quick View */}
       <div className="grid md:grid-cols-2 gap-6">
         <Card className="glass-card">
@@ -6,6 +6,10 @@ import { Button } from '@/components/ui/button';
 import {
   BarChart,
   Bar,
+  ComposedChart,
+  Area,
+  Line,
+  ReferenceLine,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -14,6 +18,7 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { cn } from '@/lib/utils';
+import { formatMoney } from '@/lib/budget';
 
 interface ProfitLossTabProps {
   analysis: BusinessAnalysis | null;
@@ -40,13 +45,17 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
   }
 
   const { financialProjection } = analysis;
+  const simulation = financialProjection.simulation;
+  const showFanChart = viewLevel === 'yearly' && Boolean(simulation);
 
-  const formatCurrency = (value: number) => {
-    if (value >= 10000000) return `₹${(value / 10000000).toFixed(1)}Cr`;
-    if (value >= 100000) return `₹${(value / 100000).toFixed(1)}L`;
-    if (value >= 1000) return `₹${(value / 1000).toFixed(1)}K`;
-    return `₹${value}`;
-  };
+  // Shaded P10-P90 profit band per year with the median as a line
+  const fanChartData = simulation?.yearlyProfit.map((band) => ({
+    name: band.year.toString(),
+    range: [band.p10, band.p90],
+    Median: band.p50,
+  })) ?? [];
+
+  const formatCurrency = (value: number): string => formatMoney(value, analysis.country?.currency ?? 'INR');
 
   const handleYearClick = (year: number) => {
     setSelectedYear(year);
@@ -130,6 +139,12 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
           <CardContent className="p-4">
             <p className="text-sm text-muted-foreground mb-1">Break-even</p>
             <p className="text-2xl font-bold">{financialProjection.breakEvenMonths} months</p>
+            {simulation && (
+              <p className="text-xs text-muted-foreground mt-1">
+                P10–P90: {simulation.breakEvenMonths.p10}–{simulation.breakEvenMonths.p90}
+                {simulation.breakEvenMonths.p90 >= 36 ? '+' : ''} months
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card className="glass-card">
@@ -138,6 +153,11 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
             <p className={cn('text-2xl font-bold', financialProjection.roi >= 0 ? 'text-go' : 'text-avoid')}>
               {financialProjection.roi}%
             </p>
+            {simulation && (
+              <p className="text-xs text-muted-foreground mt-1">
+                P10–P90: {simulation.roi.p10}% to {simulation.roi.p90}%
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card className="glass-card">
@@ -203,7 +223,7 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="w-5 h-5 text-primary" />
-            {viewLevel === 'yearly' && '5-Year Financial Projection'}
+            {viewLevel === 'yearly' && (showFanChart ? '5-Year Profit Range' : '5-Year Financial Projection')}
             {viewLevel === 'monthly' && `${selectedYear} Monthly Breakdown`}
             {viewLevel === 'daily' && `${selectedMonth} ${selectedYear} Daily View`}
           </CardTitle>
@@ -211,35 +231,86 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
         <CardContent>
           <div className="h-[350px]">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart 
-                data={getChartData()} 
-                onClick={(data) => {
-                  if (data?.activePayload?.[0]?.payload) {
-                    const name = data.activePayload[0].payload.name;
-                    if (viewLevel === 'yearly') {
-                      handleYearClick(parseInt(name));
-                    } else if (viewLevel === 'monthly') {
-                      handleMonthClick(name);
+              {showFanChart ? (
+                <ComposedChart
+                  data={fanChartData}
+                  onClick={(data) => {
+                    if (data?.activePayload?.[0]?.payload) {
+                      handleYearClick(parseInt(data.activePayload[0].payload.name));
+                    }
+                  }}
+                >
+                  <defs>
+                    <linearGradient id="colorProfitBand" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--chart-2))" stopOpacity={0.4} />
+                      <stop offset="95%" stopColor="hsl(var(--chart-2))" stopOpacity={0.1} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatCurrency} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number | number[]) =>
+                      Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value)
+                    }
+                  />
+                  <Legend />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                  <Area
+                    type="monotone"
+                    dataKey="range"
+                    name="Profit P10–P90"
+                    stroke="hsl(var(--chart-2))"
+                    strokeOpacity={0.4}
+                    fill="url(#colorProfitBand)"
+                    cursor="pointer"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="Median"
+                    name="Profit (median)"
+                    stroke="hsl(var(--chart-2))"
+                    strokeWidth={2}
+                    dot={{ fill: 'hsl(var(--chart-2))' }}
+                    cursor="pointer"
+                  />
+                </ComposedChart>
+              ) : (
+                <BarChart 
+                  data={getChartData()} 
+                  onClick={(data) => {
+                    if (data?.activePayload?.[0]?.payload) {
+                      const name = data.activePayload[0].payload.name;
+                      if (viewLevel === 'yearly') {
+                        handleYearClick(parseInt(name));
+                      } else if (viewLevel === 'monthly') {
+                        handleMonthClick(name);
+                      }
                     }
-                  }
-                }}
-              >
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatCurrency} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'hsl(var(--card))',
-                    border: '1px solid hsl(var(--border))',
-                    borderRadius: '8px',
                   }}
-                  formatter={(value: number) => formatCurrency(value)}
-                />
-                <Legend />
-                <Bar dataKey="Revenue" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} cursor="pointer" />
-                <Bar dataKey="Expenses" fill="hsl(var(--chart-5))" radius={[4, 4, 0, 0]} cursor="pointer" />
-                <Bar dataKey="Profit" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} cursor="pointer" />
-              </BarChart>
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatCurrency} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Legend />
+                  <Bar dataKey="Revenue" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} cursor="pointer" />
+                  <Bar dataKey="Expenses" fill="hsl(var(--chart-5))" radius={[4, 4, 0, 0]} cursor="pointer" />
+                  <Bar dataKey="Profit" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} cursor="pointer" />
+                </BarChart>
+              )}
             </ResponsiveContainer>
           </div>
 
@@ -251,6 +322,7 @@ export function ProfitLossTab({ analysis }: ProfitLossTabProps) {
 
           {viewLevel === 'yearly' && (
             <p className="text-center text-sm text-muted-foreground mt-2">
+              {simulation && `Shaded band covers 80% of ${simulation.runs.toLocaleString()} simulated outcomes. `}
               Click on a year to drill down into monthly data
             </p>
           )}
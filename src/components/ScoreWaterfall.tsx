@@ -0,0 +1,122 @@
+import { BarChart3 } from 'lucide-react';
+import { ScoreBreakdown, GBDTFeatureKey } from '@/types/analysis';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+
+const featureLabels: Record<GBDTFeatureKey, string> = {
+  avgFactorScore: 'Factor scores',
+  budgetRatio: 'Budget vs setup cost',
+  competitionDensity: 'Competition',
+  marketGrowthSignal: 'Market growth',
+  profitMarginEstimate: 'Profit margin',
+  locationTierScore: 'City tier',
+  revenueToExpenseRatio: 'Revenue vs expenses',
+  factorVariance: 'Factor spread',
+  topFactorScore: 'Strongest factor',
+  bottomFactorScore: 'Weakest factor',
+};
+
+interface WaterfallStep {
+  label: string;
+  offset: number;
+  delta: number;
+  change: number;
+  kind: 'total' | 'up' | 'down';
+}
+
+const stepColors: Record<WaterfallStep['kind'], string> = {
+  total: 'hsl(var(--primary))',
+  up: 'hsl(var(--go))',
+  down: 'hsl(var(--avoid))',
+};
+
+interface ScoreWaterfallProps {
+  breakdown: ScoreBreakdown;
+}
+
+export function ScoreWaterfall({ breakdown }: ScoreWaterfallProps) {
+  const contributions = [...breakdown.contributions]
+    .filter((c) => Math.abs(c.contribution) >= 0.05)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  // Each bar floats on a transparent offset so it starts where the previous one ended
+  const steps: WaterfallStep[] = [{ label: 'Base', offset: 0, delta: breakdown.base, change: breakdown.base, kind: 'total' }];
+  let running = breakdown.base;
+  const pushStep = (label: string, change: number) => {
+    const next = running + change;
+    steps.push({ label, offset: Math.min(running, next), delta: Math.abs(change), change, kind: change >= 0 ? 'up' : 'down' });
+    running = next;
+  };
+  contributions.forEach((c) => {
+    const label = c.features.length === 1
+      ? featureLabels[c.features[0]]
+      : c.features.map((f) => featureLabels[f]).join(' × ');
+    pushStep(label, c.contribution);
+  });
+  if (Math.abs(breakdown.clampAdjustment) >= 0.05) pushStep('Rounding', breakdown.clampAdjustment);
+  steps.push({ label: 'Score', offset: 0, delta: breakdown.score, change: breakdown.score, kind: 'total' });
+
+  const formatChange = (step: WaterfallStep) =>
+    step.kind === 'total' ? step.change.toFixed(0) : `${step.change >= 0 ? '+' : ''}${step.change.toFixed(1)}`;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          How the Score Was Built
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={steps}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="label"
+                stroke="hsl(var(--muted-foreground))"
+                interval={0}
+                angle={-30}
+                textAnchor="end"
+                height={80}
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis stroke="hsl(var(--muted-foreground))" domain={[0, 100]} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+                cursor={{ fill: 'hsl(var(--secondary) / 0.3)' }}
+                formatter={(_value: number, name: string, item: { payload?: WaterfallStep }) =>
+                  name === 'delta' && item.payload ? [formatChange(item.payload), 'Points'] : null
+                }
+              />
+              <ReferenceLine y={breakdown.base} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+              <Bar dataKey="offset" stackId="waterfall" fill="transparent" />
+              <Bar dataKey="delta" stackId="waterfall" radius={[4, 4, 0, 0]}>
+                {steps.map((step, index) => (
+                  <Cell key={index} fill={stepColors[step.kind]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Every feasibility score starts at {breakdown.base}. Green bars are features that pushed it up, red bars pulled it down.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { Fragment, type ReactNode } from 'react';
+import { ExternalLink, Database } from 'lucide-react';
+import { Source } from '@/types/analysis';
+import { isSafeUrl } from '@/lib/sources';
+
+// Same marker shape the edge function keeps: "[3]" or "[1, 4]"
+const CITATION = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function Footnote({ id, sources }: { id: number; sources: Source[] }) {
+  const source = sources.find((s) => s.id === id);
+  if (!source) return null;
+  if (!isSafeUrl(source.url)) return <sup className="text-primary">{id}</sup>;
+  return (
+    <sup>
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={source.title}
+        className="text-primary hover:underline"
+      >
+        {id}
+      </a>
+    </sup>
+  );
+}
+
+export function SourceRefs({ ids, sources }: { ids: number[]; sources: Source[] }) {
+  const known = ids.filter((id) => sources.some((s) => s.id === id));
+  if (known.length === 0) return null;
+  return (
+    <span className="ml-0.5">
+      {known.map((id, i) => (
+        <Fragment key={id}>
+          {i > 0 && <sup>,</sup>}
+          <Footnote id={id} sources={sources} />
+        </Fragment>
+      ))}
+    </span>
+  );
+}
+
+/** Text with inline "[n]" markers rendered as superscript links to their sources. */
+export function CitedText({ text, sources }: { text: string; sources: Source[] }) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION)) {
+    const index = match.index ?? 0;
+    parts.push(text.slice(last, index).replace(/\s+$/, ''));
+    const ids = match[1].split(',').map((id) => Number(id.trim()));
+    parts.push(<SourceRefs key={index} ids={ids} sources={sources} />);
+    last = index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+/** Numbered list of the sources an analysis was grounded in. */
+export function SourceList({ sources, ids }: { sources: Source[]; ids?: number[] }) {
+  const shown = ids ? sources.filter((s) => ids.includes(s.id)) : sources;
+  if (shown.length === 0) return null;
+  return (
+    <ol className="space-y-2">
+      {shown.map((source) => {
+        const Icon = source.kind === 'dataset' ? Database : ExternalLink;
+        return (
+          <li key={source.id} id={`source-${source.id}`} className="flex items-start gap-3 text-sm">
+            <span className="w-6 h-6 rounded-full bg-primary/20 flex items-center justify-center text-xs font-medium shrink-0 text-primary">
+              {source.id}
+            </span>
+            <div className="min-w-0">
+              {isSafeUrl(source.url) ? (
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium hover:underline inline-flex items-center gap-1"
+                >
+                  {source.title}
+                  <Icon className="w-3 h-3 shrink-0" />
+                </a>
+              ) : (
+                <span className="font-medium">{source.title}</span>
+              )}
+              {source.snippet && <p className="text-xs text-muted-foreground line-clamp-2">{source.snippet}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
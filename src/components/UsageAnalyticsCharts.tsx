@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { Activity, Clock, Cpu, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { summarizeByDay, errorBreakdown, type UsageAnalyticsRow } from '@/lib/usageAnalytics';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+
+interface UsageAnalyticsChartsProps {
+  rows: UsageAnalyticsRow[];
+}
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function UsageAnalyticsCharts({ rows }: UsageAnalyticsChartsProps) {
+  const days = useMemo(() => summarizeByDay(rows), [rows]);
+  const errors = useMemo(() => errorBreakdown(rows), [rows]);
+
+  if (days.length === 0) {
+    return (
+      <Card className="glass-card">
+        <CardContent>
+          <p className="text-muted-foreground text-center py-8">
+            No analysis telemetry yet. Events appear here after your next analysis.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totals = days.reduce(
+    (acc, day) => ({
+      analyses: acc.analyses + day.analyses,
+      cacheHits: acc.cacheHits + day.cacheHits,
+      errors: acc.errors + day.errors,
+      tokens: acc.tokens + day.tokens,
+    }),
+    { analyses: 0, cacheHits: 0, errors: 0, tokens: 0 },
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Analyses', value: totals.analyses, icon: Activity },
+          { label: 'Cache hits', value: totals.cacheHits, icon: Clock },
+          { label: 'Failures', value: totals.errors, icon: AlertTriangle },
+          { label: 'Tokens', value: totals.tokens.toLocaleString(), icon: Cpu },
+        ].map(({ label, value, icon: Icon }) => (
+          <div key={label} className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+              <Icon className="w-4 h-4" />
+              {label}
+            </div>
+            <p className="text-2xl font-bold">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Requests per Day (last 30 days)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend />
+                <Bar dataKey="analyses" name="Completed" stackId="requests" fill="hsl(var(--chart-2))" />
+                <Bar dataKey="followups" name="Follow-ups" stackId="requests" fill="hsl(var(--chart-1))" />
+                <Bar dataKey="errors" name="Failed" stackId="requests" fill="hsl(var(--chart-5))" />
+                <Bar dataKey="refused" name="Over quota" stackId="requests" fill="hsl(var(--chart-4))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Average Latency per Pass</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={formatSeconds} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => formatSeconds(value)} />
+                <Legend />
+                <Line type="monotone" dataKey="avgRealtimeDataMs" name="Real-time data" stroke="hsl(var(--chart-3))" strokeWidth={2} connectNulls />
+                <Line type="monotone" dataKey="avgFactorDiscoveryMs" name="Pass 1" stroke="hsl(var(--chart-1))" strokeWidth={2} connectNulls />
+                <Line type="monotone" dataKey="avgExplanationMs" name="Pass 3" stroke="hsl(var(--chart-2))" strokeWidth={2} connectNulls />
+                <Line type="monotone" dataKey="avgTotalMs" name="Total" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {errors.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Errors</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {errors.map(({ code, count }) => (
+              <Badge key={code} variant="outline" className="gap-2">
+                {code}
+                <span className="text-muted-foreground">{count}</span>
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { SlidersHorizontal, Loader2, RotateCcw } from 'lucide-react';
+import { BusinessAnalysis, Pass1Data, RescoreOverrides, RescoreResult, ValueRange } from '@/types/analysis';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { supabase } from '@/integrations/supabase/client';
+import { parseBudget, describeBudget } from '@/lib/budget';
+import { cn } from '@/lib/utils';
+
+interface WhatIfPanelProps {
+  analysis: BusinessAnalysis & { pass1: Pass1Data };
+}
+
+const verdictColors: Record<BusinessAnalysis['verdict'], string> = {
+  GO: 'text-go',
+  CAUTION: 'text-caution',
+  AVOID: 'text-avoid',
+};
+
+const scaleRange = (min: number, max: number, percent: number): ValueRange => ({
+  min: Math.round(min * (1 + percent / 100)),
+  max: Math.round(max * (1 + percent / 100)),
+});
+
+export function WhatIfPanel({ analysis }: WhatIfPanelProps) {
+  const { pass1 } = analysis;
+  const originalBudget = analysis.input?.budget ?? 'Not specified';
+  const currency = analysis.country?.currency ?? 'INR';
+
+  const [budget, setBudget] = useState(originalBudget);
+  const [setupCostChange, setSetupCostChange] = useState(0);
+  const [revenueChange, setRevenueChange] = useState(0);
+  const [expensesChange, setExpensesChange] = useState(0);
+  const [directCompetitors, setDirectCompetitors] = useState(pass1.directCompetitors);
+  const [factorScores, setFactorScores] = useState<Record<string, number>>({});
+  const [result, setResult] = useState<RescoreResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setBudget(originalBudget);
+    setSetupCostChange(0);
+    setRevenueChange(0);
+    setExpensesChange(0);
+    setDirectCompetitors(pass1.directCompetitors);
+    setFactorScores({});
+    setResult(null);
+    setError(null);
+  };
+
+  const runRescore = async () => {
+    const overrides: RescoreOverrides = {
+      setupCost: scaleRange(pass1.estimatedSetupCostMin, pass1.estimatedSetupCostMax, setupCostChange),
+      monthlyRevenue: scaleRange(pass1.estimatedMonthlyRevenueMin, pass1.estimatedMonthlyRevenueMax, revenueChange),
+      monthlyExpenses: scaleRange(pass1.estimatedMonthlyExpensesMin, pass1.estimatedMonthlyExpensesMax, expensesChange),
+      directCompetitors,
+      factorScores,
+    };
+    if (budget.trim() && budget.trim() !== originalBudget) overrides.budget = budget.trim();
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase.functions.invoke('rescore-analysis', {
+        body: { pass1, budget: originalBudget, currency, overrides },
+      });
+      if (data?.error) throw new Error(data.error);
+      if (error) throw new Error(error.message || 'Re-scoring failed. Please try again.');
+      setResult(data.result as RescoreResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-scoring failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const percentSlider = (label: string, value: number, onChange: (value: number) => void) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{label}</Label>
+        <span className="text-xs font-mono text-muted-foreground">{value > 0 ? '+' : ''}{value}%</span>
+      </div>
+      <Slider min={-50} max={100} step={5} value={[value]} onValueChange={([v]) => onChange(v)} />
+    </div>
+  );
+
+  const scoreDelta = result ? result.score - analysis.score : 0;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-primary" />
+            What If…
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={reset} className="gap-1">
+            <RotateCcw className="w-4 h-4" /> Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="whatif-budget" className="text-sm">Budget</Label>
+              <Input id="whatif-budget" value={budget} onChange={(e) => setBudget(e.target.value)} placeholder="e.g. 25 lakh" />
+              {budget.trim() && <p className="text-xs text-muted-foreground">Read as {describeBudget(parseBudget(budget, undefined, currency))}</p>}
+            </div>
+            {percentSlider('Setup cost', setupCostChange, setSetupCostChange)}
+            {percentSlider('Monthly revenue', revenueChange, setRevenueChange)}
+            {percentSlider('Monthly expenses (rent, salaries…)', expensesChange, setExpensesChange)}
+            <div className="space-y-2">
+              <Label htmlFor="whatif-competitors" className="text-sm">Direct competitors</Label>
+              <Input
+                id="whatif-competitors"
+                type="number"
+                min={0}
+                value={directCompetitors}
+                onChange={(e) => setDirectCompetitors(Math.max(0, parseInt(e.target.value) || 0))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Factor scores</p>
+            {pass1.factors.map((factor) => {
+              const value = factorScores[factor.name] ?? factor.score;
+              return (
+                <div key={factor.name} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">{factor.name}</Label>
+                    <span className="text-xs font-mono text-muted-foreground">{value}</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={[value]}
+                    onValueChange={([v]) => setFactorScores((prev) => ({ ...prev, [factor.name]: v }))}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <Button onClick={runRescore} disabled={isLoading} className="gap-2">
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+          Re-score
+        </Button>
+
+        {error && <p className="text-sm text-avoid">{error}</p>}
+
+        {result && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-4 rounded-lg bg-secondary/30">
+              <p className="text-sm text-muted-foreground mb-1">Score</p>
+              <p className="text-xl font-bold">
+                {result.score}
+                <span className={cn('text-sm ml-2', scoreDelta > 0 ? 'text-go' : scoreDelta < 0 ? 'text-avoid' : 'text-muted-foreground')}>
+                  {scoreDelta > 0 ? '+' : ''}{scoreDelta}
+                </span>
+              </p>
+            </div>
+            <div className="p-4 rounded-lg bg-secondary/30">
+              <p className="text-sm text-muted-foreground mb-1">Verdict</p>
+              <p className={cn('text-xl font-bold', verdictColors[result.verdict])}>
+                {result.verdict}
+                {result.verdict !== analysis.verdict && <span className="text-xs text-muted-foreground ml-2">was {analysis.verdict}</span>}
+              </p>
+            </div>
+            <div className="p-4 rounded-lg bg-secondary/30">
+              <p className="text-sm text-muted-foreground mb-1">Break-even</p>
+              <p className="text-xl font-bold">{result.financialProjection.breakEvenMonths} months</p>
+              <p className="text-xs text-muted-foreground">was {analysis.financialProjection.breakEvenMonths}</p>
+            </div>
+            <div className="p-4 rounded-lg bg-secondary/30">
+              <p className="text-sm text-muted-foreground mb-1">ROI</p>
+              <p className={cn('text-xl font-bold', result.financialProjection.roi >= 0 ? 'text-go' : 'text-avoid')}>
+                {result.financialProjection.roi}%
+              </p>
+              <p className="text-xs text-muted-foreground">was {analysis.financialProjection.roi}%</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,15 +14,218 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_batches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          row_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          row_count: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          row_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_cache: {
+        Row: {
+          ai_model: string
+          cache_key: string
+          created_at: string
+          expires_at: string
+          input: Json
+          pipeline_version: string
+          response: Json
+        }
+        Insert: {
+          ai_model: string
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          input: Json
+          pipeline_version: string
+          response: Json
+        }
+        Update: {
+          ai_model?: string
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          input?: Json
+          pipeline_version?: string
+          response?: Json
+        }
+        Relationships: []
+      }
+      analysis_followups: {
+        Row: {
+          analysis_id: string
+          content: string
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id: string
+          content: string
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_followups_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "business_analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_jobs: {
+        Row: {
+          analysis_id: string | null
+          attempts: number
+          batch_id: string | null
+          cache: Json | null
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          force_refresh: boolean
+          id: string
+          input: Json
+          progress: Json
+          row_number: number | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id?: string | null
+          attempts?: number
+          batch_id?: string | null
+          cache?: Json | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          force_refresh?: boolean
+          id?: string
+          input: Json
+          progress?: Json
+          row_number?: number | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string | null
+          attempts?: number
+          batch_id?: string | null
+          cache?: Json | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          force_refresh?: boolean
+          id?: string
+          input?: Json
+          progress?: Json
+          row_number?: number | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "business_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_quotas: {
+        Row: {
+          analyses_per_month: number
+          created_at: string
+          requests_per_minute: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analyses_per_month: number
+          created_at?: string
+          requests_per_minute: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analyses_per_month?: number
+          created_at?: string
+          requests_per_minute?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_requests: {
+        Row: {
+          created_at: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       business_analyses: {
         Row: {
           ai_model_used: string | null
           analysis_data: Json | null
+          batch_id: string | null
           budget: string | null
           business_idea: string
           created_at: string
           id: string
           location: string | null
+          model_version: string | null
+          parent_analysis_id: string | null
           score: number | null
           summary: string | null
           user_id: string
@@ -31,11 +234,14 @@ export type Database = {
         Insert: {
           ai_model_used?: string | null
           analysis_data?: Json | null
+          batch_id?: string | null
           budget?: string | null
           business_idea: string
           created_at?: string
           id?: string
           location?: string | null
+          model_version?: string | null
+          parent_analysis_id?: string | null
           score?: number | null
           summary?: string | null
           user_id: string
@@ -44,16 +250,129 @@ export type Database = {
         Update: {
           ai_model_used?: string | null
           analysis_data?: Json | null
+          batch_id?: string | null
           budget?: string | null
           business_idea?: string
           created_at?: string
           id?: string
           location?: string | null
+          model_version?: string | null
+          parent_analysis_id?: string | null
           score?: number | null
           summary?: string | null
           user_id?: string
           verdict?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "business_analyses_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "business_analyses_parent_analysis_id_fkey"
+            columns: ["parent_analysis_id"]
+            isOneToOne: false
+            referencedRelation: "business_analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      city_aliases: {
+        Row: {
+          alias: string
+          city_id: string
+          kind: string
+        }
+        Insert: {
+          alias: string
+          city_id: string
+          kind?: string
+        }
+        Update: {
+          alias?: string
+          city_id?: string
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "city_aliases_city_id_fkey"
+            columns: ["city_id"]
+            isOneToOne: false
+            referencedRelation: "city_demographics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      city_demographics: {
+        Row: {
+          avg_household_income_inr: number | null
+          created_at: string
+          district: string | null
+          growth_rate: number
+          id: string
+          literacy_rate: number | null
+          metro_population_2011: number | null
+          name: string
+          population_2011: number
+          state: string
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          avg_household_income_inr?: number | null
+          created_at?: string
+          district?: string | null
+          growth_rate: number
+          id?: string
+          literacy_rate?: number | null
+          metro_population_2011?: number | null
+          name: string
+          population_2011: number
+          state: string
+          tier: string
+          updated_at?: string
+        }
+        Update: {
+          avg_household_income_inr?: number | null
+          created_at?: string
+          district?: string | null
+          growth_rate?: number
+          id?: string
+          literacy_rate?: number | null
+          metro_population_2011?: number | null
+          name?: string
+          population_2011?: number
+          state?: string
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      country_indicators: {
+        Row: {
+          country_code: string
+          fetched_at: string
+          indicator: string
+          value: number
+          year: number
+        }
+        Insert: {
+          country_code: string
+          fetched_at?: string
+          indicator: string
+          value: number
+          year: number
+        }
+        Update: {
+          country_code?: string
+          fetched_at?: string
+          indicator?: string
+          value?: number
+          year?: number
+        }
         Relationships: []
       }
       market_trends: {
@@ -89,12 +408,61 @@ export type Database = {
         }
         Relationships: []
       }
+      neighbourhood_profiles: {
+        Row: {
+          alias: string
+          commercial_rent_max_per_sqft: number
+          commercial_rent_min_per_sqft: number
+          created_at: string
+          customer_segments: string[]
+          footfall_index: number
+          income_band: string
+          name: string
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          alias: string
+          commercial_rent_max_per_sqft: number
+          commercial_rent_min_per_sqft: number
+          created_at?: string
+          customer_segments?: string[]
+          footfall_index: number
+          income_band: string
+          name: string
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          alias?: string
+          commercial_rent_max_per_sqft?: number
+          commercial_rent_min_per_sqft?: number
+          created_at?: string
+          customer_segments?: string[]
+          footfall_index?: number
+          income_band?: string
+          name?: string
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "neighbourhood_profiles_alias_fkey"
+            columns: ["alias"]
+            isOneToOne: true
+            referencedRelation: "city_aliases"
+            referencedColumns: ["alias"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           display_name: string | null
           id: string
+          ollama_base_url: string | null
+          ollama_model: string | null
           preferred_ai_model: string | null
           updated_at: string
           user_id: string
@@ -104,6 +472,8 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          ollama_base_url?: string | null
+          ollama_model?: string | null
           preferred_ai_model?: string | null
           updated_at?: string
           user_id: string
@@ -113,6 +483,8 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          ollama_base_url?: string | null
+          ollama_model?: string | null
           preferred_ai_model?: string | null
           updated_at?: string
           user_id?: string
@@ -148,7 +520,90 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      analysis_quota_status: {
+        Args: { p_user_id: string }
+        Returns: {
+          analyses_per_month: number
+          minute_resets_at: string
+          minute_used: number
+          month_resets_at: string
+          month_used: number
+          requests_per_minute: number
+        }[]
+      }
+      claim_batch_job: {
+        Args: {
+          p_batch_id: string
+          p_max_attempts?: number
+          p_stale_after?: unknown
+        }
+        Returns: {
+          analysis_id: string | null
+          attempts: number
+          batch_id: string | null
+          cache: Json | null
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          force_refresh: boolean
+          id: string
+          input: Json
+          progress: Json
+          row_number: number | null
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      consume_analysis_quota: {
+        Args: { p_count?: number }
+        Returns: {
+          allowed: boolean
+          analyses_per_month: number
+          minute_resets_at: string
+          minute_used: number
+          month_resets_at: string
+          month_used: number
+          reason: string
+          requests_per_minute: number
+        }[]
+      }
+      get_analysis_quota: {
+        Args: never
+        Returns: {
+          analyses_per_month: number
+          minute_resets_at: string
+          minute_used: number
+          month_resets_at: string
+          month_used: number
+          requests_per_minute: number
+        }[]
+      }
+      match_city: {
+        Args: { candidates: string[]; max_distance?: number }
+        Returns: {
+          alias_kind: string
+          avg_household_income_inr: number
+          city_id: string
+          commercial_rent_max_per_sqft: number
+          commercial_rent_min_per_sqft: number
+          customer_segments: string[]
+          distance: number
+          district: string
+          footfall_index: number
+          growth_rate: number
+          income_band: string
+          literacy_rate: number
+          matched_alias: string
+          metro_population_2011: number
+          name: string
+          neighbourhood_name: string
+          population_2011: number
+          query: string
+          state: string
+          tier: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
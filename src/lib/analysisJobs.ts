@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AnalysisStreamEvent, BusinessAnalysis, CacheInfo } from '@/types/analysis';
+
+export interface AnalysisRequest {
+  businessIdea: string;
+  location: string;
+  budget: string;
+}
+
+export interface AnalysisResult {
+  analysis: BusinessAnalysis;
+  aiModel: string;
+  cache: CacheInfo;
+  analysisId?: string;  // business_analyses row; set for results the server saved
+}
+
+export function formatCacheAge(ageSeconds: number): string {
+  if (ageSeconds < 60) return 'less than a minute';
+  if (ageSeconds < 3600) return `${Math.round(ageSeconds / 60)} min`;
+  if (ageSeconds < 86400) return `${Math.round(ageSeconds / 3600)}h`;
+  return `${Math.round(ageSeconds / 86400)}d`;
+}
+
+export type AnalysisStepId = 'realtime-data' | 'factors' | 'score' | 'explanations';
+
+// Completed steps mapped to a short detail line
+export type AnalysisStepDetails = Partial<Record<AnalysisStepId, string>>;
+
+/** Folds a stream event into the step details; non-step events leave them unchanged. */
+export function applyProgressEvent(details: AnalysisStepDetails, event: AnalysisStreamEvent): AnalysisStepDetails {
+  switch (event.type) {
+    case 'realtime-data': {
+      const { webSearch, nationalData, cityDemographics } = event.sources;
+      const sources = [
+        `Web search ${webSearch ? `✓${event.searchProvider ? ` (${event.searchProvider})` : ''}` : '✗'}`,
+        `World Bank ${nationalData ? '✓' : '✗'}`,
+        `City demographics ${cityDemographics ? '✓' : '✗'}`,
+      ];
+      return { ...details, 'realtime-data': sources.join(' · ') };
+    }
+    case 'factors':
+      return { ...details, factors: `${event.factors.length} factors, ${event.dataPoints} data points` };
+    case 'score':
+      return { ...details, score: `${event.analysis.score}/100 · ${event.analysis.verdict}` };
+    case 'explanations':
+      return { ...details, explanations: 'Done' };
+    default:
+      return details;
+  }
+}
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/** The analysis_jobs columns the chat reads while following a job. */
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  input: AnalysisRequest;
+  force_refresh: boolean;
+  progress: AnalysisStreamEvent[];  // pipeline events so far, in the order they happened
+  analysis_id: string | null;
+  cache: CacheInfo | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const JOB_COLUMNS = 'id, status, input, force_refresh, progress, analysis_id, cache, error, created_at, updated_at';
+const POLL_INTERVAL_MS = 2000;
+// Pass 3 can run for minutes without a progress write; a job silent for longer than this lost its worker
+export const STALE_JOB_MS = 10 * 60 * 1000;
+const PENDING_JOB_KEY = 'pending-analysis-job';
+
+/** Step details and the scored (pre-explanation) analysis, replayed from the job's events. */
+export function jobProgress(job: AnalysisJob): { details: AnalysisStepDetails; partialAnalysis: BusinessAnalysis | null } {
+  let details: AnalysisStepDetails = {};
+  let partialAnalysis: BusinessAnalysis | null = null;
+  for (const event of job.progress ?? []) {
+    details = applyProgressEvent(details, event);
+    if (event.type === 'score') partialAnalysis = event.analysis;
+  }
+  return { details, partialAnalysis };
+}
+
+export function isStaleJob(job: Pick<AnalysisJob, 'status' | 'updated_at'>, now = Date.now()): boolean {
+  if (job.status !== 'queued' && job.status !== 'running') return false;
+  return now - new Date(job.updated_at).getTime() > STALE_JOB_MS;
+}
+
+// The job being followed is remembered so a reload picks it up again instead of losing it
+export function rememberPendingJob(jobId: string) {
+  localStorage.setItem(PENDING_JOB_KEY, jobId);
+}
+
+export function pendingJobId(): string | null {
+  return localStorage.getItem(PENDING_JOB_KEY);
+}
+
+export function forgetPendingJob() {
+  localStorage.removeItem(PENDING_JOB_KEY);
+}
+
+// POSTs to analyze-business and returns the JSON body; errors carry the function's message
+export async function postAnalyzeBusiness<T = Record<string, string>>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Please sign in to analyze business ideas.');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-business`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result) throw new Error(result?.error || 'Analysis failed. Please try again.');
+  return result;
+}
+
+/** Creates an analysis job; analyze-business answers with its id and keeps running the pipeline. */
+export async function submitAnalysisJob(request: AnalysisRequest & { forceRefresh?: boolean }): Promise<string> {
+  const { jobId } = await postAnalyzeBusiness({ ...request, background: true });
+  if (!jobId) throw new Error('Analysis failed. Please try again.');
+  return jobId;
+}
+
+/** Queues one job per row under a new analysis_batches row and returns the batch id. */
+export async function submitAnalysisBatch(name: string, rows: AnalysisRequest[]): Promise<string> {
+  const batch = { name, rows: rows.map(({ businessIdea, location, budget }) => ({ businessIdea, location, budget })) };
+  const { batchId } = await postAnalyzeBusiness({ batch });
+  if (!batchId) throw new Error('Batch submission failed. Please try again.');
+  return batchId;
+}
+
+/** Restarts the workers of a batch that stopped making progress (see isBatchStalled). */
+export async function resumeAnalysisBatch(batchId: string): Promise<void> {
+  await postAnalyzeBusiness({ resumeBatch: batchId });
+}
+
+export async function fetchAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  const { data, error } = await supabase.from('analysis_jobs').select(JOB_COLUMNS).eq('id', jobId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as unknown as AnalysisJob | null;
+}
+
+async function fetchJobResult(job: AnalysisJob): Promise<AnalysisResult> {
+  const { data, error } = await supabase
+    .from('business_analyses')
+    .select('analysis_data, ai_model_used')
+    .eq('id', job.analysis_id ?? '')
+    .maybeSingle();
+  const analysis = data?.analysis_data as unknown as BusinessAnalysis | null;
+  if (error || !analysis?.verdict) throw new Error('The analysis finished but could not be loaded. You can find it in History.');
+  return {
+    analysis,
+    aiModel: data.ai_model_used ?? '',
+    cache: job.cache ?? { hit: false, cachedAt: job.updated_at, ageSeconds: 0 },
+    analysisId: job.analysis_id ?? undefined,
+  };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Polls a job until it completes or fails, passing every snapshot to onUpdate. Resolves
+ * with null when the signal aborts first; the job keeps running on the server either way.
+ * A failed poll (e.g. the network dropping) is retried on the next tick.
+ */
+export async function waitForAnalysisJob(jobId: string, onUpdate: (job: AnalysisJob) => void, signal: AbortSignal): Promise<AnalysisResult | null> {
+  while (!signal.aborted) {
+    let job: AnalysisJob | null;
+    try {
+      job = await fetchAnalysisJob(jobId);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Polling analysis job failed:', error);
+      await wait(POLL_INTERVAL_MS, signal);
+      continue;
+    }
+    if (!job) throw new Error('This analysis could not be found.');
+    if (signal.aborted) break;
+
+    onUpdate(job);
+    if (job.status === 'completed') return fetchJobResult(job);
+    if (job.status === 'failed') throw new Error(job.error || 'Analysis failed. Please try again.');
+    if (isStaleJob(job)) throw new Error('The analysis stopped before finishing. Please try again.');
+    await wait(POLL_INTERVAL_MS, signal);
+  }
+  return null;
+}
@@ -0,0 +1,159 @@
+import { isStaleJob, STALE_JOB_MS, type AnalysisRequest, type AnalysisJobStatus } from '@/lib/analysisJobs';
+
+// Must match MAX_BATCH_ROWS in the analyze-business edge function
+export const MAX_BATCH_ROWS = 50;
+
+/** RFC 4180 records: quoted fields may contain commas, line breaks and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+const HEADER_ALIASES: Record<keyof AnalysisRequest, string[]> = {
+  businessIdea: ['idea', 'business idea', 'businessidea', 'business_idea', 'description'],
+  location: ['location', 'city', 'area'],
+  budget: ['budget', 'investment', 'capital'],
+};
+
+export interface BatchRow extends AnalysisRequest {
+  line: number;  // line in the file, for error messages
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: string[];
+}
+
+/**
+ * Reads a CSV of idea, location and budget. A header row is recognised by its column names
+ * (in any order); without one the columns are taken in that order. Blank lines are skipped;
+ * the checks mirror what analyze-business enforces so a bad file is caught before upload.
+ */
+export function parseBatchCsv(text: string): ParsedBatch {
+  const records = parseCsv(text.replace(/^\uFEFF/, ''));
+  const header = records[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const column = (key: keyof AnalysisRequest) => header.findIndex((cell) => HEADER_ALIASES[key].includes(cell));
+  const hasHeader = column('businessIdea') !== -1;
+  const columns = hasHeader
+    ? { businessIdea: column('businessIdea'), location: column('location'), budget: column('budget') }
+    : { businessIdea: 0, location: 1, budget: 2 };
+
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    if (hasHeader && index === 0) return;
+    if (record.every((cell) => cell.trim() === '')) return;
+
+    const line = index + 1;
+    const cell = (position: number) => (position >= 0 ? record[position]?.trim() ?? '' : '');
+    const row = { line, businessIdea: cell(columns.businessIdea), location: cell(columns.location), budget: cell(columns.budget) };
+
+    if (row.businessIdea.length < 10) errors.push(`Line ${line}: business idea must be at least 10 characters`);
+    else if (row.businessIdea.length > 2000) errors.push(`Line ${line}: business idea must be less than 2000 characters`);
+    else if (row.location.length > 200) errors.push(`Line ${line}: location must be less than 200 characters`);
+    else if (row.budget.length > 100) errors.push(`Line ${line}: budget must be less than 100 characters`);
+    else rows.push(row);
+  });
+
+  if (rows.length + errors.length === 0) errors.push('The file has no ideas in it');
+  if (rows.length > MAX_BATCH_ROWS) errors.push(`A batch can have at most ${MAX_BATCH_ROWS} ideas; this file has ${rows.length}`);
+  return { rows, errors };
+}
+
+/** The analysis_jobs columns the batch summary reads. */
+export interface BatchJobRow {
+  id: string;
+  status: AnalysisJobStatus;
+  input: AnalysisRequest;
+  row_number: number;
+  analysis_id: string | null;
+  error: string | null;
+  updated_at: string;
+}
+
+export interface BatchAnalysisRow {
+  id: string;
+  verdict: string | null;
+  score: number | null;
+}
+
+export interface BatchResult {
+  rowNumber: number;
+  rank: number | null;  // position by score; null until the row has one
+  input: AnalysisRequest;
+  status: AnalysisJobStatus;
+  stalled: boolean;     // running but silent past STALE_JOB_MS: its worker is gone until the batch resumes
+  error: string | null;
+  analysis: BatchAnalysisRow | null;
+}
+
+/** Scored rows best first, then rows still running or queued, then failures; ties keep CSV order. */
+export function rankBatchResults(jobs: BatchJobRow[], analyses: BatchAnalysisRow[], now = Date.now()): BatchResult[] {
+  const byId = new Map(analyses.map((analysis) => [analysis.id, analysis]));
+  const results = jobs.map((job) => ({
+    rowNumber: job.row_number,
+    rank: null as number | null,
+    input: job.input,
+    status: job.status,
+    stalled: job.status === 'running' && isStaleJob(job, now),
+    error: job.error,
+    analysis: (job.analysis_id && byId.get(job.analysis_id)) || null,
+  }));
+
+  const group = (result: BatchResult) => (result.analysis?.score != null ? 0 : result.status === 'failed' ? 2 : 1);
+  results.sort((a, b) =>
+    group(a) - group(b)
+    || (group(a) === 0 ? (b.analysis?.score ?? 0) - (a.analysis?.score ?? 0) : 0)
+    || a.rowNumber - b.rowNumber);
+  results.forEach((result, index) => {
+    if (group(result) === 0) result.rank = index + 1;
+  });
+  return results;
+}
+
+export function batchCounts(results: BatchResult[]): { total: number; completed: number; failed: number; pending: number } {
+  const completed = results.filter((result) => result.status === 'completed').length;
+  const failed = results.filter((result) => result.status === 'failed').length;
+  return { total: results.length, completed, failed, pending: results.length - completed - failed };
+}
+
+/** No row has moved for STALE_JOB_MS while some are unfinished, so every worker has been lost. */
+export function isBatchStalled(jobs: Pick<BatchJobRow, 'status' | 'updated_at'>[], now = Date.now()): boolean {
+  if (!jobs.some((job) => job.status === 'queued' || job.status === 'running')) return false;
+  const lastActivity = Math.max(...jobs.map((job) => new Date(job.updated_at).getTime()));
+  return now - lastActivity > STALE_JOB_MS;
+}
@@ -0,0 +1,2 @@
+// The chat form previews budgets with the same parser Pass 2 uses, so what the user sees is what gets scored
+export { parseBudget, describeBudget, formatINR, formatMoney, type ParsedBudget } from '../../supabase/functions/_shared/budget.ts';
@@ -0,0 +1,30 @@
+import { postAnalyzeBusiness } from '@/lib/analysisJobs';
+import type { LocationComparison } from '@/types/analysis';
+
+// Comparison helpers shared with the analyze-business edge function
+export { MAX_COMPARE_LOCATIONS, normalizeLocations } from '../../supabase/functions/_shared/compare.ts';
+
+export interface ComparisonRequest {
+  businessIdea: string;
+  budget: string;
+  locations: string[];
+}
+
+/** Runs the idea against every location and returns them ranked; waits for all of them. */
+export async function compareLocations(request: ComparisonRequest): Promise<LocationComparison> {
+  const comparison = await postAnalyzeBusiness<LocationComparison>({ ...request });
+  if (!Array.isArray(comparison.locations)) throw new Error('Invalid comparison response. Please try again.');
+  return comparison;
+}
+
+/** Index of the best value in a row ('max' or 'min' wins); null when no location has a value. */
+export function bestIndex(values: (number | null | undefined)[], best: 'max' | 'min'): number | null {
+  let winner: number | null = null;
+  for (let index = 0; index < values.length; index++) {
+    const value = values[index];
+    if (value == null) continue;
+    const current = winner === null ? null : values[winner];
+    if (current == null || (best === 'max' ? value > current : value < current)) winner = index;
+  }
+  return winner;
+}
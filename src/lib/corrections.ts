@@ -0,0 +1,18 @@
+import { postAnalyzeBusiness } from '@/lib/analysisJobs';
+import type { BusinessAnalysis } from '@/types/analysis';
+
+// Correction helpers shared with the analyze-business edge function
+export { MAX_CORRECTION_LENGTH } from '../../supabase/functions/_shared/corrections.ts';
+
+export interface RevisedAnalysis {
+  analysis: BusinessAnalysis;  // revision.changes lists what the corrections changed
+  aiModel: string;
+  analysisId: string;          // the new revision's business_analyses id
+}
+
+/** Re-scores and re-explains a saved analysis with the user's corrections, saved as a revision. */
+export async function reviseAnalysis(analysisId: string, corrections: string): Promise<RevisedAnalysis> {
+  const revised = await postAnalyzeBusiness<RevisedAnalysis>({ revise: { analysisId, corrections } });
+  if (!revised.analysis?.verdict || !revised.analysisId) throw new Error('Invalid revision response. Please try again.');
+  return revised;
+}
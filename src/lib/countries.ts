@@ -0,0 +1,2 @@
+// Country resolution shared with the analyze-business edge function
+export { resolveCountry, type CountryProfile } from '../../supabase/functions/_shared/countries.ts';
@@ -0,0 +1,37 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { ChatMessage } from '@/types/analysis';
+
+// Follow-up helpers shared with the analysis-followup edge function
+export { MAX_QUESTION_LENGTH } from '../../supabase/functions/_shared/followup.ts';
+
+/** Asks about a saved analysis; the function stores the question and answer in the thread. */
+export async function askFollowup(analysisId: string, question: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('analysis-followup', { body: { analysisId, question } });
+  if (data?.error) throw new Error(data.error);
+  // Quota refusals and other non-2xx answers carry their message in the body
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) throw new Error(body.error);
+  }
+  if (error) throw new Error(error.message || 'Could not answer that. Please try again.');
+  if (typeof data?.answer !== 'string') throw new Error('Could not answer that. Please try again.');
+  return data.answer;
+}
+
+/** The stored thread for an analysis as chat messages, oldest first. */
+export async function fetchFollowups(analysisId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('analysis_followups')
+    .select('id, role, content, created_at')
+    .eq('analysis_id', analysisId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    role: row.role === 'user' ? 'user' : 'assistant',
+    content: row.content,
+    followupOf: analysisId,
+    timestamp: new Date(row.created_at),
+  }));
+}
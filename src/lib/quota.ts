@@ -0,0 +1,2 @@
+// Quota helpers shared with the analyze-business edge function
+export { toQuotaStatus, type QuotaRow, type QuotaStatus } from '../../supabase/functions/_shared/quota.ts';
@@ -0,0 +1,31 @@
+import { postAnalyzeBusiness } from '@/lib/analysisJobs';
+import type { CityRecommendation, CityRecommendations } from '@/types/analysis';
+
+// Recommendation helpers shared with the analyze-business edge function
+export { RECOMMENDATION_COUNT } from '../../supabase/functions/_shared/recommend.ts';
+
+export interface RecommendationRequest {
+  businessIdea: string;
+  budget: string;
+}
+
+/** Ranks the best cities for an idea and budget; the edge function picks the candidates. */
+export async function recommendCities(request: RecommendationRequest): Promise<CityRecommendations> {
+  const recommendations = await postAnalyzeBusiness<CityRecommendations>({ ...request, recommendCities: true });
+  if (!Array.isArray(recommendations.cities)) throw new Error('Invalid recommendation response. Please try again.');
+  return recommendations;
+}
+
+export type RecommendationSortKey = 'score' | 'city' | 'tier' | 'avgHouseholdIncome' | 'growthRate' | 'literacyRate' | 'breakEvenMonths' | 'roi';
+
+/** A sorted copy; missing values sort last either way and ties keep the ranking order. */
+export function sortRecommendations(cities: CityRecommendation[], key: RecommendationSortKey, direction: 'asc' | 'desc'): CityRecommendation[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...cities].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (left == null || right == null) return (left == null ? 1 : 0) - (right == null ? 1 : 0) || a.rank - b.rank;
+    const order = typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number);
+    return order * sign || a.rank - b.rank;
+  });
+}
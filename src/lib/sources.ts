@@ -0,0 +1,2 @@
+// Citation helpers shared with the analyze-business edge function
+export { isSafeUrl, citedSourceIds } from '../../supabase/functions/_shared/sources.ts';
@@ -0,0 +1,84 @@
+import { FOLLOWUP_ACTION, type AnalysisEventMetadata, type FollowupEventMetadata } from '../../supabase/functions/_shared/telemetry.ts';
+
+export { ANALYSIS_ACTION, FOLLOWUP_ACTION, type AnalysisEventMetadata } from '../../supabase/functions/_shared/telemetry.ts';
+
+export interface UsageAnalyticsRow {
+  action_type?: string;  // 'analysis' when absent
+  created_at: string;
+  metadata: unknown;
+}
+
+// One point per day on the Database page analytics charts
+export interface AnalyticsDay {
+  date: string;  // YYYY-MM-DD, local time
+  analyses: number;
+  followups: number;  // questions answered
+  cacheHits: number;
+  errors: number;
+  refused: number;
+  avgTotalMs: number | null;
+  avgRealtimeDataMs: number | null;
+  avgFactorDiscoveryMs: number | null;
+  avgExplanationMs: number | null;
+  tokens: number;
+}
+
+function localDate(iso: string): string {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+}
+
+/**
+ * Buckets 'analysis' and 'followup' events by day. Latency averages only cover pipeline
+ * runs that reached the stage, so cache hits, refusals and follow-ups do not drag them down;
+ * follow-ups count towards errors, refusals and tokens.
+ */
+export function summarizeByDay(rows: UsageAnalyticsRow[]): AnalyticsDay[] {
+  const days = new Map<string, { analyses: AnalysisEventMetadata[]; followups: FollowupEventMetadata[] }>();
+  for (const row of rows) {
+    const metadata = row.metadata as AnalysisEventMetadata | null;
+    if (!metadata || typeof metadata.outcome !== 'string') continue;
+    const date = localDate(row.created_at);
+    const day = days.get(date) ?? { analyses: [], followups: [] };
+    if (row.action_type === FOLLOWUP_ACTION) day.followups.push(metadata as unknown as FollowupEventMetadata);
+    else day.analyses.push(metadata);
+    days.set(date, day);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { analyses: events, followups }]) => {
+      const all = [...events, ...followups];
+      const runs = events.filter((e) => e.outcome !== 'refused' && e.cache !== 'hit');
+      const stage = (key: keyof AnalysisEventMetadata['latencyMs']) =>
+        average(runs.map((e) => e.latencyMs?.[key]).filter((v): v is number => typeof v === 'number'));
+      return {
+        date,
+        analyses: events.filter((e) => e.outcome === 'success').length,
+        followups: followups.filter((e) => e.outcome === 'success').length,
+        cacheHits: events.filter((e) => e.cache === 'hit').length,
+        errors: all.filter((e) => e.outcome === 'error').length,
+        refused: all.filter((e) => e.outcome === 'refused').length,
+        avgTotalMs: average(runs.filter((e) => e.outcome === 'success').map((e) => e.totalLatencyMs)),
+        avgRealtimeDataMs: stage('realtimeData'),
+        avgFactorDiscoveryMs: stage('factorDiscovery'),
+        avgExplanationMs: stage('explanation'),
+        tokens: all.reduce((sum, e) => sum + (e.totalTokens ?? 0), 0),
+      };
+    });
+}
+
+/** Error codes and how often they occurred, most frequent first. */
+export function errorBreakdown(rows: UsageAnalyticsRow[]): { code: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const metadata = row.metadata as AnalysisEventMetadata | null;
+    if (!metadata?.errorCode) continue;
+    counts.set(metadata.errorCode, (counts.get(metadata.errorCode) ?? 0) + 1);
+  }
+  return [...counts.entries()].map(([code, count]) => ({ code, count })).sort((a, b) => b.count - a.count);
+}
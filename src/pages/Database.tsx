@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Database as DatabaseIcon, RefreshCw, Table, History, TrendingUp } from 'lucide-react';
+import { ArrowLeft, Database as DatabaseIcon, RefreshCw, Table, History, TrendingUp, Activity, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -9,6 +9,9 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { UsageAnalyticsCharts } from '@/components/UsageAnalyticsCharts';
+import { BatchAnalysis } from '@/components/BatchAnalysis';
+import { ANALYSIS_ACTION, FOLLOWUP_ACTION, type UsageAnalyticsRow } from '@/lib/usageAnalytics';
 
 interface BusinessAnalysisRow {
   id: string;
@@ -18,6 +21,7 @@ interface BusinessAnalysisRow {
   verdict: string | null;
   score: number | null;
   ai_model_used: string | null;
+  parent_analysis_id: string | null;
   created_at: string;
 }
 
@@ -45,6 +49,7 @@ export default function Database() {
   const [analyses, setAnalyses] = useState<BusinessAnalysisRow[]>([]);
   const [trends, setTrends] = useState<MarketTrendRow[]>([]);
   const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [usage, setUsage] = useState<UsageAnalyticsRow[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -64,7 +69,7 @@ export default function Database() {
       // Fetch user's analyses
       const { data: analysesData, error: analysesError } = await supabase
         .from('business_analyses')
-        .select('id, business_idea, location, budget, verdict, score, ai_model_used, created_at')
+        .select('id, business_idea, location, budget, verdict, score, ai_model_used, parent_analysis_id, created_at')
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -81,6 +86,18 @@ export default function Database() {
       if (trendsError) throw trendsError;
       setTrends(trendsData || []);
 
+      // Fetch pipeline telemetry for the last 30 days
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+      const { data: usageData, error: usageError } = await supabase
+        .from('usage_analytics')
+        .select('action_type, created_at, metadata')
+        .in('action_type', [ANALYSIS_ACTION, FOLLOWUP_ACTION])
+        .gte('created_at', since)
+        .order('created_at', { ascending: true });
+
+      if (usageError) throw usageError;
+      setUsage(usageData || []);
+
       // Fetch user profile
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
@@ -172,10 +189,18 @@ export default function Database() {
               <History className="w-4 h-4" />
               My Analyses
             </TabsTrigger>
+            <TabsTrigger value="batches" className="gap-2">
+              <Layers className="w-4 h-4" />
+              Batches
+            </TabsTrigger>
             <TabsTrigger value="trends" className="gap-2">
               <TrendingUp className="w-4 h-4" />
               Market Trends
             </TabsTrigger>
+            <TabsTrigger value="analytics" className="gap-2">
+              <Activity className="w-4 h-4" />
+              Analytics
+            </TabsTrigger>
             <TabsTrigger value="profile" className="gap-2">
               <Table className="w-4 h-4" />
               Profile
@@ -209,6 +234,9 @@ export default function Database() {
                       {analyses.map((analysis) => (
                         <TableRow key={analysis.id}>
                           <TableCell className="max-w-[200px] truncate">
+                            {analysis.parent_analysis_id && (
+                              <Badge variant="outline" className="text-xs mr-1.5">Revision</Badge>
+                            )}
                             {analysis.business_idea}
                           </TableCell>
                           <TableCell>{analysis.location || '-'}</TableCell>
@@ -232,6 +260,10 @@ export default function Database() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="batches">
+            <BatchAnalysis />
+          </TabsContent>
+
           <TabsContent value="trends">
             <Card className="glass-card">
               <CardHeader>
@@ -270,6 +302,10 @@ export default function Database() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="analytics">
+            <UsageAnalyticsCharts rows={usage} />
+          </TabsContent>
+
           <TabsContent value="profile">
             <Card className="glass-card">
               <CardHeader>
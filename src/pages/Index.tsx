@@ -2,12 +2,13 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { ChatTab } from '@/components/ChatTab';
+import { CompareTab } from '@/components/CompareTab';
 import { CompetitionTab } from '@/components/CompetitionTab';
 import { ProfitLossTab } from '@/components/ProfitLossTab';
 import { RoadmapTab } from '@/components/RoadmapTab';
 import { DashboardTab } from '@/components/DashboardTab';
 import { MarketTab } from '@/components/MarketTab';
-import { BusinessAnalysis } from '@/types/analysis';
+import { BusinessAnalysis, CityRecommendations, LocationComparison } from '@/types/analysis';
 import { useAuth } from '@/hooks/useAuth';
 
 const Index = () => {
@@ -15,6 +16,8 @@ const Index = () => {
   const { user, loading } = useAuth();
   const [activeTab, setActiveTab] = useState('chat');
   const [currentAnalysis, setCurrentAnalysis] = useState<BusinessAnalysis | null>(null);
+  const [comparison, setComparison] = useState<LocationComparison | null>(null);
+  const [cityRecommendations, setCityRecommendations] = useState<CityRecommendations | null>(null);
 
   // Redirect to auth if not logged in
   useEffect(() => {
@@ -27,6 +30,12 @@ const Index = () => {
     setCurrentAnalysis(analysis);
   };
 
+  // A location picked from a comparison becomes the analysis the other tabs show
+  const handleOpenAnalysis = (analysis: BusinessAnalysis) => {
+    setCurrentAnalysis(analysis);
+    setActiveTab('dashboard');
+  };
+
   // Show nothing while checking auth
   if (loading || !user) {
     return null;
@@ -43,8 +52,11 @@ const Index = () => {
         {activeTab === 'chat' && (
           <ChatTab onAnalysisComplete={handleAnalysisComplete} />
         )}
+        {activeTab === 'compare' && (
+          <CompareTab comparison={comparison} onComparisonComplete={setComparison} onOpenAnalysis={handleOpenAnalysis} />
+        )}
         {activeTab === 'dashboard' && (
-          <DashboardTab analysis={currentAnalysis} />
+          <DashboardTab analysis={currentAnalysis} cityRecommendations={cityRecommendations} onCityRecommendationsComplete={setCityRecommendations} />
         )}
         {activeTab === 'market' && (
           <MarketTab analysis={currentAnalysis} />
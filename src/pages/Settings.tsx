@@ -1,19 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Settings as SettingsIcon, Bot, Save, Loader2, Lock, Eye, EyeOff } from 'lucide-react';
+import { ArrowLeft, Settings as SettingsIcon, Bot, Save, Loader2, Lock, Eye, EyeOff, Server, Gauge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { toQuotaStatus, type QuotaRow, type QuotaStatus } from '@/lib/quota';
 
 export default function Settings() {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const [preferredModel, setPreferredModel] = useState('gemini');
+  const [ollamaBaseUrl, setOllamaBaseUrl] = useState('');
+  const [ollamaModel, setOllamaModel] = useState('llama3.2');
   const [saving, setSaving] = useState(false);
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -21,6 +25,7 @@ export default function Settings() {
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [changingPassword, setChangingPassword] = useState(false);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -30,29 +35,47 @@ export default function Settings() {
 
     if (user) {
       fetchSettings();
+      fetchQuota();
     }
   }, [user, authLoading, navigate]);
 
   const fetchSettings = async () => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('preferred_ai_model')
+      .select('preferred_ai_model, ollama_base_url, ollama_model')
       .eq('user_id', user?.id)
       .single();
 
     if (!error && data) {
       setPreferredModel(data.preferred_ai_model || 'gemini');
+      setOllamaBaseUrl(data.ollama_base_url || '');
+      setOllamaModel(data.ollama_model || 'llama3.2');
     }
   };
 
+  const fetchQuota = async () => {
+    const { data, error } = await supabase.rpc('get_analysis_quota').maybeSingle();
+    if (!error && data) setQuota(toQuotaStatus(data as QuotaRow));
+  };
+
   const saveSettings = async () => {
     if (!user) return;
 
+    const trimmedUrl = ollamaBaseUrl.trim().replace(/\/+$/, '');
+    if (preferredModel === 'ollama' && !/^https?:\/\/\S+$/i.test(trimmedUrl)) {
+      toast.error('Enter your Ollama server URL, e.g. https://ollama.example.com');
+      return;
+    }
+
     setSaving(true);
     try {
       const { error } = await supabase
         .from('profiles')
-        .update({ preferred_ai_model: preferredModel })
+        .update({
+          preferred_ai_model: preferredModel,
+          ollama_base_url: trimmedUrl || null,
+          ollama_model: ollamaModel.trim() || 'llama3.2',
+        })
         .eq('user_id', user.id);
 
       if (error) throw error;
@@ -91,7 +114,7 @@ export default function Settings() {
         </div>
       </header>
 
-      <main className="container py-6 max-w-2xl">
+      <main className="container py-6 max-w-2xl space-y-6">
         <Card className="glass-card">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -127,11 +150,39 @@ export default function Settings() {
             </RadioGroup>
 
             {preferredModel === 'ollama' && (
-              <div className="p-4 rounded-lg bg-caution/10 border border-caution/30">
-                <p className="text-sm text-caution">
-                  <strong>Note:</strong> Ollama integration requires a running Ollama server. 
-                  Contact support to configure your server URL.
-                </p>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ollamaBaseUrl">Server URL</Label>
+                  <div className="relative">
+                    <Server className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="ollamaBaseUrl"
+                      placeholder="https://ollama.example.com"
+                      value={ollamaBaseUrl}
+                      onChange={(e) => setOllamaBaseUrl(e.target.value)}
+                      className="pl-10 bg-secondary/30 border-border/50"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ollamaModel">Model Name</Label>
+                  <div className="relative">
+                    <Bot className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="ollamaModel"
+                      placeholder="llama3.2"
+                      value={ollamaModel}
+                      onChange={(e) => setOllamaModel(e.target.value)}
+                      className="pl-10 bg-secondary/30 border-border/50"
+                    />
+                  </div>
+                </div>
+                <div className="p-4 rounded-lg bg-caution/10 border border-caution/30">
+                  <p className="text-sm text-caution">
+                    <strong>Note:</strong> The server must be reachable from the internet, since analyses run in the cloud.
+                    Market scoring stays the same; only the factor discovery and explanation passes use your model.
+                  </p>
+                </div>
               </div>
             )}
 
@@ -147,6 +198,34 @@ export default function Settings() {
         </Card>
 
 
+        {quota && (
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-primary" />
+                Usage
+              </CardTitle>
+              <CardDescription>
+                Analyses you can still run this month. Re-running a cached analysis counts too.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span>
+                  <span className="font-semibold">{quota.remainingThisMonth}</span> of {quota.analysesPerMonth} remaining
+                </span>
+                <span className="text-muted-foreground">
+                  Resets {new Date(quota.monthResetsAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                </span>
+              </div>
+              <Progress value={(quota.remainingThisMonth / quota.analysesPerMonth) * 100} />
+              <p className="text-xs text-muted-foreground">
+                Up to {quota.requestsPerMinute} analyses per minute.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="glass-card">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
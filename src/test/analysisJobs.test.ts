@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { isStaleJob, jobProgress, STALE_JOB_MS, type AnalysisJob } from "@/lib/analysisJobs";
+import type { BusinessAnalysis } from "@/types/analysis";
+
+const job = (overrides: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id: "job-1",
+  status: "running",
+  input: { businessIdea: "Cloud kitchen for healthy meals", location: "Koramangala", budget: "15 lakh" },
+  force_refresh: false,
+  progress: [],
+  analysis_id: null,
+  cache: null,
+  error: null,
+  created_at: "2026-10-19T10:00:00Z",
+  updated_at: "2026-10-19T10:00:00Z",
+  ...overrides,
+});
+
+describe("jobProgress", () => {
+  it("replays stored pipeline events into step details", () => {
+    const analysis = { score: 72, verdict: "GO" } as BusinessAnalysis;
+    const { details, partialAnalysis } = jobProgress(job({
+      progress: [
+        { type: "realtime-data", sources: { webSearch: true, nationalData: true, cityDemographics: false }, searchProvider: "searxng" },
+        { type: "factors", factors: [], dataPoints: 4 },
+        { type: "score", analysis },
+      ],
+    }));
+    expect(details["realtime-data"]).toContain("Web search ✓ (searxng)");
+    expect(details.factors).toBe("0 factors, 4 data points");
+    expect(details.score).toBe("72/100 · GO");
+    expect(details.explanations).toBeUndefined();
+    expect(partialAnalysis).toBe(analysis);
+  });
+
+  it("has nothing to show for a queued job", () => {
+    expect(jobProgress(job({ status: "queued" }))).toEqual({ details: {}, partialAnalysis: null });
+  });
+});
+
+describe("isStaleJob", () => {
+  const updated = new Date("2026-10-19T10:00:00Z").getTime();
+
+  it("flags unfinished jobs that stopped updating", () => {
+    expect(isStaleJob(job(), updated + STALE_JOB_MS + 1)).toBe(true);
+    expect(isStaleJob(job({ status: "queued" }), updated + STALE_JOB_MS + 1)).toBe(true);
+    expect(isStaleJob(job(), updated + STALE_JOB_MS - 1)).toBe(false);
+  });
+
+  it("never flags finished jobs", () => {
+    expect(isStaleJob(job({ status: "completed" }), updated + 10 * STALE_JOB_MS)).toBe(false);
+    expect(isStaleJob(job({ status: "failed" }), updated + 10 * STALE_JOB_MS)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, parseBatchCsv, rankBatchResults, batchCounts, isBatchStalled, MAX_BATCH_ROWS, type BatchJobRow } from "@/lib/batches";
+
+describe("parseCsv", () => {
+  it("handles quoted commas, doubled quotes and line breaks", () => {
+    const text = 'idea,location\r\n"Cafe, with ""books""",Pune\n"Two\nlines",\n';
+    expect(parseCsv(text)).toEqual([
+      ["idea", "location"],
+      ['Cafe, with "books"', "Pune"],
+      ["Two\nlines", ""],
+    ]);
+  });
+});
+
+describe("parseBatchCsv", () => {
+  it("maps header columns in any order", () => {
+    const { rows, errors } = parseBatchCsv("Budget,City,Business Idea\n15 lakh,Pune,Cloud kitchen for office lunches\n");
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ line: 2, businessIdea: "Cloud kitchen for office lunches", location: "Pune", budget: "15 lakh" }]);
+  });
+
+  it("reads idea, location, budget in order when there is no header", () => {
+    const { rows } = parseBatchCsv("Pet grooming van service,Bangalore,8L\n\nLaundry pickup for hostels,,\n");
+    expect(rows.map((row) => [row.line, row.location, row.budget])).toEqual([[1, "Bangalore", "8L"], [3, "", ""]]);
+  });
+
+  it("reports bad rows by file line", () => {
+    const { rows, errors } = parseBatchCsv("idea,location\nToo short,Pune\nHome bakery with delivery,Mumbai\n");
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual(["Line 2: business idea must be at least 10 characters"]);
+  });
+
+  it("rejects empty files and files over the row limit", () => {
+    expect(parseBatchCsv("idea,location,budget\n").errors).toEqual(["The file has no ideas in it"]);
+    const big = Array.from({ length: MAX_BATCH_ROWS + 1 }, (_, i) => `Idea number ${i} for a shop`).join("\n");
+    expect(parseBatchCsv(big).errors).toEqual([`A batch can have at most ${MAX_BATCH_ROWS} ideas; this file has ${MAX_BATCH_ROWS + 1}`]);
+  });
+});
+
+describe("rankBatchResults", () => {
+  const input = { businessIdea: "Some business idea", location: "Pune", budget: "Not specified" };
+  const now = Date.parse("2026-10-19T12:00:00Z");
+  const job = (row_number: number, status: BatchJobRow["status"], analysis_id: string | null = null, minutesAgo = 1): BatchJobRow =>
+    ({ id: `job-${row_number}`, status, input, row_number, analysis_id, error: status === "failed" ? "Analysis failed." : null, updated_at: new Date(now - minutesAgo * 60000).toISOString() });
+
+  it("ranks scored rows first, then pending, then failed", () => {
+    const results = rankBatchResults(
+      [job(1, "failed"), job(2, "completed", "a2"), job(3, "running"), job(4, "completed", "a4"), job(5, "queued")],
+      [{ id: "a2", verdict: "CAUTION", score: 55 }, { id: "a4", verdict: "GO", score: 81 }],
+    );
+    expect(results.map((result) => [result.rowNumber, result.rank])).toEqual([[4, 1], [2, 2], [3, null], [5, null], [1, null]]);
+    expect(batchCounts(results)).toEqual({ total: 5, completed: 2, failed: 1, pending: 2 });
+  });
+
+  it("keeps CSV order for equal scores", () => {
+    const results = rankBatchResults(
+      [job(2, "completed", "b"), job(1, "completed", "a")],
+      [{ id: "a", verdict: "GO", score: 70 }, { id: "b", verdict: "GO", score: 70 }],
+    );
+    expect(results.map((result) => result.rowNumber)).toEqual([1, 2]);
+  });
+
+  it("flags running rows whose worker went silent", () => {
+    const results = rankBatchResults([job(1, "running", null, 2), job(2, "running", null, 30), job(3, "queued", null, 30)], [], now);
+    expect(results.map((result) => result.stalled)).toEqual([false, true, false]);
+  });
+});
+
+describe("isBatchStalled", () => {
+  const input = { businessIdea: "Some business idea", location: "Pune", budget: "Not specified" };
+  const now = Date.parse("2026-10-19T12:00:00Z");
+  const job = (status: BatchJobRow["status"], minutesAgo: number) => ({ status, input, updated_at: new Date(now - minutesAgo * 60000).toISOString() });
+
+  it("is stalled when unfinished rows remain and nothing has moved recently", () => {
+    expect(isBatchStalled([job("completed", 25), job("queued", 40), job("running", 20)], now)).toBe(true);
+  });
+
+  it("is not stalled while any row is still moving, or once every row is done", () => {
+    expect(isBatchStalled([job("completed", 3), job("queued", 40)], now)).toBe(false);
+    expect(isBatchStalled([job("completed", 40), job("failed", 40)], now)).toBe(false);
+  });
+});
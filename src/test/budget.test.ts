@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { parseBudget, describeBudget, formatMoney, loadExchangeRates, DEFAULT_BUDGET_INR } from "../../supabase/functions/_shared/budget.ts";
+
+describe("parseBudget", () => {
+  it.each([
+    ["₹15 lakhs", 1500000, 1500000],
+    ["10-15 lakh", 1000000, 1500000],
+    ["10L to 15L", 1000000, 1500000],
+    ["between 1 and 1.5 crore", 10000000, 15000000],
+    ["Rs 5,00,000", 500000, 500000],
+    ["2.5cr", 25000000, 25000000],
+    ["800k", 800000, 800000],
+  ])("reads %s", (raw, min, max) => {
+    expect(parseBudget(raw)).toMatchObject({ recognized: true, currency: "INR", min, max });
+  });
+
+  it("converts foreign currencies with the exchange table", () => {
+    expect(parseBudget("$20k")).toMatchObject({ currency: "USD", min: 1660000, max: 1660000 });
+    expect(parseBudget("€1.2M")).toMatchObject({ currency: "EUR", min: 108000000 });
+    expect(parseBudget("$20k", { INR: 1, USD: 80 }).min).toBe(1600000);
+  });
+
+  it("splits own funds from debt", () => {
+    const budget = parseBudget("8L own + 12L loan");
+    expect(budget).toMatchObject({ min: 2000000, max: 2000000, ownFunds: 800000, debt: 1200000 });
+    expect(describeBudget(budget)).toBe("₹20L (own ₹8L + loan ₹12L)");
+    expect(parseBudget("5 lakh savings and 10 lakh bank loan")).toMatchObject({ ownFunds: 500000, debt: 1000000 });
+  });
+
+  it("flags text it cannot read instead of silently assuming a number", () => {
+    expect(parseBudget("flexible")).toMatchObject({ recognized: false, min: DEFAULT_BUDGET_INR });
+    expect(parseBudget("Not specified").recognized).toBe(false);
+  });
+});
+
+describe("parseBudget with a non-INR analysis currency", () => {
+  it("reads bare amounts in the local currency", () => {
+    expect(parseBudget("150k", undefined, "AED")).toMatchObject({ baseCurrency: "AED", currency: "AED", exchangeRate: 1, min: 150000 });
+    expect(describeBudget(parseBudget("150k", undefined, "AED"))).toBe("AED 150K");
+  });
+
+  it("treats a bare dollar sign as the local dollar", () => {
+    expect(parseBudget("$80k", undefined, "SGD")).toMatchObject({ currency: "SGD", min: 80000 });
+    expect(parseBudget("US$80k", undefined, "SGD")).toMatchObject({ currency: "USD", min: Math.round(80000 * 83 / 62) });
+  });
+
+  it("converts rupees into the local currency", () => {
+    const budget = parseBudget("20 lakh rupees", { INR: 1, AED: 20 }, "AED");
+    expect(budget).toMatchObject({ currency: "INR", exchangeRate: 0.05, min: 100000 });
+    expect(describeBudget(budget)).toBe("AED 100K, from INR at 0.05");
+  });
+
+  it("assumes the default budget converted to the local currency", () => {
+    expect(parseBudget("flexible", { INR: 1, USD: 80 }, "USD")).toMatchObject({ recognized: false, min: 6250 });
+  });
+});
+
+describe("formatMoney", () => {
+  it("uses lakh and crore only for INR", () => {
+    expect(formatMoney(2500000)).toBe("₹25L");
+    expect(formatMoney(2500000, "USD")).toBe("$2.5M");
+    expect(formatMoney(-45000, "SGD")).toBe("-S$45K");
+  });
+});
+
+describe("loadExchangeRates", () => {
+  it("merges deployment overrides over the defaults", () => {
+    const rates = loadExchangeRates((key) => (key === "BUDGET_EXCHANGE_RATES" ? '{"usd": 84.5}' : undefined));
+    expect(rates.USD).toBe(84.5);
+    expect(rates.EUR).toBe(90);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { cityCandidates, formatCityDemographics, toLocationProfile, type CityMatchRow } from "../../supabase/functions/_shared/cities.ts";
+import { toCityRecord } from "../../scripts/city-records.ts";
+
+const bengaluru: CityMatchRow = {
+  city_id: "c1",
+  name: "Bengaluru",
+  district: "Bengaluru Urban",
+  state: "Karnataka",
+  tier: "Tier 1",
+  population_2011: 8443675,
+  metro_population_2011: 10456000,
+  growth_rate: 3.5,
+  literacy_rate: 87.7,
+  avg_household_income_inr: 520000,
+  matched_alias: "bengaluru",
+  alias_kind: "name",
+  query: "bengaluru",
+  distance: 0,
+  neighbourhood_name: null,
+  commercial_rent_min_per_sqft: null,
+  commercial_rent_max_per_sqft: null,
+  footfall_index: null,
+  income_band: null,
+  customer_segments: null,
+};
+
+const koramangala: CityMatchRow = {
+  ...bengaluru,
+  matched_alias: "koramangala",
+  alias_kind: "neighbourhood",
+  query: "koramangala",
+  neighbourhood_name: "Koramangala",
+  commercial_rent_min_per_sqft: 120,
+  commercial_rent_max_per_sqft: 200,
+  footfall_index: 85,
+  income_band: "upper-middle",
+  customer_segments: ["young professionals", "students"],
+};
+
+describe("cityCandidates", () => {
+  it("tries multi-word phrases before single words within each part", () => {
+    expect(cityCandidates("HSR Layout, Bangalore 560102")).toEqual(["hsr layout", "hsr", "layout", "bangalore"]);
+  });
+
+  it("drops short and generic words", () => {
+    const candidates = cityCandidates("Near MG Road, Pune, India");
+    expect(candidates).toContain("pune");
+    expect(candidates).not.toContain("india");
+    expect(candidates).not.toContain("mg");
+    expect(candidates).not.toContain("road");
+  });
+
+  it("returns nothing for a location without letters", () => {
+    expect(cityCandidates("560102")).toEqual([]);
+  });
+});
+
+describe("formatCityDemographics", () => {
+  it("includes the district and formats income in lakh", () => {
+    const text = formatCityDemographics(bengaluru, "Bengaluru");
+    expect(text).toContain("District: Bengaluru Urban");
+    expect(text).toContain("Average Household Income: ₹5.2L/year");
+    expect(text).toContain("Census 2011 City Population: 8,443,675");
+  });
+
+  it("says when a neighbourhood is using city-wide figures", () => {
+    const text = formatCityDemographics({ ...bengaluru, alias_kind: "neighbourhood", matched_alias: "ejipura" }, "Ejipura");
+    expect(text).toContain("Neighbourhood: Ejipura (population figures below are for Bengaluru as a whole)");
+    expect(text).not.toContain("Neighbourhood Profile");
+  });
+
+  it("adds the neighbourhood profile when one matched", () => {
+    const text = formatCityDemographics(koramangala, "Koramangala, Bangalore");
+    expect(text).toContain("--- Neighbourhood Profile: Koramangala ---");
+    expect(text).toContain("Typical Commercial Rent: ₹120-200 per sq ft per month");
+    expect(text).toContain("Dominant Customer Segments: young professionals, students");
+  });
+
+  it("mentions fuzzy matches and skips missing columns", () => {
+    const text = formatCityDemographics({ ...bengaluru, query: "bengalru", distance: 1, metro_population_2011: null, literacy_rate: null }, "Bengalru");
+    expect(text).toContain('Matched "bengalru" to Bengaluru');
+    expect(text).not.toContain("Metro Population");
+    expect(text).not.toContain("Literacy Rate");
+  });
+});
+
+describe("toLocationProfile", () => {
+  it("only carries a neighbourhood when the match has a profile", () => {
+    expect(toLocationProfile(bengaluru).neighbourhood).toBeNull();
+    expect(toLocationProfile(koramangala)).toEqual({
+      city: "Bengaluru",
+      district: "Bengaluru Urban",
+      state: "Karnataka",
+      tier: "Tier 1",
+      neighbourhood: {
+        name: "Koramangala",
+        rentPerSqft: { min: 120, max: 200 },
+        footfallIndex: 85,
+        incomeBand: "upper-middle",
+        customerSegments: ["young professionals", "students"],
+      },
+    });
+  });
+});
+
+describe("toCityRecord", () => {
+  const row = {
+    name: "Hubballi",
+    district: "Dharwad",
+    state: "Karnataka",
+    tier: "2",
+    population_2011: "943788",
+    metro_population_2011: "",
+    growth_rate: "1.4",
+    literacy_rate: "",
+    avg_household_income_inr: "",
+    aliases: "Hubli; Hubli-Dharwad",
+    neighbourhoods: "Vidyanagar",
+  };
+
+  it("normalizes tier and aliases, always including the city's own name", () => {
+    const record = toCityRecord(row, 0);
+    expect(record.city.tier).toBe("Tier 2");
+    expect(record.city.metro_population_2011).toBeNull();
+    expect(record.aliases).toEqual([
+      { alias: "hubballi", kind: "name" },
+      { alias: "hubli", kind: "name" },
+      { alias: "hubli dharwad", kind: "name" },
+      { alias: "vidyanagar", kind: "neighbourhood" },
+    ]);
+  });
+
+  it("rejects rows without required figures", () => {
+    expect(() => toCityRecord({ ...row, population_2011: "" }, 4)).toThrow("Row 5: population_2011 is required");
+    expect(() => toCityRecord({ ...row, tier: "metro" }, 0)).toThrow(/tier must be 1, 2 or 3/);
+    expect(() => toCityRecord({ ...row, literacy_rate: "120" }, 0)).toThrow(/percentage/);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { normalizeLocations, rankComparison, mapWithConcurrency, type ComparableAnalysis } from "../../supabase/functions/_shared/compare.ts";
+import { bestIndex } from "@/lib/compare";
+
+const analysis = (score: number, factors: [string, number, number][]): ComparableAnalysis => ({
+  score,
+  verdict: score >= 70 ? "GO" : "CAUTION",
+  dynamicFactors: factors.map(([name, weight, factorScore]) => ({ name, weight, score: factorScore })),
+  financialProjection: { breakEvenMonths: 14, roi: 32 },
+  competitionAnalysis: { directCompetitors: 6, indirectCompetitors: 15 },
+});
+
+describe("normalizeLocations", () => {
+  it("trims and drops blanks and case-insensitive duplicates", () => {
+    expect(normalizeLocations([" Koramangala ", "", "indiranagar", "Koramangala", 42, "Indiranagar"])).toEqual(["Koramangala", "indiranagar"]);
+    expect(normalizeLocations("Whitefield")).toEqual([]);
+  });
+});
+
+describe("rankComparison", () => {
+  it("ranks by score and puts failed locations last without a rank", () => {
+    const { locations } = rankComparison([
+      { location: "Whitefield", analysis: null, error: "Service is busy." },
+      { location: "Koramangala", analysis: analysis(64, []) },
+      { location: "Indiranagar", analysis: analysis(78, []) },
+    ]);
+    expect(locations.map((l) => [l.location, l.rank])).toEqual([["Indiranagar", 1], ["Koramangala", 2], ["Whitefield", null]]);
+    expect(locations[2]).toMatchObject({ score: null, verdict: null, error: "Service is busy." });
+    expect(locations[0]).toMatchObject({ breakEvenMonths: 14, roi: 32, directCompetitors: 6, indirectCompetitors: 15, error: null });
+  });
+
+  it("lines factors up by name, heaviest overall first", () => {
+    const { locations, factorNames } = rankComparison([
+      { location: "A", analysis: analysis(70, [["Foot traffic", 0.3, 80], ["Rent", 0.2, 40]]) },
+      { location: "B", analysis: analysis(60, [["foot traffic ", 0.4, 55], ["Parking", 0.1, 70]]) },
+    ]);
+    expect(factorNames).toEqual(["Foot traffic", "Rent", "Parking"]);
+    expect(locations[1].factorScores).toEqual({ "Foot traffic": 55, Parking: 70 });
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("bestIndex", () => {
+  it("picks the highest or lowest value and skips gaps", () => {
+    expect(bestIndex([12, null, 9, 30], "min")).toBe(2);
+    expect(bestIndex([12, null, 9, 30], "max")).toBe(3);
+    expect(bestIndex([null, undefined], "max")).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { correctionsSchema, correctionsFromResult, hasCorrections, applyCorrections, describeChanges } from "../../supabase/functions/_shared/corrections.ts";
+import { loadLLMConfig, createMockProvider, runStructuredPass } from "../../supabase/functions/_shared/llm.ts";
+import { EVALUATION_SCENARIOS } from "./fixtures/scenarios";
+
+const { pass1 } = EVALUATION_SCENARIOS[0];
+
+describe("correctionsSchema", () => {
+  it("defaults to no corrections and rejects unknown overrides", () => {
+    const empty = correctionsSchema.parse({ overrides: {} });
+    expect(empty).toEqual({ overrides: {}, marketData: [], unmatched: [] });
+    expect(hasCorrections(empty)).toBe(false);
+    expect(correctionsSchema.safeParse({ overrides: { rent: 80000 } }).success).toBe(false);
+  });
+});
+
+describe("correctionsFromResult", () => {
+  const parse = async (reply: string) => {
+    const llm = loadLLMConfig(() => undefined);
+    llm.factorDiscovery = { ...llm.factorDiscovery, provider: createMockProvider({ factorDiscovery: reply }) };
+    return correctionsFromResult(await runStructuredPass(llm, "factorDiscovery", "system", "Corrections: 3 competitors", correctionsSchema, 0));
+  };
+
+  it("fills in the lists the model left out", async () => {
+    const corrections = await parse('{"overrides":{"directCompetitors":3}}');
+    expect(corrections).toEqual({ overrides: { directCompetitors: 3 }, marketData: [], unmatched: [] });
+    expect(hasCorrections(corrections)).toBe(true);
+    expect(applyCorrections(pass1, corrections).directCompetitors).toBe(3);
+  });
+
+  it("refuses a reply that failed validation", async () => {
+    await expect(parse('{"overrides":{"directCompetitors":-3}}')).rejects.toThrow("INVALID_MODEL_OUTPUT");
+    await expect(parse("not json")).rejects.toThrow("INVALID_MODEL_OUTPUT");
+  });
+});
+
+describe("applyCorrections", () => {
+  it("applies overrides and replaces market data by metric name", () => {
+    const corrections = correctionsSchema.parse({
+      overrides: { directCompetitors: 3, monthlyExpenses: { min: 400000, max: 450000 } },
+      marketData: [{ metric: "online food orders per day ", value: 40000, unit: "orders" }],
+    });
+    expect(hasCorrections(corrections)).toBe(true);
+    const corrected = applyCorrections(pass1, corrections);
+    expect(corrected.directCompetitors).toBe(3);
+    expect(corrected.estimatedMonthlyExpensesMin).toBe(400000);
+    expect(corrected.marketData).toHaveLength(1);
+    expect(corrected.marketData[0]).toMatchObject({ metric: "Online food orders per day", estimatedValue: 40000, source: "User correction", confidence: "high" });
+    // The original is untouched
+    expect(pass1.directCompetitors).toBe(18);
+  });
+
+  it("adds data points the analysis did not have", () => {
+    const corrected = applyCorrections(pass1, correctionsSchema.parse({ overrides: {}, marketData: [{ metric: "Kitchen rent", value: 80000, unit: "INR/month" }] }));
+    expect(corrected.marketData.map((point) => point.metric)).toEqual(["Online food orders per day", "Kitchen rent"]);
+  });
+});
+
+describe("describeChanges", () => {
+  it("lists only what changed", () => {
+    const corrected = applyCorrections(pass1, correctionsSchema.parse({
+      overrides: { directCompetitors: 3, factorScores: { "Kitchen rent": 40 } },
+      marketData: [{ metric: "Kitchen rent", value: 80000, unit: "INR/month" }],
+    }));
+    expect(describeChanges(pass1, corrected)).toEqual([
+      "Direct competitors: 18 → 3",
+      "Kitchen rent score: 70 → 40",
+      "Kitchen rent: ₹80K (added)",
+    ]);
+    expect(describeChanges(pass1, pass1)).toEqual([]);
+  });
+});
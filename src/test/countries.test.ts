@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { resolveCountry, unsupportedCountry, unsupportedCountryMessage } from "../../supabase/functions/_shared/countries.ts";
+
+describe("resolveCountry", () => {
+  it.each([
+    ["Jumeirah, Dubai", "AE"],
+    ["Tampines, Singapore", "SG"],
+    ["Southall, London", "GB"],
+    ["Riyadh", "SA"],
+    ["Koramangala, Bangalore", "IN"],
+  ])("resolves %s to %s", (location, code) => {
+    expect(resolveCountry(location).code).toBe(code);
+  });
+
+  it("prefers the country named last", () => {
+    expect(resolveCountry("London, Ontario, Canada").code).toBe("CA");
+  });
+
+  it("reads the last part of the location first", () => {
+    expect(resolveCountry("Dubai Main Road, Bangalore").code).toBe("IN");
+    expect(resolveCountry("London Street, Pune").code).toBe("IN");
+    expect(resolveCountry("Pune Street, London").code).toBe("GB");
+    expect(resolveCountry("Jumeirah Beach Road, Jumeirah, Dubai").code).toBe("AE");
+  });
+
+  it("falls back to India for unknown or missing locations", () => {
+    expect(resolveCountry("Hubballi").code).toBe("IN");
+    expect(resolveCountry("").code).toBe("IN");
+  });
+
+  it("does not match place names inside other words", () => {
+    expect(resolveCountry("Perthshire Road, Pune").code).toBe("IN");
+  });
+});
+
+describe("unsupportedCountry", () => {
+  it.each([
+    ["Paris, France", "France"],
+    ["Doha, Qatar", "Qatar"],
+    ["Rua Augusta, São Paulo", "Brazil"],
+    ["Seoul", "South Korea"],
+  ])("recognises %s as %s", (location, name) => {
+    expect(unsupportedCountry(location)).toBe(name);
+  });
+
+  it("leaves supported and unrecognised locations alone", () => {
+    expect(unsupportedCountry("Jumeirah, Dubai")).toBeNull();
+    expect(unsupportedCountry("Hubballi")).toBeNull();
+    expect(unsupportedCountry("")).toBeNull();
+  });
+
+  it("only looks at the last part of the location", () => {
+    expect(unsupportedCountry("China Bazaar Road, Chennai")).toBeNull();
+    expect(unsupportedCountry("Paris, Ontario, Canada")).toBeNull();
+    expect(unsupportedCountry("Albuquerque, New Mexico")).toBeNull();
+  });
+
+  it("names the supported countries in the error", () => {
+    expect(unsupportedCountryMessage("France")).toMatch(/^France is not supported yet\. Analyses cover India, United Arab Emirates, /);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { EVALUATION_SCENARIOS } from "./fixtures/scenarios";
+import { evaluateScenarios, formatReport, type EvaluationReport } from "./evaluation";
+
+// Floors recorded from hand-tuned-v1, which squeezes most ideas into the 35-60 CAUTION band
+// (7/16 right, no GO predicted). They catch a change that makes the current model worse;
+// raise them when a model retrained with train:gbdt does better. Override locally with
+// EVAL_MIN_ACCURACY=0.9 npm run eval
+const MIN_ACCURACY = Number(process.env.EVAL_MIN_ACCURACY ?? 7 / 16);
+const MIN_RECALL = { GO: 0, CAUTION: 1, AVOID: 0.25 };
+
+describe("verdict evaluation over the scenario corpus", () => {
+  let report: EvaluationReport;
+  beforeAll(async () => {
+    report = await evaluateScenarios(EVALUATION_SCENARIOS);
+  });
+
+  it("covers every verdict", () => {
+    const expected = new Set(EVALUATION_SCENARIOS.map((s) => s.expectedVerdict));
+    expect([...expected].sort()).toEqual(["AVOID", "CAUTION", "GO"]);
+  });
+
+  it(`keeps verdict accuracy at or above ${(MIN_ACCURACY * 100).toFixed(0)}%`, () => {
+    console.log(formatReport(report));
+    expect(report.accuracy).toBeGreaterThanOrEqual(MIN_ACCURACY);
+  });
+
+  it.each(["GO", "CAUTION", "AVOID"] as const)("keeps %s recall at or above the baseline", (verdict) => {
+    expect(report.recall[verdict]).toBeGreaterThanOrEqual(MIN_RECALL[verdict]);
+  });
+
+  // Known failure of the current model: this starts passing (and must become a plain `it`)
+  // once a retrained model predicts GO
+  it.fails("predicts GO for at least one GO scenario", () => {
+    expect(report.recall.GO).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,106 @@
+import type { BusinessAnalysis } from "@/types/analysis";
+import { loadLLMConfig, createMockProvider, runStructuredPass } from "../../supabase/functions/_shared/llm.ts";
+import { pass1Schema } from "../../supabase/functions/_shared/schemas.ts";
+import { sanitizePass1 } from "../../supabase/functions/_shared/sanitize.ts";
+import { assembleAnalysis } from "../../supabase/functions/_shared/assemble.ts";
+import { resolveCountry } from "../../supabase/functions/_shared/countries.ts";
+import { parseBudget } from "../../supabase/functions/_shared/budget.ts";
+import { pass2_score, DEFAULT_MODEL, type ScoringResult } from "../../supabase/functions/_shared/scoring.ts";
+import type { EvaluationScenario } from "./fixtures/scenarios";
+
+// Replays recorded Pass 1 fixtures through the pipeline (mock provider, schema check,
+// sanitizer, Pass 2, response assembly) and summarises how often the verdict matches
+// what the scenario expects.
+
+type Verdict = BusinessAnalysis["verdict"];
+
+const VERDICTS: Verdict[] = ["GO", "CAUTION", "AVOID"];
+
+export interface ScenarioResult {
+  id: string;
+  expected: Verdict;
+  actual: Verdict;
+  score: number;
+  correct: boolean;
+}
+
+export interface EvaluationReport {
+  results: ScenarioResult[];
+  // confusionMatrix[expected][actual] = count
+  confusionMatrix: Record<Verdict, Record<Verdict, number>>;
+  accuracy: number;
+  // Share of each expected verdict that was predicted; NaN when the corpus has none
+  recall: Record<Verdict, number>;
+  scoreDistribution: { bucket: string; count: number }[];
+}
+
+export type Scorer = (scenario: EvaluationScenario) => Promise<Pick<ScoringResult, "score" | "verdict">>;
+
+const pipelineScorer: Scorer = async (scenario) => {
+  const llm = loadLLMConfig((key) => (key === "LLM_PROVIDER" ? "mock" : undefined));
+  llm.factorDiscovery = { ...llm.factorDiscovery, provider: createMockProvider({ factorDiscovery: JSON.stringify(scenario.pass1) }) };
+  const input = { businessIdea: scenario.businessIdea, location: scenario.location, budget: scenario.budget };
+
+  // Fixtures must look like something the model could actually return, untouched by repairs or defaults
+  const result = await runStructuredPass(llm, "factorDiscovery", "Recorded Pass 1 response", JSON.stringify(input), pass1Schema, 0);
+  const defaulted: string[] = [];
+  const pass1 = sanitizePass1(result.value, defaulted);
+  if (!result.valid || defaulted.length > 0) {
+    throw new Error(`Fixture ${scenario.id} is not a valid Pass 1 response: ${[...result.issues, ...defaulted].join("; ")}`);
+  }
+
+  const scoring = pass2_score(pass1, parseBudget(input.budget));
+  const context = { country: resolveCountry(input.location), locationProfile: null, searchProvider: null, sources: [] };
+  const quality = { valid: result.valid, repairs: result.repairs, issues: result.issues, defaultedFields: defaulted };
+  const { score, verdict } = assembleAnalysis(input, scoring, pass1, context, { factorDiscovery: quality });
+  return { score, verdict };
+};
+
+export async function evaluateScenarios(scenarios: EvaluationScenario[], scorer: Scorer = pipelineScorer): Promise<EvaluationReport> {
+  const confusionMatrix = Object.fromEntries(
+    VERDICTS.map((expected) => [expected, Object.fromEntries(VERDICTS.map((actual) => [actual, 0]))]),
+  ) as EvaluationReport["confusionMatrix"];
+  const buckets = Array.from({ length: 10 }, (_, i) => ({ bucket: `${i * 10}-${i * 10 + 9}`, count: 0 }));
+
+  const results: ScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    const { score, verdict } = await scorer(scenario);
+    confusionMatrix[scenario.expectedVerdict][verdict]++;
+    buckets[Math.min(9, Math.floor(score / 10))].count++;
+    results.push({ id: scenario.id, expected: scenario.expectedVerdict, actual: verdict, score, correct: verdict === scenario.expectedVerdict });
+  }
+
+  const correct = results.filter((r) => r.correct).length;
+  const recall = Object.fromEntries(VERDICTS.map((verdict) => {
+    const expected = VERDICTS.reduce((n, actual) => n + confusionMatrix[verdict][actual], 0);
+    return [verdict, expected > 0 ? confusionMatrix[verdict][verdict] / expected : NaN];
+  })) as EvaluationReport["recall"];
+  return {
+    results,
+    confusionMatrix,
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    recall,
+    scoreDistribution: buckets,
+  };
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const pad = (value: string | number, width = 9) => String(value).padEnd(width);
+  const lines = [
+    `Model: ${DEFAULT_MODEL.version}`,
+    `Accuracy: ${(report.accuracy * 100).toFixed(1)}% (${report.results.filter((r) => r.correct).length}/${report.results.length})`,
+    `Recall: ${VERDICTS.map((v) => `${v} ${(report.recall[v] * 100).toFixed(0)}%`).join(", ")}`,
+    "",
+    "Confusion matrix (rows = expected, columns = actual):",
+    pad("") + VERDICTS.map((v) => pad(v)).join(""),
+    ...VERDICTS.map((expected) => pad(expected) + VERDICTS.map((actual) => pad(report.confusionMatrix[expected][actual])).join("")),
+    "",
+    "Score distribution:",
+    ...report.scoreDistribution.map(({ bucket, count }) => `${pad(bucket, 7)}${"#".repeat(count)}`),
+  ];
+  const misses = report.results.filter((r) => !r.correct);
+  if (misses.length > 0) {
+    lines.push("", "Mismatches:", ...misses.map((r) => `  ${r.id}: expected ${r.expected}, got ${r.actual} (score ${r.score})`));
+  }
+  return lines.join("\n");
+}
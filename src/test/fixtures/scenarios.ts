@@ -0,0 +1,495 @@
+import type { TestScenario } from "@/types/analysis";
+import type { DynamicFactor, MarketDataPoint, Pass1Result } from "../../../supabase/functions/_shared/scoring.ts";
+
+// Recorded Pass 1 outputs for the offline evaluation harness (evaluation.test.ts).
+// Each fixture is a schema-valid factor-discovery response for the scenario's idea,
+// location and budget, so Pass 2 can be replayed without calling a model.
+
+export interface EvaluationScenario extends TestScenario {
+  pass1: Pass1Result;
+}
+
+const factor = (name: string, weight: number, score: number, isLocationSpecific = false): DynamicFactor => ({
+  name,
+  weight,
+  score,
+  reasoning: `${name} assessed for this location`,
+  isLocationSpecific,
+});
+
+const dataPoint = (metric: string, minValue: number, maxValue: number, unit: string, confidence: MarketDataPoint["confidence"] = "medium"): MarketDataPoint => ({
+  metric,
+  minValue,
+  maxValue,
+  estimatedValue: Math.round((minValue + maxValue) / 2),
+  unit,
+  source: "recorded fixture",
+  confidence,
+});
+
+export const EVALUATION_SCENARIOS: EvaluationScenario[] = [
+  {
+    id: "cloud-kitchen-pune",
+    name: "Cloud kitchen in a tier-1 city with enough budget",
+    businessIdea: "Cloud kitchen for North Indian meals",
+    location: "Pune",
+    budget: "15 lakh",
+    expectedVerdict: "GO",
+    category: "food",
+    pass1: {
+      factors: [
+        factor("Delivery demand", 0.35, 82, true),
+        factor("Kitchen rent", 0.2, 70, true),
+        factor("Aggregator commission", 0.2, 55),
+        factor("Menu differentiation", 0.25, 72),
+      ],
+      marketData: [dataPoint("Online food orders per day", 90000, 120000, "orders", "high")],
+      estimatedSetupCostMin: 800000,
+      estimatedSetupCostMax: 1200000,
+      estimatedMonthlyRevenueMin: 350000,
+      estimatedMonthlyRevenueMax: 500000,
+      estimatedMonthlyExpensesMin: 250000,
+      estimatedMonthlyExpensesMax: 320000,
+      avgProfitMargin: 0.22,
+      directCompetitors: 18,
+      indirectCompetitors: 30,
+      marketSize: "₹1,200 Cr",
+      marketGrowth: "18% annually",
+    },
+  },
+  {
+    id: "tutoring-jaipur",
+    name: "Coaching centre with strong local demand",
+    businessIdea: "JEE and NEET coaching centre",
+    location: "Jaipur",
+    budget: "20 lakh",
+    expectedVerdict: "GO",
+    category: "education",
+    pass1: {
+      factors: [
+        factor("Exam aspirant population", 0.35, 85, true),
+        factor("Faculty availability", 0.25, 68, true),
+        factor("Brand trust", 0.2, 60),
+        factor("Fee affordability", 0.2, 75),
+      ],
+      marketData: [dataPoint("Annual aspirants", 40000, 60000, "students", "medium")],
+      estimatedSetupCostMin: 1000000,
+      estimatedSetupCostMax: 1600000,
+      estimatedMonthlyRevenueMin: 500000,
+      estimatedMonthlyRevenueMax: 800000,
+      estimatedMonthlyExpensesMin: 300000,
+      estimatedMonthlyExpensesMax: 420000,
+      avgProfitMargin: 0.3,
+      directCompetitors: 12,
+      indirectCompetitors: 20,
+      marketSize: "₹800 Cr",
+      marketGrowth: "15% annually",
+    },
+  },
+  {
+    id: "saas-bengaluru",
+    name: "Niche SaaS with low setup cost",
+    businessIdea: "Inventory SaaS for kirana stores",
+    location: "Bengaluru",
+    budget: "25 lakh",
+    expectedVerdict: "GO",
+    category: "tech",
+    pass1: {
+      factors: [
+        factor("SMB digitisation", 0.3, 80),
+        factor("Developer talent", 0.25, 88, true),
+        factor("Willingness to pay", 0.25, 58),
+        factor("Distribution reach", 0.2, 65),
+      ],
+      marketData: [dataPoint("Kirana stores in city", 90000, 110000, "stores", "medium")],
+      estimatedSetupCostMin: 1200000,
+      estimatedSetupCostMax: 1800000,
+      estimatedMonthlyRevenueMin: 400000,
+      estimatedMonthlyRevenueMax: 900000,
+      estimatedMonthlyExpensesMin: 300000,
+      estimatedMonthlyExpensesMax: 450000,
+      avgProfitMargin: 0.35,
+      directCompetitors: 8,
+      indirectCompetitors: 15,
+      marketSize: "₹2,500 Cr",
+      marketGrowth: "25% annually",
+    },
+  },
+  {
+    id: "physio-clinic-kochi",
+    name: "Physiotherapy clinic in an ageing city",
+    businessIdea: "Physiotherapy and rehab clinic",
+    location: "Kochi",
+    budget: "12 lakh",
+    expectedVerdict: "GO",
+    category: "health",
+    pass1: {
+      factors: [
+        factor("Elderly population", 0.3, 84, true),
+        factor("Referral network", 0.25, 70),
+        factor("Therapist supply", 0.2, 66, true),
+        factor("Insurance coverage", 0.25, 62),
+      ],
+      marketData: [dataPoint("Residents over 60", 180000, 220000, "people", "high")],
+      estimatedSetupCostMin: 600000,
+      estimatedSetupCostMax: 1000000,
+      estimatedMonthlyRevenueMin: 250000,
+      estimatedMonthlyRevenueMax: 380000,
+      estimatedMonthlyExpensesMin: 150000,
+      estimatedMonthlyExpensesMax: 210000,
+      avgProfitMargin: 0.28,
+      directCompetitors: 9,
+      indirectCompetitors: 14,
+      marketSize: "₹300 Cr",
+      marketGrowth: "14% annually",
+    },
+  },
+  {
+    id: "ev-charging-indore",
+    name: "EV charging hub in a clean tier-2 city",
+    businessIdea: "EV fast-charging hub with café",
+    location: "Indore",
+    budget: "40 lakh",
+    expectedVerdict: "GO",
+    category: "mobility",
+    pass1: {
+      factors: [
+        factor("EV adoption", 0.3, 72, true),
+        factor("Highway traffic", 0.25, 78, true),
+        factor("Power tariff", 0.2, 65),
+        factor("State subsidies", 0.25, 80),
+      ],
+      marketData: [dataPoint("Registered EVs", 25000, 35000, "vehicles", "medium")],
+      estimatedSetupCostMin: 2500000,
+      estimatedSetupCostMax: 3500000,
+      estimatedMonthlyRevenueMin: 450000,
+      estimatedMonthlyRevenueMax: 700000,
+      estimatedMonthlyExpensesMin: 280000,
+      estimatedMonthlyExpensesMax: 380000,
+      avgProfitMargin: 0.25,
+      directCompetitors: 4,
+      indirectCompetitors: 6,
+      marketSize: "₹150 Cr",
+      marketGrowth: "35% annually",
+    },
+  },
+  {
+    id: "cafe-mumbai-tight",
+    name: "Café in a saturated, expensive market",
+    businessIdea: "Specialty coffee café",
+    location: "Bandra, Mumbai",
+    budget: "20 lakh",
+    expectedVerdict: "CAUTION",
+    category: "food",
+    pass1: {
+      factors: [
+        factor("Footfall", 0.3, 80, true),
+        factor("Commercial rent", 0.3, 30, true),
+        factor("Coffee culture", 0.2, 75),
+        factor("Differentiation", 0.2, 45),
+      ],
+      marketData: [dataPoint("Monthly rent per sq ft", 350, 500, "₹", "high")],
+      estimatedSetupCostMin: 2000000,
+      estimatedSetupCostMax: 3000000,
+      estimatedMonthlyRevenueMin: 450000,
+      estimatedMonthlyRevenueMax: 650000,
+      estimatedMonthlyExpensesMin: 420000,
+      estimatedMonthlyExpensesMax: 520000,
+      avgProfitMargin: 0.1,
+      directCompetitors: 40,
+      indirectCompetitors: 60,
+      marketSize: "₹600 Cr",
+      marketGrowth: "12% annually",
+    },
+  },
+  {
+    id: "gym-lucknow",
+    name: "Mid-size gym with moderate competition",
+    businessIdea: "Functional fitness gym",
+    location: "Lucknow",
+    budget: "18 lakh",
+    expectedVerdict: "CAUTION",
+    category: "fitness",
+    pass1: {
+      factors: [
+        factor("Fitness awareness", 0.3, 62, true),
+        factor("Membership pricing", 0.25, 55),
+        factor("Trainer availability", 0.2, 60, true),
+        factor("Retention", 0.25, 48),
+      ],
+      marketData: [dataPoint("Gym members in city", 60000, 90000, "members", "low")],
+      estimatedSetupCostMin: 1800000,
+      estimatedSetupCostMax: 2600000,
+      estimatedMonthlyRevenueMin: 280000,
+      estimatedMonthlyRevenueMax: 400000,
+      estimatedMonthlyExpensesMin: 240000,
+      estimatedMonthlyExpensesMax: 320000,
+      avgProfitMargin: 0.15,
+      directCompetitors: 25,
+      indirectCompetitors: 20,
+      marketSize: "₹200 Cr",
+      marketGrowth: "10% annually",
+    },
+  },
+  {
+    id: "boutique-surat",
+    name: "Apparel boutique in a textile hub",
+    businessIdea: "Women's ethnic wear boutique",
+    location: "Surat",
+    budget: "10 lakh",
+    expectedVerdict: "CAUTION",
+    category: "retail",
+    pass1: {
+      factors: [
+        factor("Fabric sourcing", 0.25, 85, true),
+        factor("Local competition", 0.3, 35, true),
+        factor("Online substitution", 0.2, 45),
+        factor("Wedding season demand", 0.25, 70),
+      ],
+      marketData: [dataPoint("Boutiques in city", 1500, 2500, "stores", "low")],
+      estimatedSetupCostMin: 800000,
+      estimatedSetupCostMax: 1400000,
+      estimatedMonthlyRevenueMin: 200000,
+      estimatedMonthlyRevenueMax: 320000,
+      estimatedMonthlyExpensesMin: 170000,
+      estimatedMonthlyExpensesMax: 240000,
+      avgProfitMargin: 0.14,
+      directCompetitors: 35,
+      indirectCompetitors: 40,
+      marketSize: "₹900 Cr",
+      marketGrowth: "8% annually",
+    },
+  },
+  {
+    id: "coworking-nagpur",
+    name: "Co-working space in an emerging market",
+    businessIdea: "Co-working space for freelancers",
+    location: "Nagpur",
+    budget: "30 lakh",
+    expectedVerdict: "CAUTION",
+    category: "real-estate",
+    pass1: {
+      factors: [
+        factor("Freelancer base", 0.3, 55, true),
+        factor("Corporate demand", 0.25, 50, true),
+        factor("Lease cost", 0.25, 68),
+        factor("Amenities", 0.2, 65),
+      ],
+      marketData: [dataPoint("Flexible desks leased", 2000, 4000, "desks", "low")],
+      estimatedSetupCostMin: 3000000,
+      estimatedSetupCostMax: 4500000,
+      estimatedMonthlyRevenueMin: 300000,
+      estimatedMonthlyRevenueMax: 500000,
+      estimatedMonthlyExpensesMin: 280000,
+      estimatedMonthlyExpensesMax: 380000,
+      avgProfitMargin: 0.12,
+      directCompetitors: 6,
+      indirectCompetitors: 10,
+      marketSize: "₹60 Cr",
+      marketGrowth: "9% annually",
+    },
+  },
+  {
+    id: "bakery-bhopal",
+    name: "Bakery with thin margins",
+    businessIdea: "Artisan bakery and patisserie",
+    location: "Bhopal",
+    budget: "8 lakh",
+    expectedVerdict: "CAUTION",
+    category: "food",
+    pass1: {
+      factors: [
+        factor("Celebration demand", 0.3, 65, true),
+        factor("Ingredient costs", 0.25, 45),
+        factor("Premium willingness", 0.25, 50, true),
+        factor("Shelf life", 0.2, 55),
+      ],
+      marketData: [dataPoint("Bakeries in city", 300, 500, "stores", "low")],
+      estimatedSetupCostMin: 700000,
+      estimatedSetupCostMax: 1100000,
+      estimatedMonthlyRevenueMin: 150000,
+      estimatedMonthlyRevenueMax: 240000,
+      estimatedMonthlyExpensesMin: 130000,
+      estimatedMonthlyExpensesMax: 180000,
+      avgProfitMargin: 0.12,
+      directCompetitors: 22,
+      indirectCompetitors: 30,
+      marketSize: "₹90 Cr",
+      marketGrowth: "7% annually",
+    },
+  },
+  {
+    id: "franchise-underfunded",
+    name: "Restaurant franchise far beyond the budget",
+    businessIdea: "International burger franchise outlet",
+    location: "Delhi",
+    budget: "5 lakh",
+    expectedVerdict: "AVOID",
+    category: "food",
+    pass1: {
+      factors: [
+        factor("Brand pull", 0.3, 85),
+        factor("Franchise fee", 0.25, 25),
+        factor("Mall rent", 0.25, 30, true),
+        factor("Footfall", 0.2, 80, true),
+      ],
+      marketData: [dataPoint("Franchise fee", 2500000, 4000000, "₹", "high")],
+      estimatedSetupCostMin: 6000000,
+      estimatedSetupCostMax: 10000000,
+      estimatedMonthlyRevenueMin: 1200000,
+      estimatedMonthlyRevenueMax: 1800000,
+      estimatedMonthlyExpensesMin: 1000000,
+      estimatedMonthlyExpensesMax: 1400000,
+      avgProfitMargin: 0.12,
+      directCompetitors: 30,
+      indirectCompetitors: 80,
+      marketSize: "₹5,000 Cr",
+      marketGrowth: "10% annually",
+    },
+  },
+  {
+    id: "video-rental-village",
+    name: "Declining business in a small market",
+    businessIdea: "DVD and game rental shop",
+    location: "Rural Bihar",
+    budget: "3 lakh",
+    expectedVerdict: "AVOID",
+    category: "retail",
+    pass1: {
+      factors: [
+        factor("Physical media demand", 0.35, 12),
+        factor("Streaming substitution", 0.3, 10),
+        factor("Local purchasing power", 0.2, 30, true),
+        factor("Rent", 0.15, 70, true),
+      ],
+      marketData: [dataPoint("Households with broadband", 5, 15, "%", "low")],
+      estimatedSetupCostMin: 200000,
+      estimatedSetupCostMax: 400000,
+      estimatedMonthlyRevenueMin: 15000,
+      estimatedMonthlyRevenueMax: 30000,
+      estimatedMonthlyExpensesMin: 25000,
+      estimatedMonthlyExpensesMax: 35000,
+      avgProfitMargin: 0,
+      directCompetitors: 2,
+      indirectCompetitors: 40,
+      marketSize: "Shrinking, under ₹5 Cr",
+      marketGrowth: "-20% annually",
+    },
+  },
+  {
+    id: "luxury-spa-tier3",
+    name: "Luxury spa where the market cannot pay",
+    businessIdea: "Luxury day spa",
+    location: "Gaya",
+    budget: "15 lakh",
+    expectedVerdict: "AVOID",
+    category: "services",
+    pass1: {
+      factors: [
+        factor("Affluent customers", 0.35, 18, true),
+        factor("Trained staff", 0.2, 25, true),
+        factor("Tourist inflow", 0.25, 40, true),
+        factor("Pricing power", 0.2, 20),
+      ],
+      marketData: [dataPoint("High-income households", 2000, 4000, "households", "low")],
+      estimatedSetupCostMin: 2500000,
+      estimatedSetupCostMax: 4000000,
+      estimatedMonthlyRevenueMin: 100000,
+      estimatedMonthlyRevenueMax: 180000,
+      estimatedMonthlyExpensesMin: 220000,
+      estimatedMonthlyExpensesMax: 300000,
+      avgProfitMargin: 0,
+      directCompetitors: 1,
+      indirectCompetitors: 4,
+      marketSize: "₹8 Cr",
+      marketGrowth: "3% annually",
+    },
+  },
+  {
+    id: "crypto-atm",
+    name: "Regulatory long shot",
+    businessIdea: "Crypto ATM kiosks",
+    location: "Chennai",
+    budget: "10 lakh",
+    expectedVerdict: "AVOID",
+    category: "finance",
+    pass1: {
+      factors: [
+        factor("Regulatory clarity", 0.35, 10),
+        factor("Retail crypto demand", 0.25, 35),
+        factor("Banking partnerships", 0.25, 15),
+        factor("Footfall locations", 0.15, 60, true),
+      ],
+      marketData: [dataPoint("Active crypto traders", 50000, 150000, "users", "low")],
+      estimatedSetupCostMin: 3000000,
+      estimatedSetupCostMax: 5000000,
+      estimatedMonthlyRevenueMin: 80000,
+      estimatedMonthlyRevenueMax: 200000,
+      estimatedMonthlyExpensesMin: 180000,
+      estimatedMonthlyExpensesMax: 260000,
+      avgProfitMargin: 0.05,
+      directCompetitors: 0,
+      indirectCompetitors: 25,
+      marketSize: "Unclear",
+      marketGrowth: "2% annually",
+    },
+  },
+  {
+    id: "mobile-repair-kanpur",
+    name: "Low-cost service business with steady demand",
+    businessIdea: "Mobile phone repair shop",
+    location: "Kanpur",
+    budget: "3 lakh",
+    expectedVerdict: "GO",
+    category: "services",
+    pass1: {
+      factors: [
+        factor("Smartphone penetration", 0.3, 85, true),
+        factor("Technician skill", 0.25, 70),
+        factor("Parts availability", 0.2, 75),
+        factor("Shop visibility", 0.25, 65, true),
+      ],
+      marketData: [dataPoint("Smartphone users", 1800000, 2200000, "users", "medium")],
+      estimatedSetupCostMin: 150000,
+      estimatedSetupCostMax: 250000,
+      estimatedMonthlyRevenueMin: 80000,
+      estimatedMonthlyRevenueMax: 140000,
+      estimatedMonthlyExpensesMin: 45000,
+      estimatedMonthlyExpensesMax: 65000,
+      avgProfitMargin: 0.35,
+      directCompetitors: 30,
+      indirectCompetitors: 10,
+      marketSize: "₹120 Cr",
+      marketGrowth: "12% annually",
+    },
+  },
+  {
+    id: "food-truck-goa",
+    name: "Seasonal food truck in a tourist state",
+    businessIdea: "Seafood food truck",
+    location: "Goa",
+    budget: "7 lakh",
+    expectedVerdict: "CAUTION",
+    category: "food",
+    pass1: {
+      factors: [
+        factor("Tourist season", 0.3, 75, true),
+        factor("Off-season demand", 0.25, 35, true),
+        factor("Permits", 0.2, 45),
+        factor("Menu appeal", 0.25, 70),
+      ],
+      marketData: [dataPoint("Annual tourists", 7000000, 9000000, "visitors", "high")],
+      estimatedSetupCostMin: 600000,
+      estimatedSetupCostMax: 900000,
+      estimatedMonthlyRevenueMin: 150000,
+      estimatedMonthlyRevenueMax: 260000,
+      estimatedMonthlyExpensesMin: 120000,
+      estimatedMonthlyExpensesMax: 170000,
+      avgProfitMargin: 0.18,
+      directCompetitors: 20,
+      indirectCompetitors: 50,
+      marketSize: "₹250 Cr",
+      marketGrowth: "9% annually",
+    },
+  },
+];
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { parseFollowupRequest, formatAnalysisContext, buildFollowupMessages, HISTORY_LIMIT, type FollowupAnalysis, type FollowupMessage } from "../../supabase/functions/_shared/followup.ts";
+
+const analysis: FollowupAnalysis = {
+  verdict: "CAUTION",
+  score: 58,
+  summary: "Viable with tighter delivery costs.",
+  input: { businessIdea: "Cloud kitchen for office lunches", location: "Koramangala, Bangalore", budget: "15 lakh" },
+  country: { name: "India", currency: "INR" },
+  dynamicFactors: [{ name: "Office density", weight: 0.4, score: 72, reasoning: "Many tech parks nearby" }],
+  scoreBreakdown: { base: 50, contributions: [{ feature: "budgetRatio", contribution: 2.04 }, { feature: "competitionDensity", contribution: -6.5 }] },
+  pass1: {
+    factors: [],
+    marketData: [{ metric: "Lunch orders per day", minValue: 80, maxValue: 150, estimatedValue: 110, unit: "count", source: "Delivery app listings", confidence: "medium" }],
+    estimatedSetupCostMin: 800000,
+    estimatedSetupCostMax: 1200000,
+    estimatedMonthlyRevenueMin: 300000,
+    estimatedMonthlyRevenueMax: 450000,
+    estimatedMonthlyExpensesMin: 250000,
+    estimatedMonthlyExpensesMax: 320000,
+    avgProfitMargin: 0.18,
+    directCompetitors: 14,
+    indirectCompetitors: 30,
+    marketSize: "₹200 Cr",
+    marketGrowth: "15% annually",
+  },
+  marketAnalysis: { size: "₹200 Cr", growth: "15% annually", competition: "High" },
+  financialProjection: {
+    breakEvenMonths: 18,
+    roi: 24,
+    yearlyData: [{ year: 2026, revenue: 4500000, expenses: 3400000, profit: 1100000 }],
+  },
+  competitionAnalysis: { directCompetitors: 14, indirectCompetitors: 30, threats: ["Aggregator commissions"], opportunities: [] },
+  risks: [{ risk: "Delivery costs", severity: "high", mitigation: "Own riders for bulk orders" }],
+  recommendations: ["Start with three tech parks"],
+};
+
+describe("parseFollowupRequest", () => {
+  it("needs an analysis id and a question", () => {
+    const analysisId = "0b7c2a4e-8f61-4d3b-9a2e-5c1f7d8e6b90";
+    expect(parseFollowupRequest({ analysisId, question: "  Why 18 months?  " }).data).toEqual({ analysisId, question: "Why 18 months?" });
+    expect(parseFollowupRequest({ analysisId: "42", question: "Why?" }).issues?.[0]).toMatch(/^analysisId:/);
+    expect(parseFollowupRequest({ analysisId, question: "x".repeat(1001) }).data).toBeUndefined();
+  });
+});
+
+describe("formatAnalysisContext", () => {
+  it("includes the figures a question would be about", () => {
+    const context = formatAnalysisContext(analysis);
+    expect(context).toContain("Verdict: CAUTION, score 58/100");
+    expect(context).toContain("Office density: weight 0.4, score 72");
+    expect(context).toContain("Setup cost: ₹8L - ₹12L");
+    expect(context).toContain("break-even in 18 months, ROI 24%");
+    // Biggest drivers first
+    expect(context.indexOf("competitionDensity: -6.5")).toBeLessThan(context.indexOf("budgetRatio: +2"));
+    expect(context).toContain("Opportunities:\n- (none)");
+  });
+
+  it("works for older analyses without Pass 1 data or a breakdown", () => {
+    const { pass1, scoreBreakdown, dynamicFactors, ...older } = analysis;
+    const context = formatAnalysisContext(older);
+    expect(context).not.toContain("Setup cost");
+    expect(context).toContain("Risks:\n- Delivery costs (high)");
+  });
+});
+
+describe("buildFollowupMessages", () => {
+  it("puts the analysis in the system message and the question last", () => {
+    const messages = buildFollowupMessages(analysis, [], "What if I skip delivery?");
+    expect(messages.map((m) => m.role)).toEqual(["system", "user"]);
+    expect(messages[0].content).toContain("Cloud kitchen for office lunches");
+    expect(messages[1].content).toBe("What if I skip delivery?");
+  });
+
+  it("keeps the most recent history and never starts on an answer", () => {
+    // m0..m14 alternating user/assistant; the last 12 start on m3, an answer, which is dropped
+    const history: FollowupMessage[] = Array.from({ length: HISTORY_LIMIT + 3 }, (_, i) => ({ role: i % 2 ? "assistant" : "user", content: `m${i}` }));
+    const messages = buildFollowupMessages(analysis, history, "And the ROI?");
+    expect(messages).toHaveLength(1 + (HISTORY_LIMIT - 1) + 1);
+    expect(messages[1]).toEqual({ role: "user", content: "m4" });
+    expect(messages.at(-2)?.content).toBe("m14");
+    expect(messages.at(-1)?.content).toBe("And the ROI?");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  INDICATORS,
+  formatNationalIndicators,
+  hasAllIndicators,
+  parseWorldBankResponse,
+  snapshotIndicators,
+  worldBankUrl,
+} from "../../supabase/functions/_shared/indicators.ts";
+import { COUNTRIES, resolveCountry } from "../../supabase/functions/_shared/countries.ts";
+
+const india = resolveCountry("Pune");
+
+describe("parseWorldBankResponse", () => {
+  it("keeps years that have a value", () => {
+    const body = [
+      { page: 1 },
+      [
+        { countryiso3code: "IND", date: "2024", value: null },
+        { countryiso3code: "IND", date: "2023", value: 1438069596 },
+        { countryiso3code: "IND", date: "2022", value: 1425423212 },
+      ],
+    ];
+    expect(parseWorldBankResponse(body, "IND", INDICATORS.population)).toEqual([
+      { country_code: "IND", indicator: "SP.POP.TOTL", year: 2023, value: 1438069596 },
+      { country_code: "IND", indicator: "SP.POP.TOTL", year: 2022, value: 1425423212 },
+    ]);
+  });
+
+  it("returns nothing for error payloads", () => {
+    expect(parseWorldBankResponse([{ message: [{ id: "120" }] }], "IND", INDICATORS.population)).toEqual([]);
+    expect(parseWorldBankResponse(null, "IND", INDICATORS.population)).toEqual([]);
+  });
+});
+
+describe("worldBankUrl", () => {
+  it("asks for the last few years of one indicator", () => {
+    expect(worldBankUrl("IND", INDICATORS.gdpPerCapita, new Date("2026-10-19")))
+      .toBe("https://api.worldbank.org/v2/country/IND/indicator/NY.GDP.PCAP.CD?format=json&date=2021:2026&per_page=6");
+  });
+});
+
+describe("snapshotIndicators", () => {
+  it("covers every supported country", () => {
+    for (const country of COUNTRIES) expect(hasAllIndicators(snapshotIndicators(country.iso3))).toBe(true);
+  });
+
+  it("is empty for unknown countries", () => {
+    expect(snapshotIndicators("XYZ")).toEqual([]);
+  });
+});
+
+describe("formatNationalIndicators", () => {
+  it("uses the newest year and derives growth from the year before", () => {
+    const text = formatNationalIndicators(india, snapshotIndicators("IND"), "Pune");
+    expect(text).toContain("India Total Population (2023): 1.44 billion");
+    expect(text).toContain("Annual Population Growth: 0.89%");
+    expect(text).toContain("Urban Population: 36.4%");
+    expect(text).toContain("GDP Per Capita: $2481");
+    expect(text).toContain('city-level population of "Pune"');
+  });
+
+  it("skips growth when the years are not consecutive", () => {
+    const rows = [
+      { country_code: "IND", indicator: INDICATORS.population, year: 2023, value: 1438069596 },
+      { country_code: "IND", indicator: INDICATORS.population, year: 2020, value: 1396387127 },
+    ];
+    const text = formatNationalIndicators(india, rows, "Pune");
+    expect(text).not.toContain("Growth");
+    expect(hasAllIndicators(rows)).toBe(false);
+  });
+
+  it("returns nothing without rows", () => {
+    expect(formatNationalIndicators(india, [], "Pune")).toBe("");
+  });
+});
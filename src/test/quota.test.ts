@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { checkQuotaResult, quotaExceeded, toQuotaStatus, type QuotaRow } from "../../supabase/functions/_shared/quota.ts";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const row: QuotaRow = {
+  allowed: true,
+  reason: null,
+  requests_per_minute: 5,
+  analyses_per_month: 50,
+  minute_used: 2,
+  month_used: 12,
+  minute_resets_at: "2026-10-19T12:00:40Z",
+  month_resets_at: "2026-11-01T00:00:00Z",
+};
+
+describe("toQuotaStatus", () => {
+  it("reports what is left in each window", () => {
+    expect(toQuotaStatus(row)).toEqual({
+      requestsPerMinute: 5,
+      analysesPerMonth: 50,
+      remainingThisMinute: 3,
+      remainingThisMonth: 38,
+      monthResetsAt: "2026-11-01T00:00:00Z",
+    });
+  });
+
+  it("never goes below zero when limits were lowered", () => {
+    expect(toQuotaStatus({ ...row, analyses_per_month: 10 }).remainingThisMonth).toBe(0);
+  });
+});
+
+describe("quotaExceeded", () => {
+  it("is null for allowed requests", () => {
+    expect(quotaExceeded(row, now)).toBeNull();
+  });
+
+  it("asks burst-limited callers to wait for the minute window", () => {
+    const refused = quotaExceeded({ ...row, allowed: false, reason: "TOO_MANY_REQUESTS", minute_used: 5 }, now);
+    expect(refused?.code).toBe("TOO_MANY_REQUESTS");
+    expect(refused?.retryAfterSeconds).toBe(40);
+    expect(refused?.quota.remainingThisMinute).toBe(0);
+    expect(refused?.error).toContain("Try again in 40s");
+  });
+
+  it("points monthly refusals at the reset date", () => {
+    const refused = quotaExceeded({ ...row, allowed: false, reason: "QUOTA_EXCEEDED", month_used: 50 }, now);
+    expect(refused?.code).toBe("QUOTA_EXCEEDED");
+    expect(refused?.retryAfterSeconds).toBe(12 * 86400 + 12 * 3600);
+    expect(refused?.error).toBe("You have used all 50 analyses for this month. Your quota resets on 2026-11-01.");
+  });
+
+  it("tells a batch how much of the month is left", () => {
+    const refused = quotaExceeded({ ...row, allowed: false, reason: "QUOTA_EXCEEDED", month_used: 45 }, now, 12);
+    expect(refused?.code).toBe("QUOTA_EXCEEDED");
+    expect(refused?.error).toBe("This batch needs 12 analyses but only 5 are left this month. Your quota resets on 2026-11-01.");
+  });
+});
+
+describe("checkQuotaResult", () => {
+  it("fails closed when the quota check errors or returns nothing", () => {
+    expect(() => checkQuotaResult(null, { message: "function consume_analysis_quota does not exist" }, now)).toThrow("QUOTA_UNAVAILABLE");
+    expect(() => checkQuotaResult(row, { message: "connection reset" }, now)).toThrow("QUOTA_UNAVAILABLE");
+    expect(() => checkQuotaResult(null, null, now)).toThrow("QUOTA_UNAVAILABLE");
+  });
+
+  it("passes a returned row on to quotaExceeded", () => {
+    expect(checkQuotaResult(row, null, now)).toBeNull();
+    expect(checkQuotaResult({ ...row, allowed: false, reason: "TOO_MANY_REQUESTS" }, null, now)?.code).toBe("TOO_MANY_REQUESTS");
+  });
+});
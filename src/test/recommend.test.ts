@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { demographicScore, cityCandidates, cityPass1, recommendCities, type CityDemographicsRow } from "../../supabase/functions/_shared/recommend.ts";
+import { parseBudget } from "../../supabase/functions/_shared/budget.ts";
+import type { Pass1Result } from "../../supabase/functions/_shared/scoring.ts";
+import { sortRecommendations } from "@/lib/recommend";
+
+const city = (name: string, tier: string, population: number, growth: number, literacy: number | null, income: number | null): CityDemographicsRow => ({
+  name,
+  state: "State",
+  tier,
+  population_2011: population,
+  growth_rate: growth,
+  literacy_rate: literacy,
+  avg_household_income_inr: income,
+});
+
+const rows = [
+  city("Pune", "Tier 1", 3124458, 2.5, 91.7, 480000),
+  city("Kanpur", "Tier 2", 2767031, 1.0, 79.7, 220000),
+  city("Bengaluru", "Tier 1", 8443675, 3.5, 87.7, 520000),
+  city("Bareilly", "Tier 3", 903668, 1.4, 68.7, 150000),
+];
+
+const baseline: Pass1Result = {
+  factors: [
+    { name: "Local demand", weight: 0.5, score: 60, reasoning: "Steady demand", isLocationSpecific: true },
+    { name: "Supplier access", weight: 0.5, score: 70, reasoning: "Common inputs", isLocationSpecific: false },
+  ],
+  marketData: [],
+  estimatedSetupCostMin: 800000,
+  estimatedSetupCostMax: 1200000,
+  estimatedMonthlyRevenueMin: 250000,
+  estimatedMonthlyRevenueMax: 350000,
+  estimatedMonthlyExpensesMin: 150000,
+  estimatedMonthlyExpensesMax: 200000,
+  avgProfitMargin: 0.2,
+  directCompetitors: 10,
+  indirectCompetitors: 20,
+  marketSize: "₹500 Cr",
+  marketGrowth: "12% annually",
+};
+
+describe("demographicScore", () => {
+  it("rewards income, tier, growth and literacy and treats missing figures as average", () => {
+    expect(demographicScore(rows[2], 520000)).toBeGreaterThan(demographicScore(rows[0], 520000));
+    expect(demographicScore(rows[0], 520000)).toBeGreaterThan(demographicScore(rows[3], 520000));
+    expect(demographicScore(city("Unknown", "Tier 2", 500000, 0, null, null), 520000)).toBe(Math.round((0.5 * 0.35 + 0.7 * 0.25 + 0.75 * 0.15) * 100));
+  });
+});
+
+describe("cityCandidates", () => {
+  it("keeps every city and scores income against the richest one", () => {
+    const candidates = cityCandidates(rows);
+    expect(candidates.map((entry) => entry.city.name)).toEqual(["Pune", "Kanpur", "Bengaluru", "Bareilly"]);
+    expect(candidates[2].demographicScore).toBe(demographicScore(rows[2], 520000));
+  });
+});
+
+describe("cityPass1", () => {
+  it("scales revenue with income, costs with tier and competitors with size", () => {
+    const [pune] = cityCandidates([rows[0]]);
+    const adjusted = cityPass1(baseline, pune, { income: 240000, population: 3124458 });
+    expect(adjusted.estimatedMonthlyRevenueMin).toBe(450000);  // income is 2x the median, capped at 1.8x
+    expect(adjusted.estimatedSetupCostMax).toBe(1560000);      // Tier 1 costs 1.3x
+    expect(adjusted.directCompetitors).toBe(10);               // median-sized city
+    expect(adjusted.factors[0].score).toBe(Math.round((60 + pune.demographicScore) / 2));
+    expect(adjusted.factors[1].score).toBe(70);
+  });
+});
+
+describe("recommendCities", () => {
+  it("scores every city and keeps the best by score", () => {
+    const cities = recommendCities(baseline, rows, parseBudget("15 lakh"), 3);
+    expect(cities).toHaveLength(3);
+    expect(cities.map((c) => c.rank)).toEqual([1, 2, 3]);
+    expect(cities.map((c) => c.city)).not.toContain("Bareilly");
+    for (let i = 1; i < cities.length; i++) expect(cities[i - 1].score).toBeGreaterThanOrEqual(cities[i].score);
+    expect(["GO", "CAUTION", "AVOID"]).toContain(cities[0].verdict);
+  });
+
+  it("lets a tight budget pick a city with weaker demographics", () => {
+    const [best] = recommendCities(baseline, rows, parseBudget("5 lakh"), 1);
+    expect(best.city).toBe("Bareilly");  // the cheapest Tier 3 city fits the budget best
+    expect(best.budgetFitPercent).toBeGreaterThan(recommendCities(baseline, rows, parseBudget("5 lakh")).find((c) => c.city === "Bengaluru")!.budgetFitPercent);
+  });
+});
+
+describe("sortRecommendations", () => {
+  const cities = recommendCities(baseline, rows, parseBudget("15 lakh"));
+
+  it("sorts by any column and puts missing values last", () => {
+    expect(sortRecommendations(cities, "growthRate", "asc").map((c) => c.growthRate)).toEqual([1.0, 1.4, 2.5, 3.5]);
+    expect(sortRecommendations(cities, "city", "desc")[0].city).toBe("Pune");
+    const withGap = cities.map((c) => (c.city === "Pune" ? { ...c, literacyRate: null } : c));
+    expect(sortRecommendations(withGap, "literacyRate", "desc").map((c) => c.city).at(-1)).toBe("Pune");
+    expect(sortRecommendations(withGap, "literacyRate", "asc").map((c) => c.city).at(-1)).toBe("Pune");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { rescore, parseRescoreRequest } from "../../supabase/functions/_shared/rescore.ts";
+import { pass2_score } from "../../supabase/functions/_shared/scoring.ts";
+import { parseBudget } from "../../supabase/functions/_shared/budget.ts";
+import { EVALUATION_SCENARIOS } from "./fixtures/scenarios";
+
+const scenario = EVALUATION_SCENARIOS[0];
+
+describe("rescore", () => {
+  it("matches Pass 2 when there are no overrides", () => {
+    const { data: request } = parseRescoreRequest({ pass1: scenario.pass1, budget: scenario.budget });
+    const original = pass2_score(scenario.pass1, parseBudget(scenario.budget));
+    expect(rescore(request)).toMatchObject({ score: original.score, verdict: original.verdict });
+  });
+
+  it("applies cost, competitor and budget overrides", () => {
+    const { data: request } = parseRescoreRequest({
+      pass1: scenario.pass1,
+      budget: scenario.budget,
+      overrides: {
+        budget: "2 lakh",
+        monthlyExpenses: { min: 450000, max: 520000 },
+        directCompetitors: 60,
+        factorScores: { "Delivery demand": 20 },
+      },
+    });
+    const result = rescore(request);
+    expect(result.budget).toBe("2 lakh");
+    expect(result.pass1.directCompetitors).toBe(60);
+    expect(result.dynamicFactors.find((f) => f.name === "Delivery demand")?.score).toBe(20);
+    expect(result.score).toBeLessThan(pass2_score(scenario.pass1, parseBudget(scenario.budget)).score);
+    expect(result.verdict).toBe("AVOID");
+  });
+
+  it("parses the budget in the analysis currency", () => {
+    const { data: request } = parseRescoreRequest({ pass1: scenario.pass1, budget: "150k", currency: "AED" });
+    expect(rescore(request).budgetDetails).toMatchObject({ baseCurrency: "AED", currency: "AED", min: 150000 });
+    expect(parseRescoreRequest({ pass1: scenario.pass1, budget: "150k", currency: "dirham" }).data).toBeUndefined();
+  });
+
+  it("rejects inverted ranges and unknown override keys", () => {
+    expect(parseRescoreRequest({ pass1: scenario.pass1, budget: "", overrides: { setupCost: { min: 10, max: 1 } } }).issues).toEqual(["overrides.setupCost: min must not exceed max"]);
+    expect(parseRescoreRequest({ pass1: scenario.pass1, budget: "", overrides: { rent: 80000 } }).data).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { explainScore, gbdtPredict, type GBDTFeatures } from "../../supabase/functions/_shared/scoring.ts";
+
+const features: GBDTFeatures = {
+  avgFactorScore: 64,
+  budgetRatio: 1.2,
+  competitionDensity: 0.4,
+  marketGrowthSignal: 0.6,
+  profitMarginEstimate: 0.18,
+  locationTierScore: 0.7,
+  revenueToExpenseRatio: 1.3,
+  factorVariance: 0.2,
+  topFactorScore: 80,
+  bottomFactorScore: 45,
+};
+
+describe("explainScore", () => {
+  it("adds up from the base to the same score gbdtPredict returns", () => {
+    const breakdown = explainScore(features);
+    const total = breakdown.base + breakdown.contributions.reduce((sum, c) => sum + c.contribution, 0) + breakdown.clampAdjustment;
+    expect(breakdown.base).toBe(50);
+    expect(total).toBeCloseTo(breakdown.score, 6);
+    expect(breakdown.score).toBe(gbdtPredict(features));
+  });
+
+  it("groups every stump under one entry per feature or interaction", () => {
+    const { contributions } = explainScore(features);
+    const labels = contributions.map((c) => c.feature);
+    expect(new Set(labels).size).toBe(labels.length);
+    expect(labels).toContain("avgFactorScore");
+    expect(contributions.some((c) => c.features.length === 2)).toBe(true);
+  });
+});
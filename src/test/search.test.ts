@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  loadSearchProviders,
+  describeSearchProviders,
+  searchWeb,
+  createFixtureProvider,
+  FIXTURE_HITS,
+  type SearchProvider,
+} from "../../supabase/functions/_shared/search.ts";
+
+const envFrom = (values: Record<string, string>) => (key: string) => values[key];
+
+const failing = (name: string): SearchProvider => ({
+  name,
+  timeoutMs: 10,
+  limit: 5,
+  search: async () => { throw new Error("SEARCH_FAILED"); },
+});
+
+describe("loadSearchProviders", () => {
+  it("uses whichever backends have credentials when none are listed", () => {
+    expect(describeSearchProviders(loadSearchProviders(envFrom({})))).toBe("none");
+    expect(describeSearchProviders(loadSearchProviders(envFrom({ FIRECRAWL_API_KEY: "key" })))).toBe("firecrawl");
+    expect(describeSearchProviders(loadSearchProviders(envFrom({ FIRECRAWL_API_KEY: "key", SEARXNG_BASE_URL: "http://localhost:8888" }))))
+      .toBe("firecrawl>searxng");
+  });
+
+  it("follows SEARCH_PROVIDERS order with per-provider timeouts and limits", () => {
+    const providers = loadSearchProviders(envFrom({
+      SEARCH_PROVIDERS: "searxng, firecrawl",
+      SEARXNG_BASE_URL: "http://localhost:8888",
+      SEARXNG_TIMEOUT_MS: "3000",
+      FIRECRAWL_RESULT_LIMIT: "3",
+    }));
+    expect(providers.map((p) => p.name)).toEqual(["searxng", "firecrawl"]);
+    expect(providers[0].timeoutMs).toBe(3000);
+    expect(providers[0].limit).toBe(5);
+    expect(providers[1].timeoutMs).toBe(15000);
+    expect(providers[1].limit).toBe(3);
+  });
+
+  it("turns search off with none and rejects unknown providers", () => {
+    expect(loadSearchProviders(envFrom({ SEARCH_PROVIDERS: "none", FIRECRAWL_API_KEY: "key" }))).toEqual([]);
+    expect(() => loadSearchProviders(envFrom({ SEARCH_PROVIDERS: "bing" }))).toThrow("SERVICE_CONFIG_ERROR");
+  });
+});
+
+describe("searchWeb", () => {
+  it("falls through failing providers and reports the one that answered", async () => {
+    const outcome = await searchWeb([failing("firecrawl"), createFixtureProvider()], "cafe Pune");
+    expect(outcome.provider).toBe("fixture");
+    expect(outcome.hits).toEqual(FIXTURE_HITS);
+  });
+
+  it("drops results without a safe link and applies the provider limit", async () => {
+    const hits = [
+      { title: "A", url: "javascript:alert(1)", snippet: "", content: "" },
+      { title: "B", url: "https://example.com/b", snippet: "", content: "" },
+      { title: "C", url: "https://example.com/c", snippet: "", content: "" },
+    ];
+    const outcome = await searchWeb([createFixtureProvider(hits, { limit: 2 })], "q");
+    expect(outcome.hits.map((hit) => hit.title)).toEqual(["B"]);
+  });
+
+  it("returns no provider when nothing answered", async () => {
+    expect(await searchWeb([failing("searxng")], "q")).toEqual({ provider: null, hits: [] });
+    expect(await searchWeb([], "q")).toEqual({ provider: null, hits: [] });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { simulateFinancials, projectFinancials } from "../../supabase/functions/_shared/simulation.ts";
+
+const ranges = {
+  setupCost: { min: 800000, max: 1200000 },
+  monthlyRevenue: { min: 200000, max: 350000 },
+  monthlyExpenses: { min: 150000, max: 220000 },
+};
+
+describe("simulateFinancials", () => {
+  it("returns the same bands for the same inputs", () => {
+    expect(simulateFinancials(ranges, 60, 1500000)).toEqual(simulateFinancials(ranges, 60, 1500000));
+  });
+
+  it("orders percentiles and brackets the midpoint projection", () => {
+    const simulation = simulateFinancials(ranges, 60, 1500000, { runs: 2000 });
+    const point = projectFinancials({ setupCost: 1000000, monthlyRevenue: 275000, monthlyExpenses: 185000 }, 60, 1500000);
+
+    for (const band of [...simulation.yearlyProfit, simulation.breakEvenMonths, simulation.roi]) {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    }
+    expect(simulation.yearlyProfit).toHaveLength(5);
+    expect(point.roi).toBeGreaterThanOrEqual(simulation.roi.p10);
+    expect(point.roi).toBeLessThanOrEqual(simulation.roi.p90);
+  });
+});
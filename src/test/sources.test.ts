@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { citedSourceIds, formatSourcesForPrompt, isSafeUrl, knownSourceIds, stripUnknownCitations } from "../../supabase/functions/_shared/sources.ts";
+
+const known = new Set([1, 2, 3]);
+
+describe("knownSourceIds", () => {
+  it("keeps known integer ids once", () => {
+    expect(knownSourceIds([2, "1", 2, 9, 1.5, null], known)).toEqual([2, 1]);
+  });
+
+  it("returns nothing for non-arrays", () => {
+    expect(knownSourceIds("1", known)).toEqual([]);
+    expect(knownSourceIds(undefined, known)).toEqual([]);
+  });
+});
+
+describe("stripUnknownCitations", () => {
+  it("drops invented ids and keeps the rest of a marker", () => {
+    expect(stripUnknownCitations("Demand is strong [2]. Rents are high [7].", known)).toBe("Demand is strong [2]. Rents are high.");
+    expect(stripUnknownCitations("Growth of 12% [1, 8, 3]", known)).toBe("Growth of 12% [1, 3]");
+  });
+
+  it("leaves text without markers alone", () => {
+    expect(stripUnknownCitations("No citations here.", known)).toBe("No citations here.");
+  });
+});
+
+describe("citedSourceIds", () => {
+  it("lists ids in order of first appearance", () => {
+    expect(citedSourceIds("A [3]. B [1, 3]. C [2].")).toEqual([3, 1, 2]);
+  });
+});
+
+describe("isSafeUrl", () => {
+  it("only allows http(s) links", () => {
+    expect(isSafeUrl("https://data.worldbank.org/country/IN")).toBe(true);
+    expect(isSafeUrl("javascript:alert(1)")).toBe(false);
+    expect(isSafeUrl("not a url")).toBe(false);
+  });
+});
+
+describe("formatSourcesForPrompt", () => {
+  it("numbers sources by id", () => {
+    const text = formatSourcesForPrompt([
+      { id: 1, kind: "web", title: "Cafe market report", url: "https://example.com/cafes", snippet: "" },
+      { id: 2, kind: "dataset", title: "World Bank Open Data: India", url: "https://data.worldbank.org/country/IN", snippet: "" },
+    ]);
+    expect(text).toBe("[1] Cafe market report (https://example.com/cafes)\n[2] World Bank Open Data: India (https://data.worldbank.org/country/IN)");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { trainGBDT, evaluateModel, type LabelledRow } from "../../scripts/gbdt-boosting.ts";
+import { DEFAULT_MODEL, explainScore, type GBDTFeatures } from "../../supabase/functions/_shared/scoring.ts";
+
+const baseFeatures: GBDTFeatures = {
+  avgFactorScore: 50,
+  budgetRatio: 1.5,
+  competitionDensity: 0.3,
+  marketGrowthSignal: 0.4,
+  profitMarginEstimate: 0.2,
+  locationTierScore: 0.6,
+  revenueToExpenseRatio: 1.3,
+  factorVariance: 0.2,
+  topFactorScore: 70,
+  bottomFactorScore: 40,
+};
+
+// Verdict is driven by factor quality alone, which the hand-tuned stumps barely separate
+const rows: LabelledRow[] = Array.from({ length: 60 }, (_, i) => {
+  const avgFactorScore = 20 + i;
+  return {
+    features: { ...baseFeatures, avgFactorScore },
+    verdict: avgFactorScore >= 60 ? "GO" : avgFactorScore < 35 ? "AVOID" : "CAUTION",
+  };
+});
+
+describe("trainGBDT", () => {
+  const model = trainGBDT(rows, { version: "test-model", rounds: 40 });
+
+  it("emits a versioned model the scorer can run", () => {
+    expect(model).toMatchObject({ version: "test-model", source: "gradient-boosting", training: { rows: 60 } });
+    expect(model.decisionStumps.length + model.interactionStumps.length).toBeGreaterThan(0);
+    expect(explainScore(rows[0].features, model).base).toBe(model.baseScore);
+  });
+
+  it("fits the labels better than the hand-tuned ensemble", () => {
+    expect(model.training?.verdictAccuracy).toBeGreaterThan(evaluateModel(DEFAULT_MODEL, rows).verdictAccuracy);
+    expect(model.training?.verdictAccuracy).toBeGreaterThanOrEqual(0.9);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { summarizeByDay, errorBreakdown, type UsageAnalyticsRow } from "../lib/usageAnalytics";
+import { errorCode, newTrace, timed, totalTokens } from "../../supabase/functions/_shared/telemetry.ts";
+
+const event = (createdAt: string, metadata: Record<string, unknown>): UsageAnalyticsRow => ({
+  created_at: createdAt,
+  metadata: {
+    ...newTrace(),
+    cache: "miss",
+    stream: true,
+    pipelineVersion: "pipeline-v12",
+    aiModel: "mock/mock",
+    totalTokens: 0,
+    errorCode: null,
+    ...metadata,
+  },
+});
+
+describe("timed", () => {
+  it("records the stage latency even when it throws", async () => {
+    const trace = newTrace();
+    await expect(timed(trace, "factorDiscovery", async () => { throw new Error("SERVICE_ERROR"); })).rejects.toThrow();
+    expect(trace.latencyMs.factorDiscovery).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("telemetry helpers", () => {
+  it("sums tokens across passes", () => {
+    const trace = newTrace();
+    trace.tokens.factorDiscovery = { promptTokens: 1200, completionTokens: 800 };
+    trace.tokens.explanation = { promptTokens: 1500, completionTokens: 1000 };
+    expect(totalTokens(trace)).toBe(4500);
+    trace.tokens.corrections = { promptTokens: 600, completionTokens: 100 };
+    expect(totalTokens(trace)).toBe(5200);
+  });
+
+  it("keeps handler error codes and hides other messages", () => {
+    expect(errorCode(new Error("OLLAMA_UNREACHABLE"))).toBe("OLLAMA_UNREACHABLE");
+    expect(errorCode(new Error("fetch failed: connection reset"))).toBe("UNKNOWN_ERROR");
+    expect(errorCode("boom")).toBe("UNKNOWN_ERROR");
+  });
+});
+
+describe("summarizeByDay", () => {
+  const rows = [
+    event("2026-10-18T10:00:00", { outcome: "success", totalLatencyMs: 20000, totalTokens: 4000, latencyMs: { realtimeData: 2000, factorDiscovery: 9000, explanation: 8000 } }),
+    event("2026-10-18T11:00:00", { outcome: "success", totalLatencyMs: 30000, totalTokens: 5000, latencyMs: { realtimeData: 4000, factorDiscovery: 15000, explanation: 10000 } }),
+    event("2026-10-18T12:00:00", { outcome: "success", cache: "hit", totalLatencyMs: 150, latencyMs: {} }),
+    event("2026-10-19T09:00:00", { outcome: "error", errorCode: "SERVICE_ERROR", totalLatencyMs: 5000, latencyMs: { realtimeData: 3000 } }),
+    event("2026-10-19T09:05:00", { outcome: "refused", cache: null, errorCode: "TOO_MANY_REQUESTS", totalLatencyMs: 40 }),
+    { created_at: "2026-10-19T09:10:00", metadata: null },
+  ];
+
+  it("counts outcomes per day and averages latency over pipeline runs only", () => {
+    const [first, second] = summarizeByDay(rows);
+    expect(first).toMatchObject({
+      date: "2026-10-18",
+      analyses: 3,
+      cacheHits: 1,
+      errors: 0,
+      avgTotalMs: 25000,
+      avgFactorDiscoveryMs: 12000,
+      avgExplanationMs: 9000,
+      tokens: 9000,
+    });
+    expect(second).toMatchObject({ date: "2026-10-19", analyses: 0, errors: 1, refused: 1, avgTotalMs: null, avgRealtimeDataMs: 3000 });
+  });
+
+  it("counts follow-up questions apart from analyses", () => {
+    const followup = (createdAt: string, metadata: Record<string, unknown>): UsageAnalyticsRow => ({
+      action_type: "followup",
+      created_at: createdAt,
+      metadata: { aiModel: "mock/mock", totalLatencyMs: 4000, totalTokens: 0, errorCode: null, ...metadata },
+    });
+    const [first, second] = summarizeByDay([
+      ...rows,
+      followup("2026-10-18T14:00:00", { outcome: "success", totalTokens: 700 }),
+      followup("2026-10-19T10:00:00", { outcome: "refused", errorCode: "TOO_MANY_REQUESTS", totalLatencyMs: 30 }),
+    ]);
+    expect(first).toMatchObject({ analyses: 3, followups: 1, avgTotalMs: 25000, avgExplanationMs: 9000, tokens: 9700 });
+    expect(second).toMatchObject({ followups: 0, refused: 2 });
+  });
+
+  it("keeps revisions out of the Pass 1 latency", () => {
+    const revision = event("2026-10-18T13:00:00", { outcome: "success", cache: "bypass", totalLatencyMs: 12000, latencyMs: { corrections: 3000, scoring: 20, explanation: 9000 } });
+    const [first] = summarizeByDay([...rows, revision]);
+    expect(first).toMatchObject({ analyses: 4, avgFactorDiscoveryMs: 12000, avgExplanationMs: 9000 });
+  });
+
+  it("ranks error codes by frequency", () => {
+    expect(errorBreakdown(rows)).toEqual([
+      { code: "SERVICE_ERROR", count: 1 },
+      { code: "TOO_MANY_REQUESTS", count: 1 },
+    ]);
+  });
+});
@@ -20,11 +20,28 @@ export interface MarketAnalysis {
   explanation: string;
 }
 
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// Seeded Monte Carlo over the Pass 1 setup cost / revenue / expense ranges
+export interface FinancialSimulation {
+  runs: number;
+  seed: number;
+  yearlyProfit: (PercentileBand & { year: number })[];
+  breakEvenMonths: PercentileBand;
+  roi: PercentileBand;
+  noBreakEvenProbability: number;
+}
+
 export interface FinancialProjection {
   yearlyData: YearData[];
   breakEvenMonths: number;
   roi: number;
   explanation: string;
+  simulation?: FinancialSimulation;
 }
 
 export interface CompetitionAnalysis {
@@ -54,10 +71,163 @@ export interface Risk {
   mitigation: string;
 }
 
+export interface DynamicFactor {
+  name: string;
+  weight: number;
+  score: number;
+  reasoning: string;
+  isLocationSpecific: boolean;
+}
+
+export interface PassQuality {
+  valid: boolean;
+  repairs: number;
+  issues: string[];
+  defaultedFields: string[];
+}
+
+export type GBDTFeatureKey =
+  | 'avgFactorScore'
+  | 'budgetRatio'
+  | 'competitionDensity'
+  | 'marketGrowthSignal'
+  | 'profitMarginEstimate'
+  | 'locationTierScore'
+  | 'revenueToExpenseRatio'
+  | 'factorVariance'
+  | 'topFactorScore'
+  | 'bottomFactorScore';
+
+export interface StumpContribution {
+  threshold: number;
+  value: number;
+  branch: 'left' | 'right';
+  contribution: number;
+}
+
+// Sum of the ensemble stumps that split on one feature (or one interaction pair)
+export interface FeatureContribution {
+  feature: string;
+  features: GBDTFeatureKey[];
+  contribution: number;
+  stumps: StumpContribution[];
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  contributions: FeatureContribution[];
+  clampAdjustment: number;
+  score: number;
+}
+
+// Which LLM fields were repaired or fell back to defaults (0 / empty) during sanitization
+export interface DataQuality {
+  factorDiscovery: PassQuality;
+  explanation?: PassQuality;
+}
+
+export interface MarketDataPoint {
+  metric: string;
+  minValue: number;
+  maxValue: number;
+  estimatedValue: number;
+  unit: string;
+  source: string;
+  sourceIds?: number[];  // ids into BusinessAnalysis.sources
+  confidence: 'high' | 'medium' | 'low';
+}
+
+// Raw factor-discovery output that Pass 2 scores
+export interface Pass1Data {
+  factors: DynamicFactor[];
+  marketData: MarketDataPoint[];
+  estimatedSetupCostMin: number;
+  estimatedSetupCostMax: number;
+  estimatedMonthlyRevenueMin: number;
+  estimatedMonthlyRevenueMax: number;
+  estimatedMonthlyExpensesMin: number;
+  estimatedMonthlyExpensesMax: number;
+  avgProfitMargin: number;
+  directCompetitors: number;
+  indirectCompetitors: number;
+  marketSize: string;
+  marketGrowth: string;
+}
+
+// Structured budget from the shared parser; amounts are in baseCurrency (INR on older analyses)
+export interface BudgetDetails {
+  raw: string;
+  recognized: boolean;
+  baseCurrency?: string;
+  currency: string;
+  exchangeRate: number;
+  min: number;
+  max: number;
+  ownFunds: number | null;
+  debt: number | null;
+}
+
+// Country the location resolved to; every amount in the analysis is in its currency
+export interface CountryInfo {
+  code: string;
+  name: string;
+  currency: string;
+}
+
+// Matched city (and neighbourhood, when the location names one) from the demographics tables
+export interface NeighbourhoodProfile {
+  name: string;
+  rentPerSqft: { min: number; max: number };
+  footfallIndex: number;
+  incomeBand: string;
+  customerSegments: string[];
+}
+
+export interface LocationProfile {
+  city: string;
+  district: string | null;
+  state: string;
+  tier: string;
+  neighbourhood: NeighbourhoodProfile | null;
+}
+
+// Web result or dataset the analysis cites; [n] markers in explanations refer to id
+export interface Source {
+  id: number;
+  kind: 'web' | 'dataset';
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface AnalysisInput {
+  businessIdea: string;
+  location: string;
+  budget: string;
+}
+
+// Set on analyses re-run with the user's corrections to the original's estimates
+export interface AnalysisRevision {
+  parentId: string;      // business_analyses id of the analysis that was corrected
+  corrections: string;   // what the user wrote
+  changes: string[];     // e.g. "Direct competitors: 14 → 3"
+  unmatched: string[];   // parts of the corrections that did not change any estimate
+}
+
 export interface BusinessAnalysis {
   verdict: 'GO' | 'CAUTION' | 'AVOID';
   score: number;
   summary: string;
+  dynamicFactors?: DynamicFactor[];
+  scoreBreakdown?: ScoreBreakdown;
+  modelVersion?: string;
+  budgetDetails?: BudgetDetails;
+  gbdtFeatures?: Record<GBDTFeatureKey, number>;
+  country?: CountryInfo;
+  locationProfile?: LocationProfile | null;
+  searchProvider?: string | null;  // web search backend that answered, null when none did
+  marketData?: MarketDataPoint[];
+  sources?: Source[];
   marketAnalysis: MarketAnalysis;
   financialProjection: FinancialProjection;
   competitionAnalysis: CompetitionAnalysis;
@@ -65,13 +235,120 @@ export interface BusinessAnalysis {
   risks: Risk[];
   recommendations: string[];
   expertInsights: string;
+  dataQuality?: DataQuality;
+  input?: AnalysisInput;
+  pass1?: Pass1Data;
+  revision?: AnalysisRevision;
 }
 
+// analyze-business comparison mode: one idea and budget across several locations
+export interface ComparedLocation {
+  location: string;
+  rank: number | null;  // by score; null when this location's analysis failed
+  score: number | null;
+  verdict: BusinessAnalysis['verdict'] | null;
+  breakEvenMonths: number | null;
+  roi: number | null;
+  directCompetitors: number | null;
+  indirectCompetitors: number | null;
+  factorScores: Record<string, number>;  // keyed by LocationComparison.factorNames
+  error: string | null;
+  analysis: BusinessAnalysis | null;
+}
+
+export interface LocationComparison {
+  businessIdea: string;
+  budget: string;
+  aiModel: string;
+  locations: ComparedLocation[];  // ranked, best first
+  factorNames: string[];
+}
+
+// analyze-business recommendation mode: the best cities for an idea and budget
+export interface CityRecommendation {
+  rank: number;
+  city: string;
+  state: string;
+  tier: string;
+  population: number;
+  growthRate: number;            // % per year
+  literacyRate: number | null;   // %
+  avgHouseholdIncome: number | null;  // INR per year
+  demographicScore: number;      // 0-100, breaks ties between equal scores
+  score: number;
+  verdict: BusinessAnalysis['verdict'];
+  breakEvenMonths: number;
+  roi: number;
+  budgetFitPercent: number;
+}
+
+export interface CityRecommendations {
+  businessIdea: string;
+  budget: string;
+  aiModel: string;
+  cities: CityRecommendation[];  // ranked, best first
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+// What-if overrides accepted by the rescore-analysis function
+export interface RescoreOverrides {
+  budget?: string;
+  setupCost?: ValueRange;
+  monthlyRevenue?: ValueRange;
+  monthlyExpenses?: ValueRange;
+  directCompetitors?: number;
+  indirectCompetitors?: number;
+  avgProfitMargin?: number;
+  factorScores?: Record<string, number>;
+}
+
+export interface RescoreResult {
+  verdict: BusinessAnalysis['verdict'];
+  score: number;
+  budget: string;
+  budgetDetails: BudgetDetails;
+  budgetFitPercent: number;
+  dynamicFactors: DynamicFactor[];
+  scoreBreakdown: ScoreBreakdown;
+  modelVersion: string;
+  financialProjection: Omit<FinancialProjection, 'explanation'>;
+  pass1: Pass1Data;
+}
+
+export interface RealTimeSources {
+  webSearch: boolean;
+  nationalData: boolean;
+  cityDemographics: boolean;
+}
+
+export interface CacheInfo {
+  hit: boolean;
+  cachedAt: string;
+  ageSeconds: number;
+}
+
+// Server-sent events emitted by analyze-business in streaming mode
+export type AnalysisStreamEvent =
+  | { type: 'realtime-data'; sources: RealTimeSources; searchProvider?: string | null }
+  | { type: 'factors'; factors: DynamicFactor[]; dataPoints: number }
+  | { type: 'score'; analysis: BusinessAnalysis }
+  | { type: 'explanations' }
+  | { type: 'complete'; analysis: BusinessAnalysis; aiModel: string; cache: CacheInfo }
+  | { type: 'error'; error: string };
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   analysis?: BusinessAnalysis;
+  request?: AnalysisInput;
+  cache?: CacheInfo;
+  analysisId?: string;  // saved analysis this message shows, when it has one
+  followupOf?: string;  // set on follow-up questions and answers: the analysis they are about
   timestamp: Date;
 }
 
@@ -0,0 +1,97 @@
+// ============================================
+// RESPONSE ASSEMBLY
+// ============================================
+// Scored Pass 1 data plus Pass 3 explanations in the shape the frontend's
+// BusinessAnalysis expects, with the inputs kept so the analysis can be re-scored.
+
+import { generateYearlyWithMonths, type Pass1Result, type ScoringResult } from './scoring.ts';
+import type { CountryProfile } from './countries.ts';
+import type { LocationProfile } from './cities.ts';
+import type { Source } from './sources.ts';
+
+// How a pass's output got to its final form: schema repairs and defaulted fields
+export interface PassQuality {
+  valid: boolean;
+  repairs: number;
+  issues: string[];
+  defaultedFields: string[];
+}
+
+export interface DataQuality {
+  factorDiscovery: PassQuality;
+  explanation?: PassQuality;
+}
+
+export interface AnalysisInput {
+  businessIdea: string;
+  location: string;
+  budget: string;
+}
+
+// What the pipeline learned about the request besides the passes' own output
+export interface AnalysisContext {
+  country: CountryProfile;
+  locationProfile: LocationProfile | null;
+  searchProvider: string | null;
+  sources: Source[];
+}
+
+// Pass 3 output is optional so the scored analysis can be shown before explanations arrive
+export function assembleAnalysis(input: AnalysisInput, scoring: ScoringResult, pass1: Pass1Result, context: AnalysisContext, dataQuality: DataQuality, aiExplanations: Record<string, unknown> = {}) {
+  return {
+    verdict: scoring.verdict,
+    score: scoring.score,
+    summary: (aiExplanations.summary as string) || `Analysis complete for ${input.businessIdea} in ${input.location}.`,
+    scoringFactors: Object.fromEntries(scoring.factors.map(f => [f.name.replace(/\s+/g, ''), f.score])),
+    dynamicFactors: scoring.factors,
+    scoreBreakdown: scoring.scoreBreakdown,
+    modelVersion: scoring.modelVersion,
+    budgetDetails: scoring.budget,
+    gbdtFeatures: scoring.gbdtFeatures,
+    marketData: pass1.marketData,
+    // Every amount in the analysis is in country.currency
+    country: { code: context.country.code, name: context.country.name, currency: context.country.currency },
+    locationProfile: context.locationProfile,
+    // Web search provider that answered, or null when the analysis had no web results
+    searchProvider: context.searchProvider,
+    // Ids referenced by marketData[].sourceIds and by [n] markers in the explanations
+    sources: context.sources,
+    marketAnalysis: {
+      size: pass1.marketSize || 'Data pending',
+      growth: pass1.marketGrowth || 'Data pending',
+      competition: `${pass1.directCompetitors} direct, ${pass1.indirectCompetitors} indirect`,
+      explanation: (aiExplanations.marketExplanation as string) || '',
+    },
+    financialProjection: {
+      yearlyData: generateYearlyWithMonths(scoring.financialProjections),
+      breakEvenMonths: scoring.breakEvenMonths,
+      roi: scoring.roi,
+      explanation: (aiExplanations.financialExplanation as string) || '',
+      setupCostRange: { min: pass1.estimatedSetupCostMin, max: pass1.estimatedSetupCostMax },
+      monthlyRevenueRange: { min: pass1.estimatedMonthlyRevenueMin, max: pass1.estimatedMonthlyRevenueMax },
+      monthlyExpensesRange: { min: pass1.estimatedMonthlyExpensesMin, max: pass1.estimatedMonthlyExpensesMax },
+      simulation: scoring.simulation,
+    },
+    competitionAnalysis: {
+      directCompetitors: pass1.directCompetitors,
+      indirectCompetitors: pass1.indirectCompetitors,
+      competitiveAdvantage: (aiExplanations.competitiveAdvantage as string) || '',
+      threats: (aiExplanations.threats as string[]) || [],
+      opportunities: (aiExplanations.opportunities as string[]) || [],
+      explanation: (aiExplanations.competitionExplanation as string) || '',
+    },
+    roadmap: {
+      phases: (aiExplanations.roadmapPhases as unknown[]) || [],
+      explanation: (aiExplanations.roadmapExplanation as string) || '',
+    },
+    risks: (aiExplanations.risks as unknown[]) || [],
+    recommendations: (aiExplanations.recommendations as string[]) || [],
+    expertInsights: (aiExplanations.expertInsights as string) || '',
+    dataQuality,
+    // Scoring inputs, so the analysis can be re-scored (rescore-analysis) without calling the LLM again
+    input,
+    pass1,
+  };
+}
+
+export type AnalysisPayload = ReturnType<typeof assembleAnalysis>;
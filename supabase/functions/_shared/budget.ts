@@ -0,0 +1,219 @@
+// ============================================
+// BUDGET PARSING
+// ============================================
+// Turns free-text budgets ("10-15 lakh", "$20k", "8L own + 12L loan") into a structured
+// range in the analysis currency (INR unless the location is abroad). Shared by Pass 2,
+// rescore-analysis and the chat form's live preview.
+
+export interface ParsedBudget {
+  raw: string;
+  recognized: boolean;      // false when nothing usable was found and the default was assumed
+  baseCurrency: string;     // currency of the analysis; every amount below is in it
+  currency: string;         // currency the user wrote in (baseCurrency when none was written)
+  exchangeRate: number;     // units of baseCurrency per unit of `currency`
+  min: number;
+  max: number;
+  ownFunds: number | null;  // when the text splits own money from borrowed money
+  debt: number | null;
+}
+
+export const DEFAULT_BUDGET_INR = 500000;
+
+// INR per unit; override per deployment with BUDGET_EXCHANGE_RATES='{"USD":84.1}'
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  INR: 1,
+  USD: 83,
+  EUR: 90,
+  GBP: 105,
+  AED: 22.6,
+  SGD: 62,
+  SAR: 22.1,
+  CAD: 61,
+  AUD: 55,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  INR: '₹',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  SGD: 'S$',
+  CAD: 'C$',
+  AUD: 'A$',
+};
+
+// A bare "$" or "dollars" means the local dollar in these countries, not USD
+const LOCAL_DOLLARS = new Set(['SGD', 'CAD', 'AUD']);
+const EXPLICIT_USD = /us\$|\busd\b|\bus dollars?\b/;
+
+export function loadExchangeRates(env: (key: string) => string | undefined): Record<string, number> {
+  const raw = env('BUDGET_EXCHANGE_RATES');
+  if (!raw) return DEFAULT_EXCHANGE_RATES;
+  try {
+    const overrides = JSON.parse(raw) as Record<string, unknown>;
+    const rates = { ...DEFAULT_EXCHANGE_RATES };
+    for (const [code, rate] of Object.entries(overrides)) {
+      if (typeof rate === 'number' && rate > 0) rates[code.toUpperCase()] = rate;
+    }
+    return rates;
+  } catch {
+    console.warn('BUDGET_EXCHANGE_RATES is not valid JSON, using defaults');
+    return DEFAULT_EXCHANGE_RATES;
+  }
+}
+
+const CURRENCY_PATTERNS: Array<[string, RegExp]> = [
+  ['SGD', /\bs\$|\bsgd\b|singapore dollars?/],
+  ['CAD', /\bc\$|\bcad\b|canadian dollars?/],
+  ['AUD', /\ba\$|\baud\b|australian dollars?/],
+  ['SAR', /\bsar\b|riyals?/],
+  ['AED', /\baed\b|dirhams?|\bdhs?\b/],
+  ['USD', /\$|\busd\b|\bdollars?\b/],
+  ['EUR', /€|\beur\b|\beuros?\b/],
+  ['GBP', /£|\bgbp\b|\bpounds?\b/],
+  ['INR', /₹|\brs\.?|\binr\b|\brupees?\b/],
+];
+
+const MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(crores?|cr)$/, 10000000],
+  [/^(lakhs?|lacs?|l)$/, 100000],
+  [/^(k|thousand)$/, 1000],
+  [/^(m|mn|million)$/, 1000000],
+  [/^(b|bn|billion)$/, 1000000000],
+];
+
+const OWN_FUNDS = /\b(own|self|savings?|personal|equity|family|investors?|mine)\b/;
+const DEBT = /\b(loans?|debt|bank|borrow(ed|ing)?|credit|mudra|emi|financ(e|ed|ing))\b/;
+
+const AMOUNT = String.raw`(\d+(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|lac|l|k|thousand|mn|million|m|bn|billion|b)?\b`;
+const RANGE = new RegExp(`${AMOUNT}\\s*(?:-|to|and)\\s*(?:rs\\.?|₹|\\$|€|£)?\\s*${AMOUNT}`);
+const SINGLE = new RegExp(AMOUNT);
+
+function multiplierFor(suffix: string | undefined): number | null {
+  if (!suffix) return null;
+  const match = MULTIPLIERS.find(([pattern]) => pattern.test(suffix));
+  return match ? match[1] : null;
+}
+
+function detectCurrency(text: string, baseCurrency: string): string {
+  const match = CURRENCY_PATTERNS.find(([, pattern]) => pattern.test(text));
+  if (!match) return baseCurrency;
+  if (match[0] === 'USD' && LOCAL_DOLLARS.has(baseCurrency) && !EXPLICIT_USD.test(text)) return baseCurrency;
+  return match[0];
+}
+
+/** Amount or range in the written currency; a suffix on the second number applies to both ("10-15 lakh"). */
+function parseAmount(text: string): { min: number; max: number } | null {
+  const range = text.match(RANGE);
+  if (range) {
+    const second = multiplierFor(range[4]) ?? 1;
+    const first = multiplierFor(range[2]) ?? second;
+    const a = parseFloat(range[1]) * first;
+    const b = parseFloat(range[3]) * second;
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  const single = text.match(SINGLE);
+  if (!single) return null;
+  const value = parseFloat(single[1]) * (multiplierFor(single[2]) ?? 1);
+  return { min: value, max: value };
+}
+
+/** The default budget (₹5L) expressed in another currency. */
+export function defaultBudget(baseCurrency: string, rates: Record<string, number> = DEFAULT_EXCHANGE_RATES): number {
+  return Math.round(DEFAULT_BUDGET_INR / (rates[baseCurrency] ?? 1));
+}
+
+function unrecognized(raw: string, baseCurrency: string, rates: Record<string, number>): ParsedBudget {
+  const amount = defaultBudget(baseCurrency, rates);
+  return { raw, recognized: false, baseCurrency, currency: baseCurrency, exchangeRate: 1, min: amount, max: amount, ownFunds: null, debt: null };
+}
+
+export function parseBudget(raw: string, rates: Record<string, number> = DEFAULT_EXCHANGE_RATES, baseCurrency = 'INR'): ParsedBudget {
+  const text = (raw || '')
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/(\d),(?=\d)/g, '$1');
+  if (!text.trim() || text.trim() === 'not specified') return unrecognized(raw, baseCurrency, rates);
+
+  const currency = detectCurrency(text, baseCurrency);
+  const exchangeRate = currency === baseCurrency ? 1 : (rates[currency] ?? 1) / (rates[baseCurrency] ?? 1);
+
+  // Funding split: "8L own + 12L loan", "5 lakh savings and 10 lakh bank loan"
+  const segments = text.split(/\s*(?:\+|&|\band\b|,)\s*/).filter((s) => /\d/.test(s));
+  const labelled = segments.length > 1 && segments.some((s) => OWN_FUNDS.test(s) || DEBT.test(s));
+  if (labelled) {
+    let own = 0;
+    let debt = 0;
+    for (const segment of segments) {
+      const amount = parseAmount(segment);
+      if (!amount) continue;
+      const value = ((amount.min + amount.max) / 2) * exchangeRate;
+      if (DEBT.test(segment)) debt += value;
+      else own += value;
+    }
+    const total = own + debt;
+    if (total > 0) {
+      return { raw, recognized: true, baseCurrency, currency, exchangeRate, min: Math.round(total), max: Math.round(total), ownFunds: Math.round(own), debt: Math.round(debt) };
+    }
+  }
+
+  const amount = parseAmount(text);
+  if (!amount || amount.max <= 0) return unrecognized(raw, baseCurrency, rates);
+
+  // A single labelled amount still tells us where the money comes from
+  const total = ((amount.min + amount.max) / 2) * exchangeRate;
+  const isDebt = DEBT.test(text) && !OWN_FUNDS.test(text);
+  return {
+    raw,
+    recognized: true,
+    baseCurrency,
+    currency,
+    exchangeRate,
+    min: Math.round(amount.min * exchangeRate),
+    max: Math.round(amount.max * exchangeRate),
+    ownFunds: isDebt ? 0 : OWN_FUNDS.test(text) ? Math.round(total) : null,
+    debt: isDebt ? Math.round(total) : null,
+  };
+}
+
+/** Single figure Pass 2 scores against: the middle of the range. */
+export function budgetAmount(budget: ParsedBudget): number {
+  return (budget.min + budget.max) / 2;
+}
+
+export function currencySymbol(currency: string): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+}
+
+export function formatINR(value: number): string {
+  if (value < 0) return `-${formatINR(-value)}`;
+  if (value >= 10000000) return `₹${+(value / 10000000).toFixed(2)}Cr`;
+  if (value >= 100000) return `₹${+(value / 100000).toFixed(2)}L`;
+  if (value >= 1000) return `₹${+(value / 1000).toFixed(1)}K`;
+  return `₹${Math.round(value)}`;
+}
+
+/** Compact amount: lakh/crore for INR, K/M/B elsewhere ("₹12.5L", "AED 45K", "S$1.2M"). */
+export function formatMoney(value: number, currency = 'INR'): string {
+  if (currency === 'INR') return formatINR(value);
+  if (value < 0) return `-${formatMoney(-value, currency)}`;
+  const symbol = currencySymbol(currency);
+  if (value >= 1e9) return `${symbol}${+(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${symbol}${+(value / 1e6).toFixed(2)}M`;
+  if (value >= 1000) return `${symbol}${+(value / 1000).toFixed(1)}K`;
+  return `${symbol}${Math.round(value)}`;
+}
+
+/** Human-readable read-back, e.g. "₹10L – ₹15L" or "₹20L (own ₹8L + loan ₹12L), from USD at 83". */
+export function describeBudget(budget: ParsedBudget): string {
+  const format = (value: number) => formatMoney(value, budget.baseCurrency);
+  if (!budget.recognized) return `not recognised, assuming ${format(budget.min)}`;
+  let text = budget.min === budget.max ? format(budget.min) : `${format(budget.min)} – ${format(budget.max)}`;
+  if (budget.ownFunds !== null && budget.debt !== null && budget.ownFunds > 0 && budget.debt > 0) {
+    text += ` (own ${format(budget.ownFunds)} + loan ${format(budget.debt)})`;
+  } else if (budget.debt) {
+    text += ' (all borrowed)';
+  }
+  if (budget.currency !== budget.baseCurrency) text += `, from ${budget.currency} at ${+budget.exchangeRate.toFixed(4)}`;
+  return text;
+}
@@ -0,0 +1,141 @@
+// ============================================
+// CITY DEMOGRAPHICS
+// ============================================
+// City- and neighbourhood-level context for Pass 1 from city_demographics and
+// neighbourhood_profiles. Matching runs in Postgres (match_city: edit distance over
+// city_aliases); this module picks the phrases to try and turns the matched row into
+// prompt text and the structured profile shown in MarketTab.
+
+import { formatINR } from './budget.ts';
+
+/** Row returned by the match_city RPC. */
+export interface CityMatchRow {
+  city_id: string;
+  name: string;
+  district: string | null;
+  state: string;
+  tier: string;
+  population_2011: number;
+  metro_population_2011: number | null;
+  growth_rate: number;
+  literacy_rate: number | null;
+  avg_household_income_inr: number | null;
+  matched_alias: string;
+  alias_kind: 'name' | 'neighbourhood';
+  query: string;
+  distance: number;
+  // Set when the match is a neighbourhood with a profile
+  neighbourhood_name: string | null;
+  commercial_rent_min_per_sqft: number | null;
+  commercial_rent_max_per_sqft: number | null;
+  footfall_index: number | null;
+  income_band: string | null;
+  customer_segments: string[] | null;
+}
+
+export interface NeighbourhoodProfile {
+  name: string;
+  rentPerSqft: { min: number; max: number };  // INR per month
+  footfallIndex: number;                       // 0-100
+  incomeBand: string;
+  customerSegments: string[];
+}
+
+/** Structured location context carried on the analysis for MarketTab. */
+export interface LocationProfile {
+  city: string;
+  district: string | null;
+  state: string;
+  tier: string;
+  neighbourhood: NeighbourhoodProfile | null;
+}
+
+const PROJECTION_YEAR = 2025;
+const CENSUS_YEAR = 2011;
+const MAX_PHRASE_WORDS = 3;
+const MAX_CANDIDATES = 50;
+
+// Never useful as a one-word city name on their own
+const IGNORED_WORDS = new Set(['india', 'near', 'road', 'city', 'area', 'sector', 'the', 'and', 'east', 'west', 'north', 'south']);
+
+/**
+ * Phrases worth looking up from a free-text location: every 1-3 word run inside each
+ * comma-separated part, longest first. "HSR Layout, Bangalore 560102" gives
+ * ["hsr layout", "hsr", "layout", "bangalore"].
+ */
+export function cityCandidates(location: string): string[] {
+  const text = location.toLowerCase().replace(/[^\p{L}\s,]/gu, ' ');
+  const candidates = new Set<string>();
+  for (const part of text.split(',')) {
+    const words = part.split(/\s+/).filter(Boolean);
+    for (let size = Math.min(MAX_PHRASE_WORDS, words.length); size >= 1; size--) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const phrase = words.slice(i, i + size).join(' ');
+        if (size === 1 && (phrase.length < 3 || IGNORED_WORDS.has(phrase))) continue;
+        candidates.add(phrase);
+      }
+    }
+  }
+  return [...candidates].slice(0, MAX_CANDIDATES);
+}
+
+export function toLocationProfile(match: CityMatchRow): LocationProfile {
+  const hasProfile = match.neighbourhood_name !== null && match.commercial_rent_min_per_sqft !== null;
+  return {
+    city: match.name,
+    district: match.district,
+    state: match.state,
+    tier: match.tier,
+    neighbourhood: hasProfile
+      ? {
+          name: match.neighbourhood_name as string,
+          rentPerSqft: { min: Number(match.commercial_rent_min_per_sqft), max: Number(match.commercial_rent_max_per_sqft) },
+          footfallIndex: Number(match.footfall_index),
+          incomeBand: match.income_band ?? 'unknown',
+          customerSegments: match.customer_segments ?? [],
+        }
+      : null,
+  };
+}
+
+function formatNeighbourhood(profile: NeighbourhoodProfile): string {
+  let info = `\n--- Neighbourhood Profile: ${profile.name} ---\n`;
+  info += `Typical Commercial Rent: ₹${profile.rentPerSqft.min}-${profile.rentPerSqft.max} per sq ft per month\n`;
+  info += `Footfall / Commercial Density Index: ${profile.footfallIndex}/100\n`;
+  info += `Income Band: ${profile.incomeBand}\n`;
+  if (profile.customerSegments.length > 0) info += `Dominant Customer Segments: ${profile.customerSegments.join(', ')}\n`;
+  info += `Use this rent range for the premises in setup and monthly expense estimates, and the segments when judging local demand.\n`;
+  return info;
+}
+
+function project(population: number, growthRate: number): number {
+  return Math.round(population * Math.pow(1 + growthRate / 100, PROJECTION_YEAR - CENSUS_YEAR));
+}
+
+export function formatCityDemographics(match: CityMatchRow, location: string): string {
+  const growthRate = Number(match.growth_rate);
+  const population = Number(match.population_2011);
+  const metro = match.metro_population_2011 !== null ? Number(match.metro_population_2011) : null;
+
+  let info = `\n--- City-Level Demographics (Census + Projections) ---\n`;
+  info += `City: ${match.name}\n`;
+  if (match.alias_kind === 'neighbourhood') {
+    info += `Neighbourhood: ${match.neighbourhood_name ?? location} (population figures below are for ${match.name} as a whole)\n`;
+  } else if (match.distance > 0) {
+    info += `Matched "${match.query}" to ${match.name}\n`;
+  }
+  if (match.district) info += `District: ${match.district}\n`;
+  info += `State: ${match.state}\n`;
+  info += `Tier: ${match.tier}\n`;
+  info += `Census ${CENSUS_YEAR} City Population: ${population.toLocaleString()}\n`;
+  if (metro !== null) info += `Census ${CENSUS_YEAR} Metro Population: ${metro.toLocaleString()}\n`;
+  info += `Projected ${PROJECTION_YEAR} City Population: ~${(project(population, growthRate) / 1e6).toFixed(1)} million\n`;
+  if (metro !== null) info += `Projected ${PROJECTION_YEAR} Metro Population: ~${(project(metro, growthRate) / 1e6).toFixed(1)} million\n`;
+  info += `Annual Growth Rate: ${growthRate}%\n`;
+  if (match.literacy_rate !== null) info += `Literacy Rate: ${Number(match.literacy_rate)}%\n`;
+  if (match.avg_household_income_inr !== null) info += `Average Household Income: ${formatINR(Number(match.avg_household_income_inr))}/year\n`;
+
+  const { neighbourhood } = toLocationProfile(match);
+  if (neighbourhood) info += formatNeighbourhood(neighbourhood);
+  return info;
+}
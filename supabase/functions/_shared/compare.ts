@@ -0,0 +1,115 @@
+// ============================================
+// MULTI-LOCATION COMPARISON
+// ============================================
+// One idea and budget run against several candidate locations. Each location gets its own
+// Pass 1 → 3, so factor lists can differ between them; the comparison lines factors up by
+// name and leaves a gap where a location's analysis did not discover one.
+
+export const MAX_COMPARE_LOCATIONS = 4;
+
+/** The parts of an assembled analysis the comparison reads. */
+export interface ComparableAnalysis {
+  score: number;
+  verdict: string;
+  dynamicFactors?: { name: string; weight: number; score: number }[];
+  financialProjection: { breakEvenMonths: number; roi: number };
+  competitionAnalysis: { directCompetitors: number; indirectCompetitors: number };
+}
+
+export interface ComparisonEntry<T extends ComparableAnalysis> {
+  location: string;
+  analysis: T | null;  // null when this location's run failed
+  error?: string;
+}
+
+export interface ComparedLocation<T extends ComparableAnalysis> {
+  location: string;
+  rank: number | null;  // by score; null for failed locations
+  score: number | null;
+  verdict: string | null;
+  breakEvenMonths: number | null;
+  roi: number | null;
+  directCompetitors: number | null;
+  indirectCompetitors: number | null;
+  factorScores: Record<string, number>;  // keyed by the names in LocationComparison.factorNames
+  error: string | null;
+  analysis: T | null;
+}
+
+export interface LocationComparison<T extends ComparableAnalysis> {
+  locations: ComparedLocation<T>[];
+  factorNames: string[];  // every factor seen, most heavily weighted overall first
+}
+
+/** Trimmed locations with case-insensitive duplicates and blanks removed, in input order. */
+export function normalizeLocations(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const locations: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const location = value.trim();
+    if (!location || seen.has(location.toLowerCase())) continue;
+    seen.add(location.toLowerCase());
+    locations.push(location);
+  }
+  return locations;
+}
+
+const factorKey = (name: string) => name.trim().toLowerCase();
+
+/** Ranks locations by score (ties keep input order) and aligns their factor scores by name. */
+export function rankComparison<T extends ComparableAnalysis>(entries: ComparisonEntry<T>[]): LocationComparison<T> {
+  // First spelling seen wins, so "Foot traffic" and "foot traffic" share a row
+  const displayNames = new Map<string, string>();
+  const totalWeight = new Map<string, number>();
+  for (const { analysis } of entries) {
+    for (const factor of analysis?.dynamicFactors ?? []) {
+      const key = factorKey(factor.name);
+      if (!displayNames.has(key)) displayNames.set(key, factor.name.trim());
+      totalWeight.set(key, (totalWeight.get(key) ?? 0) + factor.weight);
+    }
+  }
+  const factorNames = [...displayNames.keys()]
+    .sort((a, b) => (totalWeight.get(b) ?? 0) - (totalWeight.get(a) ?? 0))
+    .map((key) => displayNames.get(key) as string);
+
+  const locations: ComparedLocation<T>[] = entries.map(({ location, analysis, error }) => ({
+    location,
+    rank: null,
+    score: analysis?.score ?? null,
+    verdict: analysis?.verdict ?? null,
+    breakEvenMonths: analysis?.financialProjection.breakEvenMonths ?? null,
+    roi: analysis?.financialProjection.roi ?? null,
+    directCompetitors: analysis?.competitionAnalysis.directCompetitors ?? null,
+    indirectCompetitors: analysis?.competitionAnalysis.indirectCompetitors ?? null,
+    factorScores: Object.fromEntries((analysis?.dynamicFactors ?? []).map((factor) => [displayNames.get(factorKey(factor.name)), factor.score])),
+    error: analysis ? null : error ?? 'Analysis failed',
+    analysis,
+  }));
+
+  const ranked = locations
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => (a.entry.score === null ? 1 : 0) - (b.entry.score === null ? 1 : 0)
+      || (b.entry.score ?? 0) - (a.entry.score ?? 0)
+      || a.index - b.index)
+    .map(({ entry }) => entry);
+  ranked.forEach((entry, index) => {
+    if (entry.score !== null) entry.rank = index + 1;
+  });
+  return { locations: ranked, factorNames };
+}
+
+/** Runs `task` over `items` with at most `limit` in flight; results keep the input order. */
+export async function mapWithConcurrency<I, O>(items: I[], limit: number, task: (item: I, index: number) => Promise<O>): Promise<O[]> {
+  const results = new Array<O>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
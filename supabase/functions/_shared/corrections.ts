@@ -0,0 +1,97 @@
+// ============================================
+// USER CORRECTIONS
+// ============================================
+// "Rent is ₹80k/month", "there are 3 gyms within 1 km": the user fixes what Pass 1 guessed.
+// The model only turns the message into structured overrides (the What If overrides plus
+// corrected market data points); applying them is deterministic, and Pass 2 and Pass 3
+// re-run on the corrected data as a revision of the original analysis.
+
+import { z } from 'zod';
+import { rescoreOverridesSchema, applyOverrides } from './rescore.ts';
+import { formatMoney } from './budget.ts';
+import type { Pass1Result } from './scoring.ts';
+import type { StructuredResult } from './llm.ts';
+
+export const MAX_CORRECTION_LENGTH = 1000;
+
+const marketDataCorrectionSchema = z.object({
+  metric: z.string().min(1),  // an existing metric's name to replace it, or a new one to add
+  value: z.number(),
+  unit: z.string(),
+});
+
+export const correctionsSchema = z.object({
+  overrides: rescoreOverridesSchema,
+  marketData: z.array(marketDataCorrectionSchema).max(10).default([]),
+  // Parts of the message that did not map onto any estimate, reported back to the user
+  unmatched: z.array(z.string()).default([]),
+});
+
+export type Corrections = z.infer<typeof correctionsSchema>;
+
+/**
+ * The corrections a structured pass returned, as parsed by the schema: the pass hands back
+ * the raw JSON, so defaults such as an empty marketData only exist after this parse.
+ */
+export function correctionsFromResult(result: StructuredResult): Corrections {
+  const parsed = result.valid ? correctionsSchema.safeParse(result.value) : null;
+  if (!parsed?.success) throw new Error('INVALID_MODEL_OUTPUT');
+  return parsed.data;
+}
+
+export function hasCorrections(corrections: Corrections): boolean {
+  return Object.keys(corrections.overrides).length > 0 || corrections.marketData.length > 0;
+}
+
+const metricKey = (metric: string) => metric.trim().toLowerCase();
+
+/** Pass 1 with the overrides applied; corrected data points replace same-named ones or are added. */
+export function applyCorrections(pass1: Pass1Result, corrections: Corrections): Pass1Result {
+  const corrected = applyOverrides(pass1, corrections.overrides);
+  const marketData = [...corrected.marketData];
+  for (const { metric, value, unit } of corrections.marketData) {
+    const point = { metric: metric.trim(), minValue: value, maxValue: value, estimatedValue: value, unit, source: 'User correction', sourceIds: [], confidence: 'high' as const };
+    const index = marketData.findIndex((existing) => metricKey(existing.metric) === metricKey(metric));
+    if (index >= 0) marketData[index] = { ...point, metric: marketData[index].metric };
+    else marketData.push(point);
+  }
+  return { ...corrected, marketData };
+}
+
+/** One line per estimate that differs between the two, e.g. "Direct competitors: 14 → 3". */
+export function describeChanges(before: Pass1Result, after: Pass1Result, currency = 'INR'): string[] {
+  const money = (value: number) => formatMoney(value, currency);
+  const range = (min: number, max: number) => (min === max ? money(min) : `${money(min)} - ${money(max)}`);
+  const changes: string[] = [];
+
+  const ranges = [
+    ['Setup cost', 'estimatedSetupCostMin', 'estimatedSetupCostMax'],
+    ['Monthly revenue', 'estimatedMonthlyRevenueMin', 'estimatedMonthlyRevenueMax'],
+    ['Monthly expenses', 'estimatedMonthlyExpensesMin', 'estimatedMonthlyExpensesMax'],
+  ] as const;
+  for (const [label, minKey, maxKey] of ranges) {
+    if (before[minKey] !== after[minKey] || before[maxKey] !== after[maxKey]) {
+      changes.push(`${label}: ${range(before[minKey], before[maxKey])} → ${range(after[minKey], after[maxKey])}`);
+    }
+  }
+  if (before.directCompetitors !== after.directCompetitors) changes.push(`Direct competitors: ${before.directCompetitors} → ${after.directCompetitors}`);
+  if (before.indirectCompetitors !== after.indirectCompetitors) changes.push(`Indirect competitors: ${before.indirectCompetitors} → ${after.indirectCompetitors}`);
+  if (before.avgProfitMargin !== after.avgProfitMargin) {
+    changes.push(`Average profit margin: ${Math.round(before.avgProfitMargin * 100)}% → ${Math.round(after.avgProfitMargin * 100)}%`);
+  }
+
+  for (const factor of after.factors) {
+    const previous = before.factors.find((f) => f.name === factor.name);
+    if (previous && previous.score !== factor.score) changes.push(`${factor.name} score: ${previous.score} → ${factor.score}`);
+  }
+
+  const formatPoint = (value: number, unit: string) => (unit.toUpperCase().includes(currency) ? money(value) : `${value} ${unit}`.trim());
+  for (const point of after.marketData) {
+    const previous = before.marketData.find((p) => metricKey(p.metric) === metricKey(point.metric));
+    if (!previous) changes.push(`${point.metric}: ${formatPoint(point.estimatedValue, point.unit)} (added)`);
+    else if (previous.estimatedValue !== point.estimatedValue) {
+      changes.push(`${point.metric}: ${formatPoint(previous.estimatedValue, previous.unit)} → ${formatPoint(point.estimatedValue, point.unit)}`);
+    }
+  }
+  return changes;
+}
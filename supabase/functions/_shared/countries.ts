@@ -0,0 +1,198 @@
+// ============================================
+// COUNTRY RESOLUTION
+// ============================================
+// Maps a free-text location to the country whose data, currency and regulations the
+// analysis should use. India is the default: most locations are Indian towns that no
+// fixed list could cover, and those are resolved further by the city tables. A location
+// that names a country outside the list is refused instead of defaulting to India.
+
+export interface CountryProfile {
+  code: string;               // ISO 3166-1 alpha-2
+  iso3: string;               // World Bank country code
+  name: string;
+  currency: string;           // ISO 4217; must be in the budget exchange-rate table
+  locale: string;             // number formatting in prompts
+  regulatoryContext: string;  // what a new small business typically has to register for
+  places: string[];           // lowercase names that identify the country in a location
+}
+
+export const COUNTRIES: CountryProfile[] = [
+  {
+    code: 'IN',
+    iso3: 'IND',
+    name: 'India',
+    currency: 'INR',
+    locale: 'en-IN',
+    regulatoryContext: 'GST registration, Shops & Establishments licence, municipal trade licence, FSSAI licence for food businesses, state-specific rules',
+    // Major cities and states too, so the last part of "Dubai Main Road, Bangalore" decides
+    places: [
+      'india', 'bharat',
+      'mumbai', 'bombay', 'delhi', 'new delhi', 'bangalore', 'bengaluru', 'hyderabad', 'chennai', 'madras', 'kolkata', 'calcutta',
+      'pune', 'ahmedabad', 'surat', 'jaipur', 'lucknow', 'kanpur', 'nagpur', 'indore', 'bhopal', 'kochi', 'cochin', 'coimbatore',
+      'chandigarh', 'gurgaon', 'gurugram', 'noida', 'visakhapatnam', 'patna', 'vadodara', 'mysore', 'mysuru',
+      'maharashtra', 'karnataka', 'tamil nadu', 'kerala', 'telangana', 'andhra pradesh', 'gujarat', 'rajasthan', 'uttar pradesh',
+      'madhya pradesh', 'west bengal', 'bihar', 'odisha', 'punjab', 'haryana', 'goa', 'assam',
+    ],
+  },
+  {
+    code: 'AE',
+    iso3: 'ARE',
+    name: 'United Arab Emirates',
+    currency: 'AED',
+    locale: 'en-AE',
+    regulatoryContext: 'mainland trade licence from the emirate\'s economic department or a free-zone licence, 5% VAT, 9% corporate tax above AED 375,000 profit, Ejari-registered lease in Dubai, municipality food permits',
+    places: ['uae', 'united arab emirates', 'emirates', 'dubai', 'abu dhabi', 'sharjah', 'ajman', 'ras al khaimah', 'fujairah', 'al ain'],
+  },
+  {
+    code: 'SG',
+    iso3: 'SGP',
+    name: 'Singapore',
+    currency: 'SGD',
+    locale: 'en-SG',
+    regulatoryContext: 'ACRA business registration, GST registration above SGD 1 million turnover, SFA licence for food businesses, URA approval for change of use of premises',
+    places: ['singapore'],
+  },
+  {
+    code: 'US',
+    iso3: 'USA',
+    name: 'United States',
+    currency: 'USD',
+    locale: 'en-US',
+    regulatoryContext: 'state LLC or corporation filing, EIN, state sales tax permit, city business licence, county health permits for food businesses',
+    places: ['usa', 'united states', 'america', 'new york', 'new jersey', 'san francisco', 'los angeles', 'chicago', 'houston', 'dallas', 'austin', 'seattle', 'boston', 'new mexico'],
+  },
+  {
+    code: 'GB',
+    iso3: 'GBR',
+    name: 'United Kingdom',
+    currency: 'GBP',
+    locale: 'en-GB',
+    regulatoryContext: 'Companies House registration, VAT registration above £90,000 turnover, council business rates, local authority food business registration',
+    places: ['uk', 'united kingdom', 'england', 'scotland', 'wales', 'london', 'manchester', 'birmingham', 'leicester', 'edinburgh', 'glasgow'],
+  },
+  {
+    code: 'SA',
+    iso3: 'SAU',
+    name: 'Saudi Arabia',
+    currency: 'SAR',
+    locale: 'en-SA',
+    regulatoryContext: 'Commercial Registration, MISA investment licence for foreign owners, 15% VAT, municipal (Balady) licence',
+    places: ['saudi', 'saudi arabia', 'ksa', 'riyadh', 'jeddah', 'dammam', 'khobar'],
+  },
+  {
+    code: 'CA',
+    iso3: 'CAN',
+    name: 'Canada',
+    currency: 'CAD',
+    locale: 'en-CA',
+    regulatoryContext: 'federal or provincial incorporation, GST/HST registration above CAD 30,000 revenue, municipal business licence',
+    places: ['canada', 'toronto', 'vancouver', 'brampton', 'mississauga', 'surrey bc', 'calgary', 'edmonton', 'montreal', 'ottawa'],
+  },
+  {
+    code: 'AU',
+    iso3: 'AUS',
+    name: 'Australia',
+    currency: 'AUD',
+    locale: 'en-AU',
+    regulatoryContext: 'ABN registration, GST registration above AUD 75,000 turnover, council permits, state food business registration',
+    places: ['australia', 'sydney', 'melbourne', 'brisbane', 'perth', 'adelaide'],
+  },
+];
+
+export const DEFAULT_COUNTRY = COUNTRIES[0];
+
+// Countries with no currency, indicators or regulations here. Naming one must not fall back
+// to India, so such locations are refused (see unsupportedCountry). Keys are display names,
+// values the lowercase names and big cities that identify them.
+const UNSUPPORTED_COUNTRIES: Record<string, string[]> = {
+  'Bangladesh': ['bangladesh', 'dhaka', 'chittagong'],
+  'Pakistan': ['pakistan', 'karachi', 'lahore', 'islamabad'],
+  'Sri Lanka': ['sri lanka', 'colombo'],
+  'Nepal': ['nepal', 'kathmandu'],
+  'Qatar': ['qatar', 'doha'],
+  'Kuwait': ['kuwait'],
+  'Bahrain': ['bahrain', 'manama'],
+  'Oman': ['oman', 'muscat'],
+  'Egypt': ['egypt', 'cairo'],
+  'Turkey': ['turkey', 'turkiye', 'istanbul', 'ankara'],
+  'Malaysia': ['malaysia', 'kuala lumpur'],
+  'Indonesia': ['indonesia', 'jakarta'],
+  'Thailand': ['thailand', 'bangkok'],
+  'Vietnam': ['vietnam', 'hanoi', 'ho chi minh city'],
+  'Philippines': ['philippines', 'manila'],
+  'China': ['china', 'beijing', 'shanghai', 'shenzhen'],
+  'Hong Kong': ['hong kong'],
+  'Japan': ['japan', 'tokyo', 'osaka'],
+  'South Korea': ['south korea', 'korea', 'seoul'],
+  'France': ['france', 'paris', 'lyon', 'marseille'],
+  'Germany': ['germany', 'berlin', 'munich', 'frankfurt', 'hamburg'],
+  'Netherlands': ['netherlands', 'holland', 'amsterdam', 'rotterdam'],
+  'Ireland': ['ireland', 'dublin'],
+  'Spain': ['spain', 'madrid', 'barcelona'],
+  'Italy': ['italy', 'rome', 'milan'],
+  'Portugal': ['portugal', 'lisbon'],
+  'Switzerland': ['switzerland', 'zurich', 'geneva'],
+  'Sweden': ['sweden', 'stockholm'],
+  'Poland': ['poland', 'warsaw'],
+  'Russia': ['russia', 'moscow'],
+  'South Africa': ['south africa', 'johannesburg', 'cape town'],
+  'Nigeria': ['nigeria', 'lagos'],
+  'Kenya': ['kenya', 'nairobi'],
+  'New Zealand': ['new zealand', 'auckland'],
+  'Mexico': ['mexico'],
+  'Brazil': ['brazil', 'sao paulo', 'rio de janeiro'],
+  'Argentina': ['argentina', 'buenos aires'],
+};
+
+const normalizeLocation = (location: string) => ` ${(location || '').toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ')} `;
+
+const lastMention = (text: string, places: string[]) => Math.max(...places.map((place) => text.lastIndexOf(` ${place} `)));
+
+const locationParts = (location: string) => (location || '').split(/[,;]/).map((part) => part.trim()).filter(Boolean);
+
+/** The country mentioned closest to the end of one part of a location, or null. */
+function countryIn(part: string): CountryProfile | null {
+  const text = normalizeLocation(part);
+  let best: { country: CountryProfile; position: number } | null = null;
+  for (const country of COUNTRIES) {
+    const position = lastMention(text, country.places);
+    if (position >= 0 && (!best || position > best.position)) best = { country, position };
+  }
+  return best?.country ?? null;
+}
+
+/**
+ * Country named in the location, reading comma-separated parts from the last one back
+ * ("London, Ontario, Canada" is Canada; "Dubai Main Road, Bangalore" is India). Falls back
+ * to India; callers refuse locations that name an unsupported country first.
+ */
+export function resolveCountry(location: string): CountryProfile {
+  const parts = locationParts(location);
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const country = countryIn(parts[i]);
+    if (country) return country;
+  }
+  return DEFAULT_COUNTRY;
+}
+
+/**
+ * The unsupported country a location ends with ("Doha, Qatar", "Paris"), or null. Only the
+ * last comma-separated part counts, so a street like "China Bazaar Road, Chennai" stays in India.
+ */
+export function unsupportedCountry(location: string): string | null {
+  const parts = locationParts(location);
+  let text = normalizeLocation(parts[parts.length - 1] ?? '');
+  const supported = Math.max(...COUNTRIES.map((country) => lastMention(text, country.places)));
+  // A supported place can contain an unsupported name ("New Mexico")
+  for (const place of COUNTRIES.flatMap((country) => country.places)) text = text.split(` ${place} `).join(' '.repeat(place.length + 2));
+  let best: { name: string; position: number } | null = null;
+  for (const [name, places] of Object.entries(UNSUPPORTED_COUNTRIES)) {
+    const position = lastMention(text, places);
+    if (position > supported && (!best || position > best.position)) best = { name, position };
+  }
+  return best?.name ?? null;
+}
+
+export function unsupportedCountryMessage(name: string): string {
+  return `${name} is not supported yet. Analyses cover ${COUNTRIES.map((country) => country.name).join(', ')}.`;
+}
@@ -0,0 +1,145 @@
+// ============================================
+// FOLLOW-UP QUESTIONS
+// ============================================
+// Questions about one saved analysis ("why is break-even 18 months?", "what if I skip
+// delivery?"). The stored BusinessAnalysis is flattened into the system prompt so answers
+// stay grounded in the factors, estimates and projections the user is looking at, and
+// earlier turns from analysis_followups are replayed so the thread keeps its context.
+
+import { z } from 'zod';
+import { formatIssues } from './schemas.ts';
+import { formatMoney } from './budget.ts';
+import type { LLMMessage } from './llm.ts';
+import type { Pass1Result } from './scoring.ts';
+
+export const MAX_QUESTION_LENGTH = 1000;
+export const HISTORY_LIMIT = 12;  // earlier messages sent along with each question
+
+export interface FollowupMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** The parts of a stored analysis the context reads; older analyses lack the optional ones. */
+export interface FollowupAnalysis {
+  verdict: string;
+  score: number;
+  summary: string;
+  input?: { businessIdea: string; location: string; budget: string };
+  country?: { name: string; currency: string };
+  dynamicFactors?: { name: string; weight: number; score: number; reasoning: string }[];
+  scoreBreakdown?: { base: number; contributions: { feature: string; contribution: number }[] };
+  pass1?: Pass1Result;
+  marketAnalysis: { size: string; growth: string; competition: string };
+  financialProjection: {
+    breakEvenMonths: number;
+    roi: number;
+    yearlyData: { year: number; revenue: number; expenses: number; profit: number }[];
+    simulation?: { breakEvenMonths: { p10: number; p50: number; p90: number }; noBreakEvenProbability: number };
+  };
+  competitionAnalysis: { directCompetitors: number; indirectCompetitors: number; threats: string[]; opportunities: string[] };
+  risks: { risk: string; severity: string; mitigation: string }[];
+  recommendations: string[];
+}
+
+const followupRequestSchema = z.object({
+  analysisId: z.string().uuid(),
+  question: z.string().trim().min(2).max(MAX_QUESTION_LENGTH),
+});
+
+export type FollowupRequest = z.infer<typeof followupRequestSchema>;
+
+export function parseFollowupRequest(body: unknown): { data?: FollowupRequest; issues?: string[] } {
+  const parsed = followupRequestSchema.safeParse(body);
+  if (!parsed.success) return { issues: formatIssues(parsed.error) };
+  return { data: parsed.data as FollowupRequest };
+}
+
+const bullets = (lines: string[]) => (lines.length > 0 ? lines.map((line) => `- ${line}`).join('\n') : '- (none)');
+
+/** Plain-text dump of the analysis, in the currency it was scored in. */
+export function formatAnalysisContext(analysis: FollowupAnalysis): string {
+  const money = (value: number) => formatMoney(value, analysis.country?.currency ?? 'INR');
+  const range = (min: number, max: number) => `${money(min)} - ${money(max)}`;
+  const { financialProjection: projection, competitionAnalysis: competition, pass1 } = analysis;
+  const sections: string[] = [];
+
+  if (analysis.input) {
+    sections.push(`Business idea: ${analysis.input.businessIdea}
+Location: ${analysis.input.location}${analysis.country ? ` (${analysis.country.name})` : ''}
+Budget: ${analysis.input.budget}`);
+  }
+  sections.push(`Verdict: ${analysis.verdict}, score ${analysis.score}/100
+Summary: ${analysis.summary}`);
+
+  if (analysis.dynamicFactors?.length) {
+    sections.push(`Scoring factors (weight, score out of 100):
+${bullets(analysis.dynamicFactors.map((f) => `${f.name}: weight ${f.weight}, score ${f.score}. ${f.reasoning}`))}`);
+  }
+  if (analysis.scoreBreakdown) {
+    const drivers = [...analysis.scoreBreakdown.contributions].sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    sections.push(`Score drivers (points added to a base of ${analysis.scoreBreakdown.base}):
+${bullets(drivers.map((d) => `${d.feature}: ${d.contribution >= 0 ? '+' : ''}${Math.round(d.contribution * 10) / 10}`))}`);
+  }
+  if (pass1) {
+    sections.push(`Estimates:
+${bullets([
+      `Setup cost: ${range(pass1.estimatedSetupCostMin, pass1.estimatedSetupCostMax)}`,
+      `Monthly revenue: ${range(pass1.estimatedMonthlyRevenueMin, pass1.estimatedMonthlyRevenueMax)}`,
+      `Monthly expenses: ${range(pass1.estimatedMonthlyExpensesMin, pass1.estimatedMonthlyExpensesMax)}`,
+      `Average profit margin: ${Math.round(pass1.avgProfitMargin * 100)}%`,
+    ])}`);
+    if (pass1.marketData.length > 0) {
+      sections.push(`Market data:
+${bullets(pass1.marketData.map((d) => `${d.metric}: ${d.minValue} - ${d.maxValue} ${d.unit} (estimate ${d.estimatedValue}, ${d.confidence} confidence, ${d.source})`))}`);
+    }
+  }
+  sections.push(`Market: size ${analysis.marketAnalysis.size}, growth ${analysis.marketAnalysis.growth}, competition ${analysis.marketAnalysis.competition}
+Competitors: ${competition.directCompetitors} direct, ${competition.indirectCompetitors} indirect
+Threats:
+${bullets(competition.threats)}
+Opportunities:
+${bullets(competition.opportunities)}`);
+
+  const simulation = projection.simulation
+    ? `\nSimulated break-even: ${projection.simulation.breakEvenMonths.p10}-${projection.simulation.breakEvenMonths.p90} months (median ${projection.simulation.breakEvenMonths.p50}); ${Math.round(projection.simulation.noBreakEvenProbability * 100)}% of runs never break even`
+    : '';
+  sections.push(`Financial projection: break-even in ${projection.breakEvenMonths} months, ROI ${projection.roi}%${simulation}
+Yearly:
+${bullets(projection.yearlyData.map((y) => `${y.year}: revenue ${money(y.revenue)}, expenses ${money(y.expenses)}, profit ${money(y.profit)}`))}`);
+
+  sections.push(`Risks:
+${bullets(analysis.risks.map((r) => `${r.risk} (${r.severity}): ${r.mitigation}`))}
+Recommendations:
+${bullets(analysis.recommendations)}`);
+
+  return sections.join('\n\n');
+}
+
+function systemPrompt(analysis: FollowupAnalysis): string {
+  return `You are the business analyst who wrote the feasibility analysis below. The user is asking follow-up questions about it.
+
+Answer from the analysis. Quote its numbers, factors and estimates, and say plainly when something is not in it instead of inventing figures. When the user asks "what if" (dropping a service, a different budget, more competitors), reason about which estimates and factors would move and in which direction; for exact re-scored numbers, point them to the What If panel on the Dashboard. If the message is a different business idea rather than a question about this one, tell them to switch the chat to "New idea".
+
+How the numbers were produced:
+- The score (0-100) comes from a gradient-boosted model over the factor scores, budget versus setup cost, competition, market growth, profit margin and revenue versus expenses; the score drivers list what moved it.
+- Break-even months = midpoint setup cost / (midpoint monthly revenue x (0.6 + score/100 x 0.8) - midpoint monthly expenses).
+- ROI = that adjusted monthly profit x 12 / budget.
+
+Keep answers short (a few sentences or a short list) and use the analysis currency.
+
+ANALYSIS
+${formatAnalysisContext(analysis)}`;
+}
+
+/** System prompt with the analysis, the most recent earlier turns, then the new question. */
+export function buildFollowupMessages(analysis: FollowupAnalysis, history: FollowupMessage[], question: string): LLMMessage[] {
+  let recent = history.slice(-HISTORY_LIMIT);
+  // Start on a question so the model never sees an answer without what it answered
+  while (recent.length > 0 && recent[0].role !== 'user') recent = recent.slice(1);
+  return [
+    { role: 'system', content: systemPrompt(analysis) },
+    ...recent.map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: question },
+  ];
+}
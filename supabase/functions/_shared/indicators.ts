@@ -0,0 +1,124 @@
+// ============================================
+// NATIONAL INDICATORS (World Bank)
+// ============================================
+// Population, urban share and GDP per capita for the resolved country. They change once
+// a year, so they are read from country_indicators (filled by the refresh-indicators
+// function) rather than fetched per analysis. The live API is only called for a country
+// the table has not seen yet, and the bundled snapshot below covers the case where the
+// API is unreachable too.
+
+import type { CountryProfile } from './countries.ts';
+
+export const INDICATORS = {
+  population: 'SP.POP.TOTL',
+  urbanShare: 'SP.URB.TOTL.IN.ZS',
+  gdpPerCapita: 'NY.GDP.PCAP.CD',
+} as const;
+
+export type IndicatorKey = keyof typeof INDICATORS;
+
+/** One row of country_indicators. */
+export interface IndicatorRow {
+  country_code: string;  // ISO3, as the World Bank uses
+  indicator: string;
+  year: number;
+  value: number;
+}
+
+export type IndicatorOrigin = 'table' | 'api' | 'snapshot';
+
+const WORLD_BANK_API = 'https://api.worldbank.org/v2';
+// Population growth needs two consecutive years; a few more cover late publication
+const YEARS_BACK = 5;
+
+export function worldBankUrl(iso3: string, indicator: string, now = new Date()): string {
+  const year = now.getFullYear();
+  return `${WORLD_BANK_API}/country/${iso3}/indicator/${indicator}?format=json&date=${year - YEARS_BACK}:${year}&per_page=${YEARS_BACK + 1}`;
+}
+
+interface WorldBankObservation {
+  countryiso3code?: string;
+  date?: string;
+  value?: number | null;
+}
+
+/** Rows from a World Bank indicator response; years without a value are skipped. */
+export function parseWorldBankResponse(body: unknown, iso3: string, indicator: string): IndicatorRow[] {
+  if (!Array.isArray(body) || !Array.isArray(body[1])) return [];
+  return (body[1] as WorldBankObservation[])
+    .filter((obs) => typeof obs.value === 'number' && Number.isFinite(obs.value) && /^\d{4}$/.test(obs.date ?? ''))
+    .map((obs) => ({ country_code: iso3, indicator, year: Number(obs.date), value: obs.value as number }));
+}
+
+/** Fetches every indicator for one country, in parallel; throws if any request fails. */
+export async function fetchWorldBankIndicators(iso3: string, timeoutMs = 5000): Promise<IndicatorRow[]> {
+  const responses = await Promise.all(Object.values(INDICATORS).map(async (indicator) => {
+    const response = await fetch(worldBankUrl(iso3, indicator), { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) throw new Error(`World Bank ${indicator} for ${iso3}: HTTP ${response.status}`);
+    return parseWorldBankResponse(await response.json(), iso3, indicator);
+  }));
+  return responses.flat();
+}
+
+// World Bank WDI values as of the 2024 release, for when neither the table nor the API
+// answers: [iso3, year, population the year before, population, urban %, GDP per capita USD]
+const SNAPSHOT: [string, number, number, number, number, number][] = [
+  ['IND', 2023, 1425423212, 1438069596, 36.4, 2481],
+  ['ARE', 2023, 9441129, 9516871, 87.8, 52977],
+  ['SGP', 2023, 5637022, 5917648, 100, 84734],
+  ['USA', 2023, 333287557, 334914895, 83.3, 82769],
+  ['GBR', 2023, 67791000, 68350000, 84.6, 48867],
+  ['SAU', 2023, 32175224, 33264292, 85.2, 30448],
+  ['CAN', 2023, 38929902, 40097761, 81.9, 53372],
+  ['AUS', 2023, 26005540, 26638544, 86.6, 64712],
+];
+
+export function snapshotIndicators(iso3: string): IndicatorRow[] {
+  const entry = SNAPSHOT.find(([code]) => code === iso3);
+  if (!entry) return [];
+  const [code, year, previousPopulation, population, urbanShare, gdpPerCapita] = entry;
+  return [
+    { country_code: code, indicator: INDICATORS.population, year: year - 1, value: previousPopulation },
+    { country_code: code, indicator: INDICATORS.population, year, value: population },
+    { country_code: code, indicator: INDICATORS.urbanShare, year, value: urbanShare },
+    { country_code: code, indicator: INDICATORS.gdpPerCapita, year, value: gdpPerCapita },
+  ];
+}
+
+/** Observations of one indicator, newest first. */
+function series(rows: IndicatorRow[], indicator: string): IndicatorRow[] {
+  return rows.filter((row) => row.indicator === indicator).sort((a, b) => b.year - a.year);
+}
+
+/** Whether the rows cover every indicator, so the caller can tell a partial table apart from a complete one. */
+export function hasAllIndicators(rows: IndicatorRow[]): boolean {
+  return Object.values(INDICATORS).every((indicator) => series(rows, indicator).length > 0);
+}
+
+/** Pass 1 prompt block for the national figures. */
+export function formatNationalIndicators(country: CountryProfile, rows: IndicatorRow[], location: string): string {
+  let info = '';
+
+  const [latest, previous] = series(rows, INDICATORS.population);
+  if (latest) {
+    const total = latest.value >= 1e9 ? `${(latest.value / 1e9).toFixed(2)} billion` : `${(latest.value / 1e6).toFixed(1)} million`;
+    info += `${country.name} Total Population (${latest.year}): ${total}\n`;
+    if (previous && previous.year === latest.year - 1) {
+      info += `Annual Population Growth: ${((latest.value - previous.value) / previous.value * 100).toFixed(2)}%\n`;
+    }
+  }
+
+  const [urban] = series(rows, INDICATORS.urbanShare);
+  if (urban) info += `Urban Population: ${urban.value.toFixed(1)}%\n`;
+
+  const [gdp] = series(rows, INDICATORS.gdpPerCapita);
+  if (gdp) info += `GDP Per Capita: $${Math.round(gdp.value)}\n`;
+
+  if (!info) return '';
+  if (location && location !== 'Not specified') {
+    info += country.code === 'IN'
+      ? `\nNote: For city-level population of "${location}", see city demographics data.\n`
+      : `\nNote: No city-level dataset for ${country.name}; estimate "${location}" figures from regional knowledge.\n`;
+  }
+  return info;
+}
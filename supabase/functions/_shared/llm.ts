@@ -0,0 +1,522 @@
+// ============================================
+// LLM PROVIDER LAYER
+// ============================================
+// Every model call in the pipeline goes through an LLMProvider. Which provider,
+// model, temperature and token budget each pass uses comes from configuration
+// (environment + the user's profile), so passes can be pointed at different
+// backends independently. Kept free of Deno globals so tests can import it.
+
+import type { ZodType } from 'zod';
+import { formatIssues } from './schemas.ts';
+
+export type LLMPass = 'factorDiscovery' | 'explanation';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequest {
+  pass: LLMPass;
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  // Called with the backend's token counts when the response includes them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+export interface PassConfig {
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export type PipelineLLMConfig = Record<LLMPass, PassConfig>;
+
+// --- OpenAI-compatible (Lovable gateway, OpenAI, vLLM, LM Studio, ...) ---
+
+export const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+export const GATEWAY_MODEL = 'google/gemini-3-flash-preview';
+
+export function createOpenAICompatibleProvider(options: { baseUrl: string; apiKey?: string; name?: string; timeoutMs?: number }): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  return {
+    name: options.name || 'openai',
+    async complete(request) {
+      if (!options.apiKey) throw new Error('SERVICE_CONFIG_ERROR');
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${options.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 90000),
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) throw new Error('RATE_LIMITED');
+        if (response.status === 402) throw new Error('CREDITS_EXHAUSTED');
+        throw new Error('SERVICE_ERROR');
+      }
+
+      const aiResponse = await response.json();
+      if (aiResponse.usage) {
+        request.onUsage?.({ promptTokens: aiResponse.usage.prompt_tokens ?? 0, completionTokens: aiResponse.usage.completion_tokens ?? 0 });
+      }
+      const content = aiResponse.choices?.[0]?.message?.content;
+      if (!content) throw new Error('EMPTY_RESPONSE');
+      return content;
+    },
+  };
+}
+
+// --- Ollama /api/chat ---
+
+export const DEFAULT_OLLAMA_MODEL = 'llama3.2';
+
+export function createOllamaProvider(options: { baseUrl: string; timeoutMs?: number; followRedirects?: boolean; checkHost?: (hostname: string) => Promise<void> }): LLMProvider {
+  const baseUrl = options.baseUrl.trim().replace(/\/+$/, '');
+  return {
+    name: 'ollama',
+    async complete(request) {
+      if (!/^https?:\/\//i.test(baseUrl)) throw new Error('OLLAMA_NOT_CONFIGURED');
+      await options.checkHost?.(new URL(baseUrl).hostname);
+
+      let response: Response;
+      try {
+        // Local models are slow on modest hardware, so allow a generous timeout
+        response = await fetch(`${baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: request.model,
+            messages: request.messages,
+            stream: false,
+            format: 'json',
+            options: { temperature: request.temperature, num_predict: request.maxTokens },
+          }),
+          signal: AbortSignal.timeout(options.timeoutMs ?? 120000),
+          redirect: options.followRedirects === false ? 'error' : 'follow',
+        });
+      } catch (err) {
+        console.error('Ollama request failed:', err);
+        throw new Error('OLLAMA_UNREACHABLE');
+      }
+
+      if (!response.ok) {
+        console.error('Ollama error:', response.status);
+        if (response.status === 404) throw new Error('OLLAMA_MODEL_NOT_FOUND');
+        throw new Error('OLLAMA_UNREACHABLE');
+      }
+
+      const ollamaResponse = await response.json();
+      if (ollamaResponse.prompt_eval_count !== undefined || ollamaResponse.eval_count !== undefined) {
+        request.onUsage?.({ promptTokens: ollamaResponse.prompt_eval_count ?? 0, completionTokens: ollamaResponse.eval_count ?? 0 });
+      }
+      const content = ollamaResponse.message?.content;
+      if (!content) throw new Error('EMPTY_RESPONSE');
+      return content;
+    },
+  };
+}
+
+// --- Deterministic mock for offline tests and local dev ---
+
+function hashString(value: string): number {
+  // FNV-1a, enough to spread prompts across a small range of outputs
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mockFactorDiscovery(seed: number): string {
+  const jitter = (offset: number, span: number) => ((seed >>> offset) % span);
+  const factors = [
+    { name: 'Local Demand', weight: 0.3, score: 55 + jitter(0, 30), reasoning: 'Mock estimate of local demand.', isLocationSpecific: true },
+    { name: 'Competition Intensity', weight: 0.25, score: 40 + jitter(3, 30), reasoning: 'Mock estimate of competitor pressure.', isLocationSpecific: true },
+    { name: 'Setup Feasibility', weight: 0.25, score: 50 + jitter(6, 30), reasoning: 'Mock estimate of setup effort.', isLocationSpecific: false },
+    { name: 'Regulatory Compliance', weight: 0.2, score: 45 + jitter(9, 30), reasoning: 'Mock estimate of licensing burden.', isLocationSpecific: false },
+  ];
+  const setupMin = 500000 + jitter(12, 10) * 100000;
+  const revenueMin = 150000 + jitter(16, 10) * 20000;
+  const expensesMin = 100000 + jitter(20, 10) * 15000;
+  return JSON.stringify({
+    factors,
+    marketData: [
+      { metric: 'Average Ticket Size', minValue: 200, maxValue: 600, estimatedValue: 350, unit: 'INR', source: 'Mock provider', confidence: 'low' },
+    ],
+    estimatedSetupCostMin: setupMin,
+    estimatedSetupCostMax: Math.round(setupMin * 1.5),
+    estimatedMonthlyRevenueMin: revenueMin,
+    estimatedMonthlyRevenueMax: Math.round(revenueMin * 1.6),
+    estimatedMonthlyExpensesMin: expensesMin,
+    estimatedMonthlyExpensesMax: Math.round(expensesMin * 1.4),
+    avgProfitMargin: 0.1 + jitter(24, 20) / 100,
+    directCompetitors: 3 + jitter(26, 12),
+    indirectCompetitors: 5 + jitter(28, 15),
+    marketSize: '₹120 Cr (mock)',
+    marketGrowth: `${8 + jitter(4, 12)}% annually`,
+  });
+}
+
+function mockExplanation(): string {
+  return JSON.stringify({
+    summary: 'Mock analysis generated offline.',
+    marketExplanation: 'Mock market explanation.',
+    competitionExplanation: 'Mock competition explanation.',
+    financialExplanation: 'Mock financial explanation.',
+    competitiveAdvantage: 'Mock competitive advantage.',
+    threats: ['Mock threat'],
+    opportunities: ['Mock opportunity'],
+    risks: [
+      { risk: 'Mock demand risk', severity: 'medium', mitigation: 'Mock mitigation' },
+      { risk: 'Mock cost risk', severity: 'low', mitigation: 'Mock mitigation' },
+      { risk: 'Mock competition risk', severity: 'high', mitigation: 'Mock mitigation' },
+    ],
+    recommendations: ['Mock recommendation'],
+    roadmapPhases: [{ phase: 'Phase 1: Mock', duration: '1 month', tasks: ['Mock task'], milestones: ['Mock milestone'] }],
+    roadmapExplanation: 'Mock roadmap explanation.',
+    expertInsights: 'Mock expert insights.',
+  });
+}
+
+export function createMockProvider(responses: Partial<Record<LLMPass, string | ((request: LLMRequest) => string)>> = {}): LLMProvider {
+  return {
+    name: 'mock',
+    async complete(request) {
+      const override = responses[request.pass];
+      const userPrompt = request.messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+      const content = typeof override === 'function'
+        ? override(request)
+        : typeof override === 'string'
+          ? override
+          : request.pass === 'factorDiscovery' ? mockFactorDiscovery(hashString(userPrompt)) : mockExplanation();
+      // Rough count (4 characters per token) so telemetry has something to show offline
+      const prompt = request.messages.reduce((n, m) => n + m.content.length, 0);
+      request.onUsage?.({ promptTokens: Math.ceil(prompt / 4), completionTokens: Math.ceil(content.length / 4) });
+      return content;
+    },
+  };
+}
+
+// --- User-supplied Ollama servers ---
+// The edge function fetches whatever URL a user saves in their profile, so without checks any
+// signed-in user could make it call internal addresses. Only public http(s) hosts are allowed
+// unless the operator sets LLM_OLLAMA_ALLOW_PRIVATE=true (e.g. a self-hosted deployment on a LAN).
+// Address literals are checked when the config loads; host names are resolved (A and AAAA)
+// before every request and refused if any answer is non-public, so a public name pointing at
+// 127.0.0.1 does not get through. The fetch refuses redirects so one cannot bounce inward.
+
+/** DNS lookup the edge functions pass in (Deno.resolveDns); keeps this module free of Deno globals. */
+export type HostResolver = (hostname: string, type: 'A' | 'AAAA') => Promise<string[]>;
+
+const NON_PUBLIC_IPV4: [number, number][] = [
+  [0x00000000, 8],   // 0.0.0.0/8
+  [0x0a000000, 8],   // 10.0.0.0/8
+  [0x64400000, 10],  // 100.64.0.0/10 (carrier-grade NAT)
+  [0x7f000000, 8],   // 127.0.0.0/8 loopback
+  [0xa9fe0000, 16],  // 169.254.0.0/16 link-local, incl. cloud metadata
+  [0xac100000, 12],  // 172.16.0.0/12
+  [0xc0000000, 24],  // 192.0.0.0/24 IETF protocol assignments
+  [0xc0000200, 24],  // 192.0.2.0/24 documentation
+  [0xc0a80000, 16],  // 192.168.0.0/16
+  [0xc6120000, 15],  // 198.18.0.0/15 benchmarking
+  [0xc6336400, 24],  // 198.51.100.0/24 documentation
+  [0xcb007100, 24],  // 203.0.113.0/24 documentation
+  [0xe0000000, 4],   // 224.0.0.0/4 multicast
+  [0xf0000000, 4],   // 240.0.0.0/4 reserved, incl. broadcast
+];
+
+function parseIPv4(address: string): number | null {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) return null;
+  const octets = address.split('.').map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function isNonPublicIPv4(value: number): boolean {
+  return NON_PUBLIC_IPV4.some(([network, bits]) => value >>> (32 - bits) === network >>> (32 - bits));
+}
+
+/** The eight 16-bit groups of an IPv6 address (a trailing dotted IPv4 part allowed), or null. */
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) return null;
+  let text = address;
+  const dotted = /:(\d{1,3}(\.\d{1,3}){3})$/.exec(text);
+  if (dotted) {
+    const value = parseIPv4(dotted[1]);
+    if (value === null) return null;
+    text = `${text.slice(0, dotted.index)}:${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groups = (part: string) => (part ? part.split(':') : []);
+  const head = groups(halves[0]);
+  const rest = halves.length === 2 ? groups(halves[1]) : [];
+  if ([...head, ...rest].some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  return [...head, ...Array(missing).fill('0'), ...rest].map((group) => parseInt(group, 16));
+}
+
+function isNonPublicIPv6(groups: number[]): boolean {
+  const embedded = ((groups[6] << 16) | groups[7]) >>> 0;
+  const [g0, g1] = groups;
+  if (groups.slice(0, 6).every((g) => g === 0)) return true;  // ::/96: unspecified, loopback, IPv4-compatible
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) return isNonPublicIPv4(embedded);  // IPv4-mapped
+  if (g0 === 0x64 && g1 === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) return isNonPublicIPv4(embedded);  // NAT64
+  if (g0 === 0x2002) return isNonPublicIPv4(((g1 << 16) | groups[2]) >>> 0);  // 6to4
+  if (g0 === 0x2001 && (g1 === 0 || g1 === 0x0db8)) return true;  // Teredo, documentation
+  if (g0 === 0x0100 && groups.slice(1, 4).every((g) => g === 0)) return true;  // 100::/64 discard
+  // Unique-local (fc00::/7), link- and site-local (fe80::/9) and multicast (ff00::/8)
+  return (g0 & 0xfe00) === 0xfc00 || (g0 & 0xff80) === 0xfe80 || (g0 & 0xff00) === 0xff00;
+}
+
+const bareHost = (hostname: string) => hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+/** Whether an address literal is outside the public internet; null when it is not an address. */
+function isNonPublicAddress(address: string): boolean | null {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return isNonPublicIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isNonPublicIPv6(ipv6) : null;
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = bareHost(hostname);
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) return true;
+  // Anything else with a colon that does not parse is refused rather than guessed at
+  return isNonPublicAddress(host) ?? host.includes(':');
+}
+
+/** The profile's Ollama URL when it may be fetched; throws OLLAMA_NOT_CONFIGURED or OLLAMA_URL_NOT_ALLOWED. */
+export function checkOllamaBaseUrl(value: string | null, allowPrivate = false): string {
+  const baseUrl = (value || '').trim();
+  if (!/^https?:\/\//i.test(baseUrl)) throw new Error('OLLAMA_NOT_CONFIGURED');
+  let url: URL;
+  try { url = new URL(baseUrl); } catch {
+    throw new Error('OLLAMA_NOT_CONFIGURED');
+  }
+  if (url.username || url.password) throw new Error('OLLAMA_URL_NOT_ALLOWED');
+  if (!allowPrivate && isPrivateHost(url.hostname)) throw new Error('OLLAMA_URL_NOT_ALLOWED');
+  return baseUrl;
+}
+
+/**
+ * Resolves a host name and throws OLLAMA_URL_NOT_ALLOWED if any A or AAAA answer is not a
+ * public address (or there is no resolver to ask), OLLAMA_UNREACHABLE if there are none.
+ * Address literals are left to checkOllamaBaseUrl.
+ */
+export async function checkResolvedHost(hostname: string, resolve?: HostResolver): Promise<void> {
+  const host = bareHost(hostname);
+  if (isNonPublicAddress(host) !== null) return;
+  if (!resolve) throw new Error('OLLAMA_URL_NOT_ALLOWED');
+  // A name without AAAA (or A) records makes that lookup throw, which is not an error here
+  const lookups = await Promise.all((['A', 'AAAA'] as const).map((type) => resolve(host, type).catch(() => [] as string[])));
+  const answers = lookups.flat();
+  if (answers.length === 0) throw new Error('OLLAMA_UNREACHABLE');
+  if (answers.some((answer) => isNonPublicAddress(bareHost(answer)) !== false)) throw new Error('OLLAMA_URL_NOT_ALLOWED');
+}
+
+// --- Configuration ---
+
+export interface ProfileAISettings {
+  preferred_ai_model: string | null;
+  ollama_base_url: string | null;
+  ollama_model: string | null;
+}
+
+type EnvGetter = (key: string) => string | undefined;
+
+const PASS_ENV_PREFIX: Record<LLMPass, string> = {
+  factorDiscovery: 'LLM_FACTOR_DISCOVERY',
+  explanation: 'LLM_EXPLANATION',
+};
+
+// Pass 1 wants consistent numbers; Pass 3 wants varied prose
+const PASS_DEFAULTS: Record<LLMPass, { temperature: number; maxTokens: number }> = {
+  factorDiscovery: { temperature: 0.3, maxTokens: 3000 },
+  explanation: { temperature: 0.8, maxTokens: 3500 },
+};
+
+function numberFromEnv(env: EnvGetter, key: string, fallback: number): number {
+  const parsed = parseFloat(env(key) ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function createProvider(kind: string, env: EnvGetter): LLMProvider {
+  switch (kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'ollama':
+      return createOllamaProvider({ baseUrl: env('LLM_OLLAMA_BASE_URL') || '' });
+    case 'openai':
+      return createOpenAICompatibleProvider({ baseUrl: env('LLM_OPENAI_BASE_URL') || 'https://api.openai.com/v1', apiKey: env('LLM_OPENAI_API_KEY') });
+    case 'gateway':
+      return createOpenAICompatibleProvider({ name: 'gateway', baseUrl: LOVABLE_GATEWAY_URL, apiKey: env('LOVABLE_API_KEY') });
+    default:
+      throw new Error('SERVICE_CONFIG_ERROR');
+  }
+}
+
+function defaultModelFor(kind: string): string {
+  if (kind === 'ollama') return DEFAULT_OLLAMA_MODEL;
+  if (kind === 'mock') return 'mock';
+  if (kind === 'openai') return 'gpt-4o-mini';
+  return GATEWAY_MODEL;
+}
+
+/**
+ * Builds the per-pass configuration. Environment variables set the deployment
+ * defaults (LLM_PROVIDER, then LLM_<PASS>_PROVIDER/_MODEL/_TEMPERATURE/_MAX_TOKENS);
+ * a profile that selects Ollama routes both LLM passes to the user's own server,
+ * provided its URL passes checkOllamaBaseUrl and, per request, checkResolvedHost.
+ */
+export function loadLLMConfig(env: EnvGetter, profile: ProfileAISettings | null = null, resolveHost?: HostResolver): PipelineLLMConfig {
+  const allowPrivate = env('LLM_OLLAMA_ALLOW_PRIVATE') === 'true';
+  const passes = Object.keys(PASS_ENV_PREFIX) as LLMPass[];
+  const config = {} as PipelineLLMConfig;
+
+  for (const pass of passes) {
+    const prefix = PASS_ENV_PREFIX[pass];
+    const defaults = PASS_DEFAULTS[pass];
+    const temperature = numberFromEnv(env, `${prefix}_TEMPERATURE`, defaults.temperature);
+    const maxTokens = Math.round(numberFromEnv(env, `${prefix}_MAX_TOKENS`, defaults.maxTokens));
+
+    if (profile?.preferred_ai_model === 'ollama') {
+      const baseUrl = checkOllamaBaseUrl(profile.ollama_base_url, allowPrivate);
+      const checkHost = allowPrivate ? undefined : (hostname: string) => checkResolvedHost(hostname, resolveHost);
+      config[pass] = {
+        provider: createOllamaProvider({ baseUrl, followRedirects: false, checkHost }),
+        model: (profile.ollama_model || '').trim() || DEFAULT_OLLAMA_MODEL,
+        temperature,
+        maxTokens,
+      };
+      continue;
+    }
+
+    const kind = env(`${prefix}_PROVIDER`) || env('LLM_PROVIDER') || 'gateway';
+    config[pass] = {
+      provider: createProvider(kind, env),
+      model: env(`${prefix}_MODEL`) || defaultModelFor(kind),
+      temperature,
+      maxTokens,
+    };
+  }
+
+  return config;
+}
+
+export function describePassModel(pass: PassConfig): string {
+  return pass.provider.name === 'gateway' ? pass.model : `${pass.provider.name}/${pass.model}`;
+}
+
+/** Label stored in business_analyses.ai_model_used: one model, or both when the passes differ. */
+export function describeModels(config: PipelineLLMConfig): string {
+  const discovery = describePassModel(config.factorDiscovery);
+  const explanation = describePassModel(config.explanation);
+  return discovery === explanation ? discovery : `${discovery} + ${explanation}`;
+}
+
+export async function runPass(config: PipelineLLMConfig, pass: LLMPass, systemPrompt: string, userPrompt: string): Promise<string> {
+  return completePass(config, pass, [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ]);
+}
+
+/** Free-text reply to a whole conversation (system message first), e.g. follow-up questions. */
+export async function runConversation(config: PipelineLLMConfig, pass: LLMPass, messages: LLMMessage[], onUsage?: (usage: TokenUsage) => void): Promise<string> {
+  return completePass(config, pass, messages, onUsage);
+}
+
+function completePass(config: PipelineLLMConfig, pass: LLMPass, messages: LLMMessage[], onUsage?: (usage: TokenUsage) => void): Promise<string> {
+  const { provider, model, temperature, maxTokens } = config[pass];
+  return provider.complete({ pass, model, temperature, maxTokens, messages, onUsage });
+}
+
+// ============================================
+// STRUCTURED OUTPUT WITH REPAIR RETRIES
+// ============================================
+
+export function parseModelJSON(raw: string): unknown {
+  let jsonContent = raw;
+  const jsonMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) jsonContent = jsonMatch[1].trim();
+  return JSON.parse(jsonContent);
+}
+
+export interface StructuredResult {
+  value: unknown;      // last parsed JSON, undefined if the model never produced parseable JSON
+  valid: boolean;      // whether value passed the schema
+  repairs: number;     // follow-up requests made after the first answer
+  issues: string[];    // validator errors from the last attempt
+  tokens: TokenUsage;  // summed over every attempt; zero when the backend reports none
+}
+
+/**
+ * Runs a pass and checks the reply against a schema. On a parse or validation
+ * failure the errors are sent back to the model, up to maxRepairs times. Returns
+ * the last parsed value either way so callers can fall back to sanitizing it.
+ */
+export async function runStructuredPass(
+  config: PipelineLLMConfig,
+  pass: LLMPass,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: ZodType,
+  maxRepairs = 2,
+): Promise<StructuredResult> {
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+  let value: unknown = undefined;
+  let issues: string[] = [];
+  const tokens: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const addUsage = (usage: TokenUsage) => {
+    tokens.promptTokens += usage.promptTokens;
+    tokens.completionTokens += usage.completionTokens;
+  };
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const raw = await completePass(config, pass, messages, addUsage);
+
+    try {
+      const parsed = parseModelJSON(raw);
+      value = parsed;
+      const result = schema.safeParse(parsed);
+      if (result.success) return { value: parsed, valid: true, repairs: attempt, issues: [], tokens };
+      issues = formatIssues(result.error);
+    } catch (err) {
+      issues = [`response is not valid JSON (${err instanceof Error ? err.message : 'parse error'}); it may have been cut off`];
+    }
+
+    console.warn(`${pass}: invalid output on attempt ${attempt + 1}: ${issues.join('; ')}`);
+    messages.push(
+      { role: 'assistant', content: raw },
+      { role: 'user', content: `Your previous reply failed validation:\n${issues.map((i) => `- ${i}`).join('\n')}\n\nReturn the complete corrected JSON object only, with no commentary. Keep it concise so it is not truncated.` },
+    );
+  }
+
+  return { value, valid: false, repairs: maxRepairs, issues, tokens };
+}
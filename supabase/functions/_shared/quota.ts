@@ -0,0 +1,93 @@
+// ============================================
+// PER-USER QUOTAS
+// ============================================
+// analyze-business calls consume_analysis_quota (Postgres) before doing any work. This
+// module turns the row it returns into the quota shown in Settings and, when a limit is
+// hit, the structured 429 body and Retry-After value. A check that fails refuses the
+// request (QUOTA_UNAVAILABLE) rather than letting it through without limits.
+
+/** Row returned by get_analysis_quota / consume_analysis_quota. */
+export interface QuotaRow {
+  allowed?: boolean;
+  reason?: string | null;
+  requests_per_minute: number;
+  analyses_per_month: number;
+  minute_used: number;
+  month_used: number;
+  minute_resets_at: string | null;  // null when no request in the last minute
+  month_resets_at: string;
+}
+
+export interface QuotaStatus {
+  requestsPerMinute: number;
+  analysesPerMonth: number;
+  remainingThisMinute: number;
+  remainingThisMonth: number;
+  monthResetsAt: string;
+}
+
+export type QuotaErrorCode = 'TOO_MANY_REQUESTS' | 'QUOTA_EXCEEDED';
+
+export interface QuotaExceeded {
+  code: QuotaErrorCode;
+  error: string;
+  retryAfterSeconds: number;
+  quota: QuotaStatus;
+}
+
+export function toQuotaStatus(row: QuotaRow): QuotaStatus {
+  return {
+    requestsPerMinute: row.requests_per_minute,
+    analysesPerMonth: row.analyses_per_month,
+    remainingThisMinute: Math.max(0, row.requests_per_minute - row.minute_used),
+    remainingThisMonth: Math.max(0, row.analyses_per_month - row.month_used),
+    monthResetsAt: row.month_resets_at,
+  };
+}
+
+function secondsUntil(iso: string | null, now: Date): number {
+  if (!iso) return 1;
+  return Math.max(1, Math.ceil((new Date(iso).getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * The 429 body for a refused request, or null when the request was allowed. `requested`
+ * is the number of analyses asked for (a batch asks for one per row).
+ */
+export function quotaExceeded(row: QuotaRow, now = new Date(), requested = 1): QuotaExceeded | null {
+  if (row.allowed !== false) return null;
+  const quota = toQuotaStatus(row);
+
+  if (row.reason === 'QUOTA_EXCEEDED') {
+    const resetsOn = new Date(row.month_resets_at).toISOString().slice(0, 10);
+    const remaining = quota.remainingThisMonth;
+    return {
+      code: 'QUOTA_EXCEEDED',
+      error: remaining > 0 && requested > remaining
+        ? `This batch needs ${requested} analyses but only ${remaining} are left this month. Your quota resets on ${resetsOn}.`
+        : `You have used all ${row.analyses_per_month} analyses for this month. Your quota resets on ${resetsOn}.`,
+      retryAfterSeconds: secondsUntil(row.month_resets_at, now),
+      quota,
+    };
+  }
+
+  const retryAfterSeconds = secondsUntil(row.minute_resets_at, now);
+  return {
+    code: 'TOO_MANY_REQUESTS',
+    error: `Too many analyses in a short time (limit ${row.requests_per_minute} per minute). Try again in ${retryAfterSeconds}s.`,
+    retryAfterSeconds,
+    quota,
+  };
+}
+
+/**
+ * quotaExceeded for the result of a consume_analysis_quota call. An RPC error or missing
+ * row throws QUOTA_UNAVAILABLE, so a broken or renamed function cannot lift every limit.
+ */
+export function checkQuotaResult(row: QuotaRow | null, error: { message: string } | null, now = new Date(), requested = 1): QuotaExceeded | null {
+  if (error || !row) {
+    console.error('Quota check failed:', error?.message ?? 'no quota row returned');
+    throw new Error('QUOTA_UNAVAILABLE');
+  }
+  return quotaExceeded(row, now, requested);
+}
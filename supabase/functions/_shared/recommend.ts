@@ -0,0 +1,142 @@
+// ============================================
+// CITY RECOMMENDATIONS
+// ============================================
+// "Where should I open this": an idea and budget without a location. Cities from
+// city_demographics each get one national Pass 1 estimate adjusted to their spending power,
+// cost level and size, scored by the regular Pass 2 model (budget fit included), and the
+// best-scoring cities are returned, so the whole ranking costs a single LLM call.
+
+import { pass2_score, DEFAULT_MODEL, type GBDTModel, type Pass1Result } from './scoring.ts';
+import type { ParsedBudget } from './budget.ts';
+
+export const RECOMMENDATION_COUNT = 10;
+
+/** The city_demographics columns the recommendation reads. */
+export interface CityDemographicsRow {
+  name: string;
+  state: string;
+  tier: string;
+  population_2011: number;
+  growth_rate: number;
+  literacy_rate: number | null;
+  avg_household_income_inr: number | null;
+}
+
+export interface CityCandidate {
+  city: CityDemographicsRow;
+  demographicScore: number;  // 0-100
+}
+
+export interface CityRecommendation {
+  rank: number;
+  city: string;
+  state: string;
+  tier: string;
+  population: number;
+  growthRate: number;
+  literacyRate: number | null;
+  avgHouseholdIncome: number | null;
+  demographicScore: number;
+  score: number;
+  verdict: 'GO' | 'CAUTION' | 'AVOID';
+  breakEvenMonths: number;
+  roi: number;
+  budgetFitPercent: number;
+}
+
+const TIER_SCORE: Record<string, number> = { 'Tier 1': 1, 'Tier 2': 0.7, 'Tier 3': 0.4 };
+// Rent and wages relative to the national figures the baseline Pass 1 estimates
+const TIER_COST: Record<string, number> = { 'Tier 1': 1.3, 'Tier 2': 1, 'Tier 3': 0.8 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Demographic pull of a city, 0-100: household income (relative to the richest city in the
+ * set) 35%, tier 25%, population growth 25%, literacy 15%. Missing figures count as average.
+ */
+export function demographicScore(city: CityDemographicsRow, maxIncome: number): number {
+  const income = city.avg_household_income_inr && maxIncome > 0 ? city.avg_household_income_inr / maxIncome : 0.5;
+  const tier = TIER_SCORE[city.tier] ?? 0.5;
+  const growth = clamp(city.growth_rate / 4, 0, 1);  // 4%/year is the top of the dataset
+  const literacy = city.literacy_rate != null ? clamp(city.literacy_rate / 100, 0, 1) : 0.75;
+  return Math.round((income * 0.35 + tier * 0.25 + growth * 0.25 + literacy * 0.15) * 100);
+}
+
+/** Every city with its demographic score, relative to the richest city in the set. */
+export function cityCandidates(rows: CityDemographicsRow[]): CityCandidate[] {
+  const maxIncome = Math.max(0, ...rows.map((row) => row.avg_household_income_inr ?? 0));
+  return rows.map((city) => ({ city, demographicScore: demographicScore(city, maxIncome) }));
+}
+
+interface CityBaseline {
+  income: number | null;      // median household income across the dataset
+  population: number | null;  // median population across the dataset
+}
+
+/**
+ * The national Pass 1 estimate moved to one city: revenue follows household income,
+ * setup and running costs follow the tier, competitor counts grow with city size, and
+ * location-specific factors are pulled halfway towards the demographic score.
+ */
+export function cityPass1(baseline: Pass1Result, candidate: CityCandidate, reference: CityBaseline): Pass1Result {
+  const { city, demographicScore: pull } = candidate;
+  const spending = city.avg_household_income_inr && reference.income ? clamp(city.avg_household_income_inr / reference.income, 0.6, 1.8) : 1;
+  const cost = TIER_COST[city.tier] ?? 1;
+  const size = reference.population ? clamp(Math.sqrt(city.population_2011 / reference.population), 0.5, 2.5) : 1;
+  return {
+    ...baseline,
+    factors: baseline.factors.map((factor) => factor.isLocationSpecific
+      ? { ...factor, score: Math.round(clamp((factor.score + pull) / 2, 0, 100)) }
+      : factor),
+    estimatedSetupCostMin: Math.round(baseline.estimatedSetupCostMin * cost),
+    estimatedSetupCostMax: Math.round(baseline.estimatedSetupCostMax * cost),
+    estimatedMonthlyRevenueMin: Math.round(baseline.estimatedMonthlyRevenueMin * spending),
+    estimatedMonthlyRevenueMax: Math.round(baseline.estimatedMonthlyRevenueMax * spending),
+    estimatedMonthlyExpensesMin: Math.round(baseline.estimatedMonthlyExpensesMin * cost),
+    estimatedMonthlyExpensesMax: Math.round(baseline.estimatedMonthlyExpensesMax * cost),
+    directCompetitors: Math.round(baseline.directCompetitors * size),
+    indirectCompetitors: Math.round(baseline.indirectCompetitors * size),
+  };
+}
+
+/**
+ * Scores every city for one baseline estimate and keeps the best `limit`: Pass 2 score first,
+ * then demographics, then the larger city. A tight budget can therefore favour cheaper cities.
+ */
+export function recommendCities(baseline: Pass1Result, rows: CityDemographicsRow[], budget: ParsedBudget, limit = RECOMMENDATION_COUNT, model: GBDTModel = DEFAULT_MODEL): CityRecommendation[] {
+  const reference: CityBaseline = {
+    income: median(rows.flatMap((row) => (row.avg_household_income_inr ? [row.avg_household_income_inr] : []))),
+    population: median(rows.map((row) => row.population_2011)),
+  };
+  return cityCandidates(rows)
+    .map((candidate) => {
+      const { city } = candidate;
+      const scoring = pass2_score(cityPass1(baseline, candidate, reference), budget, model);
+      return {
+        rank: 0,
+        city: city.name,
+        state: city.state,
+        tier: city.tier,
+        population: city.population_2011,
+        growthRate: city.growth_rate,
+        literacyRate: city.literacy_rate,
+        avgHouseholdIncome: city.avg_household_income_inr,
+        demographicScore: candidate.demographicScore,
+        score: scoring.score,
+        verdict: scoring.verdict,
+        breakEvenMonths: scoring.breakEvenMonths,
+        roi: scoring.roi,
+        budgetFitPercent: scoring.budgetFitPercent,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.demographicScore - a.demographicScore || b.population - a.population)
+    .slice(0, limit)
+    .map((recommendation, index) => ({ ...recommendation, rank: index + 1 }));
+}
@@ -0,0 +1,132 @@
+// ============================================
+// WHAT-IF RE-SCORING
+// ============================================
+// Re-runs Pass 2 on a saved analysis's Pass 1 data with user overrides.
+// No LLM and no network, so it answers in milliseconds.
+
+import { z } from 'zod';
+import { formatIssues } from './schemas.ts';
+import { parseBudget, DEFAULT_EXCHANGE_RATES } from './budget.ts';
+import { pass2_score, generateYearlyWithMonths, DEFAULT_MODEL, type GBDTModel, type Pass1Result } from './scoring.ts';
+
+const rangeSchema = z.object({
+  min: z.number().nonnegative(),
+  max: z.number().nonnegative(),
+}).refine((range) => range.min <= range.max, { message: 'min must not exceed max' });
+
+export const rescoreOverridesSchema = z.object({
+  budget: z.string().trim().min(1).max(100).optional(),
+  setupCost: rangeSchema.optional(),
+  monthlyRevenue: rangeSchema.optional(),
+  monthlyExpenses: rangeSchema.optional(),
+  directCompetitors: z.number().int().nonnegative().optional(),
+  indirectCompetitors: z.number().int().nonnegative().optional(),
+  avgProfitMargin: z.number().min(0).max(1).optional(),
+  // Factor name -> replacement score (0-100)
+  factorScores: z.record(z.number().min(0).max(100)).optional(),
+}).strict();
+
+export type RescoreOverrides = z.infer<typeof rescoreOverridesSchema>;
+
+// Saved Pass 1 data has already been sanitized, so only its shape is checked here,
+// not the model-output rules in pass1Schema (weight sums, factor counts).
+const savedPass1Schema = z.object({
+  factors: z.array(z.object({
+    name: z.string(),
+    weight: z.number(),
+    score: z.number(),
+    reasoning: z.string(),
+    isLocationSpecific: z.boolean(),
+  })).min(1),
+  marketData: z.array(z.object({
+    metric: z.string(),
+    minValue: z.number(),
+    maxValue: z.number(),
+    estimatedValue: z.number(),
+    unit: z.string(),
+    source: z.string(),
+    sourceIds: z.array(z.number()).optional(),
+    confidence: z.enum(['high', 'medium', 'low']),
+  })),
+  estimatedSetupCostMin: z.number(),
+  estimatedSetupCostMax: z.number(),
+  estimatedMonthlyRevenueMin: z.number(),
+  estimatedMonthlyRevenueMax: z.number(),
+  estimatedMonthlyExpensesMin: z.number(),
+  estimatedMonthlyExpensesMax: z.number(),
+  avgProfitMargin: z.number(),
+  directCompetitors: z.number(),
+  indirectCompetitors: z.number(),
+  marketSize: z.string(),
+  marketGrowth: z.string(),
+});
+
+const rescoreRequestSchema = z.object({
+  pass1: savedPass1Schema,
+  budget: z.string().trim().max(100),
+  // Analysis currency (BusinessAnalysis.country.currency); older analyses are INR
+  currency: z.string().regex(/^[A-Z]{3}$/).optional(),
+  overrides: rescoreOverridesSchema.default({}),
+});
+
+export interface RescoreRequest {
+  pass1: Pass1Result;
+  budget: string;
+  currency?: string;
+  overrides: RescoreOverrides;
+}
+
+export function parseRescoreRequest(body: unknown): { data?: RescoreRequest; issues?: string[] } {
+  const parsed = rescoreRequestSchema.safeParse(body);
+  if (!parsed.success) return { issues: formatIssues(parsed.error) };
+  return { data: parsed.data as RescoreRequest };
+}
+
+export function applyOverrides(pass1: Pass1Result, overrides: RescoreOverrides): Pass1Result {
+  const factorScores = overrides.factorScores ?? {};
+  return {
+    ...pass1,
+    factors: pass1.factors.map((f) => (Object.prototype.hasOwnProperty.call(factorScores, f.name) ? { ...f, score: factorScores[f.name] } : f)),
+    estimatedSetupCostMin: overrides.setupCost?.min ?? pass1.estimatedSetupCostMin,
+    estimatedSetupCostMax: overrides.setupCost?.max ?? pass1.estimatedSetupCostMax,
+    estimatedMonthlyRevenueMin: overrides.monthlyRevenue?.min ?? pass1.estimatedMonthlyRevenueMin,
+    estimatedMonthlyRevenueMax: overrides.monthlyRevenue?.max ?? pass1.estimatedMonthlyRevenueMax,
+    estimatedMonthlyExpensesMin: overrides.monthlyExpenses?.min ?? pass1.estimatedMonthlyExpensesMin,
+    estimatedMonthlyExpensesMax: overrides.monthlyExpenses?.max ?? pass1.estimatedMonthlyExpensesMax,
+    directCompetitors: overrides.directCompetitors ?? pass1.directCompetitors,
+    indirectCompetitors: overrides.indirectCompetitors ?? pass1.indirectCompetitors,
+    avgProfitMargin: overrides.avgProfitMargin ?? pass1.avgProfitMargin,
+  };
+}
+
+export interface RescoreOptions {
+  rates?: Record<string, number>;
+  model?: GBDTModel;
+}
+
+export function rescore(request: RescoreRequest, options: RescoreOptions = {}) {
+  const pass1 = applyOverrides(request.pass1, request.overrides);
+  const budget = request.overrides.budget ?? request.budget;
+  const scoring = pass2_score(pass1, parseBudget(budget, options.rates ?? DEFAULT_EXCHANGE_RATES, request.currency ?? 'INR'), options.model ?? DEFAULT_MODEL);
+
+  return {
+    verdict: scoring.verdict,
+    score: scoring.score,
+    budget,
+    budgetDetails: scoring.budget,
+    budgetFitPercent: scoring.budgetFitPercent,
+    dynamicFactors: scoring.factors,
+    scoreBreakdown: scoring.scoreBreakdown,
+    modelVersion: scoring.modelVersion,
+    gbdtFeatures: scoring.gbdtFeatures,
+    financialProjection: {
+      yearlyData: generateYearlyWithMonths(scoring.financialProjections),
+      breakEvenMonths: scoring.breakEvenMonths,
+      roi: scoring.roi,
+      simulation: scoring.simulation,
+    },
+    pass1,
+  };
+}
+
+export type RescoreResult = ReturnType<typeof rescore>;
@@ -0,0 +1,129 @@
+// ============================================
+// SANITIZATION: Strip dangerous content from AI responses
+// ============================================
+// Pass 1 and Pass 3 output after schema validation: markup stripped, numbers clamped,
+// citations limited to sources the model was given. Shared so the offline evaluation
+// replays recorded Pass 1 responses through the same path as analyze-business.
+
+import { knownSourceIds, stripUnknownCitations } from './sources.ts';
+import type { Pass1Result } from './scoring.ts';
+
+export function sanitizeString(str: unknown): string {
+  if (typeof str !== 'string') return '';
+  // Remove HTML tags, script injections, and dangerous patterns
+  return str
+    .replace(/<[^>]*>/g, '')
+    .replace(/javascript:/gi, '')
+    .replace(/on\w+\s*=/gi, '')
+    .replace(/data:\s*text\/html/gi, '')
+    .replace(/&#/g, '')
+    .trim()
+    .slice(0, 5000);
+}
+
+function sanitizeStringArray(arr: unknown): string[] {
+  if (!Array.isArray(arr)) return [];
+  return arr.map(sanitizeString).filter(Boolean).slice(0, 20);
+}
+
+// Field paths that fell back to a default get pushed onto `defaulted`,
+// so a real estimate of 0 can be told apart from a missing value
+function numberField(raw: unknown, path: string, defaulted: string[]): number {
+  const value = Number(raw);
+  if (raw === null || raw === undefined || raw === '' || typeof raw === 'boolean' || !Number.isFinite(value)) {
+    defaulted.push(path);
+    return 0;
+  }
+  return value;
+}
+
+function stringField(raw: unknown, path: string, defaulted: string[]): string {
+  const value = sanitizeString(raw);
+  if (!value) defaulted.push(path);
+  return value;
+}
+
+function stringArrayField(raw: unknown, path: string, defaulted: string[]): string[] {
+  const value = sanitizeStringArray(raw);
+  if (value.length === 0) defaulted.push(path);
+  return value;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// Citations are kept only when they point at a source we actually gave the model
+export function sanitizePass1(raw: unknown, defaulted: string[], sourceIds: Set<number> = new Set()): Pass1Result {
+  const data = asRecord(raw);
+  if (!Array.isArray(data.factors) || data.factors.length === 0) defaulted.push('factors');
+  if (!Array.isArray(data.marketData)) defaulted.push('marketData');
+  return {
+    factors: (Array.isArray(data.factors) ? data.factors : []).slice(0, 10).map((rawFactor: unknown, i: number) => {
+      const f = asRecord(rawFactor);
+      return {
+        name: stringField(f.name, `factors.${i}.name`, defaulted).slice(0, 100),
+        weight: Math.max(0, Math.min(1, numberField(f.weight, `factors.${i}.weight`, defaulted))),
+        score: Math.max(0, Math.min(100, Math.round(numberField(f.score, `factors.${i}.score`, defaulted)))),
+        reasoning: sanitizeString(f.reasoning).slice(0, 500),
+        isLocationSpecific: Boolean(f.isLocationSpecific),
+      };
+    }),
+    marketData: (Array.isArray(data.marketData) ? data.marketData : []).slice(0, 20).map((rawPoint: unknown, i: number) => {
+      const d = asRecord(rawPoint);
+      const confidence = ['high', 'medium', 'low'].includes(d.confidence as string) ? d.confidence as 'high' | 'medium' | 'low' : null;
+      if (!confidence) defaulted.push(`marketData.${i}.confidence`);
+      return {
+        metric: stringField(d.metric, `marketData.${i}.metric`, defaulted).slice(0, 100),
+        minValue: numberField(d.minValue, `marketData.${i}.minValue`, defaulted),
+        maxValue: numberField(d.maxValue, `marketData.${i}.maxValue`, defaulted),
+        estimatedValue: numberField(d.estimatedValue, `marketData.${i}.estimatedValue`, defaulted),
+        unit: sanitizeString(d.unit).slice(0, 20),
+        source: sanitizeString(d.source).slice(0, 200),
+        sourceIds: knownSourceIds(d.sourceIds, sourceIds),
+        confidence: confidence ?? 'low',
+      };
+    }),
+    estimatedSetupCostMin: Math.max(0, numberField(data.estimatedSetupCostMin, 'estimatedSetupCostMin', defaulted)),
+    estimatedSetupCostMax: Math.max(0, numberField(data.estimatedSetupCostMax, 'estimatedSetupCostMax', defaulted)),
+    estimatedMonthlyRevenueMin: Math.max(0, numberField(data.estimatedMonthlyRevenueMin, 'estimatedMonthlyRevenueMin', defaulted)),
+    estimatedMonthlyRevenueMax: Math.max(0, numberField(data.estimatedMonthlyRevenueMax, 'estimatedMonthlyRevenueMax', defaulted)),
+    estimatedMonthlyExpensesMin: Math.max(0, numberField(data.estimatedMonthlyExpensesMin, 'estimatedMonthlyExpensesMin', defaulted)),
+    estimatedMonthlyExpensesMax: Math.max(0, numberField(data.estimatedMonthlyExpensesMax, 'estimatedMonthlyExpensesMax', defaulted)),
+    avgProfitMargin: Math.max(0, Math.min(1, numberField(data.avgProfitMargin, 'avgProfitMargin', defaulted))),
+    directCompetitors: Math.max(0, Math.round(numberField(data.directCompetitors, 'directCompetitors', defaulted))),
+    indirectCompetitors: Math.max(0, Math.round(numberField(data.indirectCompetitors, 'indirectCompetitors', defaulted))),
+    marketSize: stringField(data.marketSize, 'marketSize', defaulted).slice(0, 200),
+    marketGrowth: stringField(data.marketGrowth, 'marketGrowth', defaulted).slice(0, 200),
+  };
+}
+
+export function sanitizePass3(raw: unknown, defaulted: string[], sourceIds: Set<number> = new Set()): Record<string, unknown> {
+  const data = asRecord(raw);
+  const cited = (value: unknown, path: string) => stripUnknownCitations(stringField(value, path, defaulted), sourceIds);
+  if (!Array.isArray(data.risks) || data.risks.length === 0) defaulted.push('risks');
+  if (!Array.isArray(data.roadmapPhases) || data.roadmapPhases.length === 0) defaulted.push('roadmapPhases');
+  return {
+    summary: stringField(data.summary, 'summary', defaulted),
+    marketExplanation: cited(data.marketExplanation, 'marketExplanation'),
+    competitionExplanation: cited(data.competitionExplanation, 'competitionExplanation'),
+    financialExplanation: cited(data.financialExplanation, 'financialExplanation'),
+    competitiveAdvantage: stringField(data.competitiveAdvantage, 'competitiveAdvantage', defaulted),
+    threats: stringArrayField(data.threats, 'threats', defaulted),
+    opportunities: stringArrayField(data.opportunities, 'opportunities', defaulted),
+    risks: Array.isArray(data.risks) ? data.risks.slice(0, 10).map((r: any) => ({
+      risk: sanitizeString(r?.risk),
+      severity: ['low', 'medium', 'high'].includes(r?.severity) ? r.severity : 'medium',
+      mitigation: sanitizeString(r?.mitigation),
+    })) : [],
+    recommendations: stringArrayField(data.recommendations, 'recommendations', defaulted),
+    roadmapPhases: Array.isArray(data.roadmapPhases) ? data.roadmapPhases.slice(0, 5).map((p: any) => ({
+      phase: sanitizeString(p?.phase).slice(0, 100),
+      duration: sanitizeString(p?.duration).slice(0, 50),
+      tasks: sanitizeStringArray(p?.tasks),
+      milestones: sanitizeStringArray(p?.milestones),
+    })) : [],
+    roadmapExplanation: stringField(data.roadmapExplanation, 'roadmapExplanation', defaulted),
+    expertInsights: cited(data.expertInsights, 'expertInsights'),
+  };
+}
@@ -0,0 +1,93 @@
+// ============================================
+// LLM OUTPUT SCHEMAS
+// ============================================
+// Shape the Pass 1 and Pass 3 JSON must have before it reaches the sanitizers.
+// Validation failures are fed back to the model by runStructuredPass (llm.ts).
+
+import { z } from 'zod';
+
+const factorSchema = z.object({
+  name: z.string().min(1),
+  weight: z.number().min(0).max(1),
+  score: z.number().min(0).max(100),
+  reasoning: z.string().min(1),
+  isLocationSpecific: z.boolean(),
+});
+
+const marketDataPointSchema = z.object({
+  metric: z.string().min(1),
+  minValue: z.number(),
+  maxValue: z.number(),
+  estimatedValue: z.number(),
+  unit: z.string(),
+  source: z.string(),
+  // Ids of the web/dataset sources the estimate relies on
+  sourceIds: z.array(z.number().int().positive()).optional(),
+  confidence: z.enum(['high', 'medium', 'low']),
+});
+
+const amount = z.number().nonnegative();
+
+export const pass1Schema = z.object({
+  factors: z.array(factorSchema).min(4).max(8),
+  marketData: z.array(marketDataPointSchema),
+  estimatedSetupCostMin: amount,
+  estimatedSetupCostMax: amount,
+  estimatedMonthlyRevenueMin: amount,
+  estimatedMonthlyRevenueMax: amount,
+  estimatedMonthlyExpensesMin: amount,
+  estimatedMonthlyExpensesMax: amount,
+  avgProfitMargin: z.number().min(0).max(1),
+  directCompetitors: z.number().int().nonnegative(),
+  indirectCompetitors: z.number().int().nonnegative(),
+  marketSize: z.string().min(1),
+  marketGrowth: z.string().min(1),
+}).superRefine((data, ctx) => {
+  const weightSum = data.factors.reduce((sum, f) => sum + f.weight, 0);
+  if (Math.abs(weightSum - 1) > 0.05) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['factors'], message: `factor weights sum to ${weightSum.toFixed(2)}, must sum to 1.0` });
+  }
+  const ranges = [
+    ['estimatedSetupCostMin', 'estimatedSetupCostMax'],
+    ['estimatedMonthlyRevenueMin', 'estimatedMonthlyRevenueMax'],
+    ['estimatedMonthlyExpensesMin', 'estimatedMonthlyExpensesMax'],
+  ] as const;
+  for (const [minKey, maxKey] of ranges) {
+    if (data[minKey] > data[maxKey]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [minKey], message: `must not exceed ${maxKey}` });
+    }
+  }
+});
+
+const riskSchema = z.object({
+  risk: z.string().min(1),
+  severity: z.enum(['low', 'medium', 'high']),
+  mitigation: z.string().min(1),
+});
+
+const roadmapPhaseSchema = z.object({
+  phase: z.string().min(1),
+  duration: z.string().min(1),
+  tasks: z.array(z.string()).min(1),
+  milestones: z.array(z.string()),
+});
+
+export const pass3Schema = z.object({
+  summary: z.string().min(1),
+  marketExplanation: z.string().min(1),
+  competitionExplanation: z.string().min(1),
+  financialExplanation: z.string().min(1),
+  competitiveAdvantage: z.string().min(1),
+  threats: z.array(z.string()).min(1),
+  opportunities: z.array(z.string()).min(1),
+  risks: z.array(riskSchema).min(3).max(7),
+  recommendations: z.array(z.string()).min(1),
+  roadmapPhases: z.array(roadmapPhaseSchema).min(1),
+  roadmapExplanation: z.string().min(1),
+  expertInsights: z.string().min(1),
+});
+
+/** Flattens zod issues into "path: message" lines short enough to send back to the model. */
+export function formatIssues(error: z.ZodError, limit = 15): string[] {
+  return error.issues.slice(0, limit).map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
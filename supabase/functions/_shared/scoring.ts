@@ -0,0 +1,319 @@
+// ============================================
+// SCORING ENGINE (Pass 2)
+// ============================================
+// Deterministic part of the pipeline: Pass 1 data in, score/verdict/projections out.
+// Shared by analyze-business and anything that re-scores without calling the LLM.
+
+import defaultModel from './models/gbdt-model.json' with { type: 'json' };
+import { budgetAmount, type ParsedBudget } from './budget.ts';
+import { projectFinancials, simulateFinancials, midpoint, type FinancialRanges, type FinancialSimulation, type YearProjection } from './simulation.ts';
+
+// --- Pass 1 output (scoring input) ---
+
+export interface MarketDataPoint {
+  metric: string;
+  minValue: number;
+  maxValue: number;
+  estimatedValue: number;
+  unit: string;
+  source: string;
+  sourceIds?: number[];  // ids into the analysis sources list
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface DynamicFactor {
+  name: string;
+  weight: number; // 0.0 - 1.0, all weights must sum to 1.0
+  score: number;  // 0 - 100
+  reasoning: string;
+  isLocationSpecific: boolean;
+}
+
+export interface Pass1Result {
+  factors: DynamicFactor[];
+  marketData: MarketDataPoint[];
+  estimatedSetupCostMin: number;
+  estimatedSetupCostMax: number;
+  estimatedMonthlyRevenueMin: number;
+  estimatedMonthlyRevenueMax: number;
+  estimatedMonthlyExpensesMin: number;
+  estimatedMonthlyExpensesMax: number;
+  avgProfitMargin: number;
+  directCompetitors: number;
+  indirectCompetitors: number;
+  marketSize: string;
+  marketGrowth: string;
+}
+
+// ============================================
+// PASS 2: XGBoost-Style Gradient Boosted Decision Tree Scoring
+// ============================================
+
+// --- XGBoost-style GBDT Engine ---
+
+export interface GBDTFeatures {
+  avgFactorScore: number;       // 0-100: weighted avg of Pass 1 factors
+  budgetRatio: number;          // 0-5+: budget / setup cost
+  competitionDensity: number;   // 0-1: normalized competitor pressure
+  marketGrowthSignal: number;   // 0-1: growth potential
+  profitMarginEstimate: number; // 0-1: estimated margin
+  locationTierScore: number;    // 0-1: tier-based opportunity
+  revenueToExpenseRatio: number;// 0-5+: revenue / expenses
+  factorVariance: number;       // 0-1: how spread out factor scores are (risk signal)
+  topFactorScore: number;       // 0-100: best factor score
+  bottomFactorScore: number;    // 0-100: worst factor score
+}
+
+// A decision stump (weak learner) in the ensemble
+export interface DecisionStump {
+  featureKey: keyof GBDTFeatures;
+  threshold: number;
+  leftValue: number;   // prediction if feature <= threshold
+  rightValue: number;  // prediction if feature > threshold
+  weight: number;      // learning rate × contribution
+}
+
+// Interaction stump: splits on product/ratio of two features
+export interface InteractionStump {
+  featureA: keyof GBDTFeatures;
+  featureB: keyof GBDTFeatures;
+  operation: 'multiply' | 'divide' | 'min' | 'max';
+  threshold: number;
+  leftValue: number;
+  rightValue: number;
+  weight: number;
+}
+
+export function extractFeatures(pass1: Pass1Result, budgetAmount: number): GBDTFeatures {
+  // Weighted average factor score
+  let totalWeight = 0, weightedSum = 0;
+  let maxScore = 0, minScore = 100;
+  for (const f of pass1.factors) {
+    weightedSum += f.score * f.weight;
+    totalWeight += f.weight;
+    if (f.score > maxScore) maxScore = f.score;
+    if (f.score < minScore) minScore = f.score;
+  }
+  const avgFactorScore = totalWeight > 0 ? weightedSum / totalWeight : 50;
+
+  // Budget ratio
+  const avgSetupCost = (pass1.estimatedSetupCostMin + pass1.estimatedSetupCostMax) / 2 || 1;
+  const budgetRatio = budgetAmount / avgSetupCost;
+
+  // Competition density: normalized 0-1 (higher = more competition = worse)
+  const totalCompetitors = pass1.directCompetitors + pass1.indirectCompetitors * 0.5;
+  const competitionDensity = Math.min(1, totalCompetitors / 50);
+
+  // Market growth signal: parse from string
+  const growthMatch = (pass1.marketGrowth || '').match(/([\d.]+)\s*%/);
+  const growthPercent = growthMatch ? parseFloat(growthMatch[1]) : 5;
+  const marketGrowthSignal = Math.min(1, growthPercent / 30);
+
+  // Profit margin
+  const profitMarginEstimate = Math.max(0, Math.min(1, pass1.avgProfitMargin || 0));
+
+  // Location tier (extracted from factors if any mention tier)
+  const tierFactor = pass1.factors.find(f => f.isLocationSpecific);
+  const locationTierScore = tierFactor ? tierFactor.score / 100 : 0.5;
+
+  // Revenue to expense ratio
+  const avgRevenue = (pass1.estimatedMonthlyRevenueMin + pass1.estimatedMonthlyRevenueMax) / 2 || 1;
+  const avgExpenses = (pass1.estimatedMonthlyExpensesMin + pass1.estimatedMonthlyExpensesMax) / 2 || 1;
+  const revenueToExpenseRatio = avgRevenue / avgExpenses;
+
+  // Factor variance (risk signal - high variance means inconsistent)
+  const scores = pass1.factors.map(f => f.score);
+  const mean = scores.reduce((a, b) => a + b, 0) / (scores.length || 1);
+  const variance = scores.reduce((a, s) => a + (s - mean) ** 2, 0) / (scores.length || 1);
+  const factorVariance = Math.min(1, Math.sqrt(variance) / 50);
+
+  return {
+    avgFactorScore,
+    budgetRatio: Math.min(5, budgetRatio),
+    competitionDensity,
+    marketGrowthSignal,
+    profitMarginEstimate,
+    locationTierScore,
+    revenueToExpenseRatio: Math.min(5, revenueToExpenseRatio),
+    factorVariance,
+    topFactorScore: maxScore,
+    bottomFactorScore: minScore,
+  };
+}
+
+// --- Model ---
+// Stumps, leaf values and the base score live in models/gbdt-model.json, produced by
+// scripts/train-gbdt.ts from labelled outcomes (or the original hand-tuned set).
+
+export interface GBDTModel {
+  version: string;
+  source: 'hand-tuned' | 'gradient-boosting';
+  description?: string;
+  trainedAt?: string;
+  training?: {
+    rows: number;
+    rounds: number;
+    learningRate: number;
+    rmse: number;
+    verdictAccuracy: number;
+  };
+  baseScore: number;
+  decisionStumps: DecisionStump[];
+  interactionStumps: InteractionStump[];
+}
+
+export const DEFAULT_MODEL = defaultModel as GBDTModel;
+
+function interactionValue(features: GBDTFeatures, stump: InteractionStump): number {
+  const a = features[stump.featureA];
+  const b = features[stump.featureB];
+  switch (stump.operation) {
+    case 'multiply': return a * b;
+    case 'divide': return b !== 0 ? a / b : 0;
+    case 'min': return Math.min(a, b);
+    case 'max': return Math.max(a, b);
+  }
+}
+
+export function computeInteraction(features: GBDTFeatures, stump: InteractionStump): number {
+  const value = interactionValue(features, stump);
+  return value <= stump.threshold ? stump.leftValue * stump.weight : stump.rightValue * stump.weight;
+}
+
+// --- Per-feature explanation of the ensemble output ---
+
+export interface StumpContribution {
+  threshold: number;
+  value: number;               // feature (or interaction) value compared against the threshold
+  branch: 'left' | 'right';
+  contribution: number;        // leaf value × weight
+}
+
+export interface FeatureContribution {
+  feature: string;             // feature key, or "a × b" style label for interactions
+  features: Array<keyof GBDTFeatures>;
+  contribution: number;        // sum over this group's stumps
+  stumps: StumpContribution[];
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  contributions: FeatureContribution[];
+  clampAdjustment: number;     // rounding + clamp to [0, 100], so base + contributions + adjustment = score
+  score: number;
+}
+
+const INTERACTION_LABELS: Record<InteractionStump['operation'], (a: string, b: string) => string> = {
+  multiply: (a, b) => `${a} × ${b}`,
+  divide: (a, b) => `${a} ÷ ${b}`,
+  min: (a, b) => `min(${a}, ${b})`,
+  max: (a, b) => `max(${a}, ${b})`,
+};
+
+/** Runs the ensemble and keeps every stump's contribution, grouped by the feature it splits on. */
+export function explainScore(features: GBDTFeatures, model: GBDTModel = DEFAULT_MODEL): ScoreBreakdown {
+  const groups = new Map<string, FeatureContribution>();
+  const addStump = (feature: string, keys: Array<keyof GBDTFeatures>, stump: StumpContribution) => {
+    const group = groups.get(feature) ?? { feature, features: keys, contribution: 0, stumps: [] };
+    group.contribution += stump.contribution;
+    group.stumps.push(stump);
+    groups.set(feature, group);
+  };
+
+  // Additive contributions from single-feature stumps
+  for (const stump of model.decisionStumps) {
+    const value = features[stump.featureKey];
+    const branch = value <= stump.threshold ? 'left' : 'right';
+    const leaf = branch === 'left' ? stump.leftValue : stump.rightValue;
+    addStump(stump.featureKey, [stump.featureKey], { threshold: stump.threshold, value, branch, contribution: leaf * stump.weight });
+  }
+
+  // Additive contributions from interaction stumps
+  for (const stump of model.interactionStumps) {
+    const value = interactionValue(features, stump);
+    const branch = value <= stump.threshold ? 'left' : 'right';
+    const label = INTERACTION_LABELS[stump.operation](stump.featureA, stump.featureB);
+    addStump(label, [stump.featureA, stump.featureB], { threshold: stump.threshold, value, branch, contribution: computeInteraction(features, stump) });
+  }
+
+  const contributions = Array.from(groups.values());
+  const raw = model.baseScore + contributions.reduce((sum, c) => sum + c.contribution, 0);
+  // Clamp to [0, 100]
+  const score = Math.round(Math.min(100, Math.max(0, raw)));
+  return { base: model.baseScore, contributions, clampAdjustment: score - raw, score };
+}
+
+export function gbdtPredict(features: GBDTFeatures, model: GBDTModel = DEFAULT_MODEL): number {
+  return explainScore(features, model).score;
+}
+
+// Verdict from score with hysteresis bands
+export function scoreToVerdict(score: number, budgetRatio: number): 'GO' | 'CAUTION' | 'AVOID' {
+  if (score >= 62 && budgetRatio >= 0.5) return 'GO';
+  if (score < 35 || budgetRatio < 0.25) return 'AVOID';
+  return 'CAUTION';
+}
+
+export interface ScoringResult {
+  score: number;
+  verdict: 'GO' | 'CAUTION' | 'AVOID';
+  factors: DynamicFactor[];
+  breakEvenMonths: number;
+  roi: number;
+  financialProjections: YearProjection[];
+  budgetFitPercent: number;
+  gbdtFeatures: GBDTFeatures; // Expose for transparency
+  scoreBreakdown: ScoreBreakdown;
+  modelVersion: string;
+  budget: ParsedBudget;
+  simulation: FinancialSimulation;
+}
+
+export function pass2_score(pass1: Pass1Result, budget: ParsedBudget, model: GBDTModel = DEFAULT_MODEL): ScoringResult {
+  const amount = budgetAmount(budget);
+
+  // Extract ML features from Pass 1 data
+  const features = extractFeatures(pass1, amount);
+
+  // Run GBDT ensemble prediction, keeping per-feature contributions
+  const scoreBreakdown = explainScore(features, model);
+  const score = scoreBreakdown.score;
+
+  const verdict = scoreToVerdict(score, features.budgetRatio);
+
+  // Budget fit
+  const budgetFitPercent = Math.min(100, Math.round(features.budgetRatio * 100));
+
+  // Financial projections: midpoint estimate plus Monte Carlo bands over the Pass 1 ranges
+  const ranges: FinancialRanges = {
+    setupCost: { min: pass1.estimatedSetupCostMin, max: pass1.estimatedSetupCostMax },
+    monthlyRevenue: { min: pass1.estimatedMonthlyRevenueMin, max: pass1.estimatedMonthlyRevenueMax },
+    monthlyExpenses: { min: pass1.estimatedMonthlyExpensesMin, max: pass1.estimatedMonthlyExpensesMax },
+  };
+  const { breakEvenMonths, roi, financialProjections } = projectFinancials({
+    setupCost: midpoint(ranges.setupCost),
+    monthlyRevenue: midpoint(ranges.monthlyRevenue),
+    monthlyExpenses: midpoint(ranges.monthlyExpenses),
+  }, score, amount);
+  const simulation = simulateFinancials(ranges, score, amount);
+
+  return { score, verdict, factors: pass1.factors, breakEvenMonths, roi, financialProjections, budgetFitPercent, gbdtFeatures: features, scoreBreakdown, modelVersion: model.version, budget, simulation };
+}
+
+// ============================================
+// Monthly breakdown with seasonal variance
+// ============================================
+
+export function generateYearlyWithMonths(yearlyData: YearProjection[]) {
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const seasonalWeights = [0.07, 0.06, 0.08, 0.08, 0.08, 0.08, 0.08, 0.09, 0.09, 0.10, 0.10, 0.09];
+  return yearlyData.map((y) => ({
+    ...y,
+    months: monthNames.map((month, i) => ({
+      month,
+      revenue: Math.round(y.revenue * seasonalWeights[i]),
+      expenses: Math.round(y.expenses / 12),
+      profit: Math.round(y.revenue * seasonalWeights[i] - y.expenses / 12),
+    })),
+  }));
+}
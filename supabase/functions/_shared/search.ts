@@ -0,0 +1,220 @@
+// ============================================
+// WEB SEARCH PROVIDER LAYER
+// ============================================
+// Real-time grounding for Pass 1 goes through a SearchProvider. Firecrawl is the hosted
+// option, SearXNG (or anything speaking its JSON API) the self-hosted one, and the
+// fixture provider returns canned results for offline runs. Providers are tried in the
+// configured order until one returns results. Kept free of Deno globals so tests can
+// import it.
+
+import { isSafeUrl } from './sources.ts';
+
+export interface SearchHit {
+  title: string;
+  url: string;
+  snippet: string;  // short description for the sources list
+  content: string;  // longer excerpt for the prompt; may equal the snippet
+}
+
+export interface SearchProvider {
+  name: string;
+  timeoutMs: number;
+  limit: number;
+  search(query: string): Promise<SearchHit[]>;
+}
+
+export interface SearchOutcome {
+  provider: string | null;  // provider that answered; null when none returned results
+  hits: SearchHit[];
+}
+
+interface ProviderOptions {
+  timeoutMs?: number;
+  limit?: number;
+}
+
+// Firecrawl scrapes each result page, so it needs far longer than a metasearch query
+const PROVIDER_DEFAULTS: Record<string, { timeoutMs: number; limit: number }> = {
+  firecrawl: { timeoutMs: 15000, limit: 5 },
+  searxng: { timeoutMs: 8000, limit: 5 },
+  fixture: { timeoutMs: 0, limit: 5 },
+};
+
+const MAX_CONTENT_LENGTH = 500;
+
+// --- Firecrawl /v1/search ---
+
+export const FIRECRAWL_SEARCH_URL = 'https://api.firecrawl.dev/v1/search';
+
+interface FirecrawlResult {
+  url?: string;
+  title?: string;
+  description?: string;
+  markdown?: string;
+}
+
+export function createFirecrawlProvider(options: ProviderOptions & { apiKey?: string }): SearchProvider {
+  const timeoutMs = options.timeoutMs ?? PROVIDER_DEFAULTS.firecrawl.timeoutMs;
+  const limit = options.limit ?? PROVIDER_DEFAULTS.firecrawl.limit;
+  return {
+    name: 'firecrawl',
+    timeoutMs,
+    limit,
+    async search(query) {
+      if (!options.apiKey) throw new Error('SEARCH_NOT_CONFIGURED');
+
+      const response = await fetch(FIRECRAWL_SEARCH_URL, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${options.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, limit, scrapeOptions: { formats: ['markdown'] } }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        console.error('Firecrawl search error:', response.status);
+        throw new Error('SEARCH_FAILED');
+      }
+
+      const data = await response.json();
+      if (!data.success || !Array.isArray(data.data)) return [];
+      return (data.data as FirecrawlResult[]).map((r) => toHit(r.title, r.url, r.description, r.markdown || r.description));
+    },
+  };
+}
+
+// --- SearXNG /search?format=json (self-hosted) ---
+
+interface SearxngResult {
+  url?: string;
+  title?: string;
+  content?: string;
+}
+
+export function createSearxngProvider(options: ProviderOptions & { baseUrl: string }): SearchProvider {
+  const baseUrl = options.baseUrl.trim().replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? PROVIDER_DEFAULTS.searxng.timeoutMs;
+  const limit = options.limit ?? PROVIDER_DEFAULTS.searxng.limit;
+  return {
+    name: 'searxng',
+    timeoutMs,
+    limit,
+    async search(query) {
+      if (!/^https?:\/\//i.test(baseUrl)) throw new Error('SEARCH_NOT_CONFIGURED');
+
+      // The instance must have "json" enabled under search.formats in settings.yml
+      const url = `${baseUrl}/search?${new URLSearchParams({ q: query, format: 'json' })}`;
+      const response = await fetch(url, { headers: { 'Accept': 'application/json' }, signal: AbortSignal.timeout(timeoutMs) });
+      if (!response.ok) {
+        console.error('SearXNG search error:', response.status);
+        throw new Error('SEARCH_FAILED');
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data.results)) return [];
+      return (data.results as SearxngResult[]).map((r) => toHit(r.title, r.url, r.content, r.content));
+    },
+  };
+}
+
+// --- Static fixture for offline runs and tests ---
+
+export const FIXTURE_HITS: SearchHit[] = [
+  {
+    title: 'Small business market overview (fixture)',
+    url: 'https://example.com/fixtures/market-overview',
+    snippet: 'Canned search result used when SEARCH_PROVIDERS=fixture.',
+    content: 'Canned search result used when SEARCH_PROVIDERS=fixture. Figures here are placeholders, not market data.',
+  },
+  {
+    title: 'Local competition survey (fixture)',
+    url: 'https://example.com/fixtures/competition-survey',
+    snippet: 'Canned competitor counts for offline runs.',
+    content: 'Canned competitor counts for offline runs. Treat as illustrative only.',
+  },
+];
+
+export function createFixtureProvider(hits: SearchHit[] = FIXTURE_HITS, options: ProviderOptions = {}): SearchProvider {
+  const limit = options.limit ?? PROVIDER_DEFAULTS.fixture.limit;
+  return {
+    name: 'fixture',
+    timeoutMs: options.timeoutMs ?? PROVIDER_DEFAULTS.fixture.timeoutMs,
+    limit,
+    async search() {
+      return hits.slice(0, limit);
+    },
+  };
+}
+
+function toHit(title: unknown, url: unknown, snippet: unknown, content: unknown): SearchHit {
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return {
+    title: text(title) || 'Untitled',
+    url: text(url),
+    snippet: text(snippet),
+    content: text(content).slice(0, MAX_CONTENT_LENGTH),
+  };
+}
+
+// --- Configuration ---
+
+type EnvGetter = (key: string) => string | undefined;
+
+function numberFromEnv(env: EnvGetter, key: string): number | undefined {
+  const parsed = parseInt(env(key) ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function createSearchProvider(kind: string, env: EnvGetter): SearchProvider {
+  const prefix = kind.toUpperCase();
+  const options = { timeoutMs: numberFromEnv(env, `${prefix}_TIMEOUT_MS`), limit: numberFromEnv(env, `${prefix}_RESULT_LIMIT`) };
+  switch (kind) {
+    case 'firecrawl':
+      return createFirecrawlProvider({ ...options, apiKey: env('FIRECRAWL_API_KEY') });
+    case 'searxng':
+      return createSearxngProvider({ ...options, baseUrl: env('SEARXNG_BASE_URL') || '' });
+    case 'fixture':
+      return createFixtureProvider(FIXTURE_HITS, options);
+    default:
+      throw new Error('SERVICE_CONFIG_ERROR');
+  }
+}
+
+/**
+ * Providers to try, in order. SEARCH_PROVIDERS is a comma-separated list
+ * ("searxng,firecrawl", or "none" to turn search off); without it, Firecrawl is used
+ * when FIRECRAWL_API_KEY is set and SearXNG when SEARXNG_BASE_URL is. Each provider's
+ * timeout and result count can be overridden with <NAME>_TIMEOUT_MS / <NAME>_RESULT_LIMIT.
+ */
+export function loadSearchProviders(env: EnvGetter): SearchProvider[] {
+  const configured = (env('SEARCH_PROVIDERS') ?? '').split(',').map((kind) => kind.trim().toLowerCase()).filter(Boolean);
+  if (configured.includes('none')) return [];
+
+  const kinds = configured.length > 0
+    ? configured
+    : [env('FIRECRAWL_API_KEY') ? 'firecrawl' : '', env('SEARXNG_BASE_URL') ? 'searxng' : ''].filter(Boolean);
+  return [...new Set(kinds)].map((kind) => createSearchProvider(kind, env));
+}
+
+/** Label for logs and the cache key: "firecrawl", "searxng>firecrawl" or "none". */
+export function describeSearchProviders(providers: SearchProvider[]): string {
+  return providers.length > 0 ? providers.map((provider) => provider.name).join('>') : 'none';
+}
+
+/**
+ * Runs the query against each provider in turn and returns the first non-empty
+ * result set. Failures and timeouts are logged and fall through to the next provider;
+ * search never fails the analysis.
+ */
+export async function searchWeb(providers: SearchProvider[], query: string): Promise<SearchOutcome> {
+  for (const provider of providers) {
+    try {
+      // Results without a usable link cannot be cited, so they are left out entirely
+      const hits = (await provider.search(query)).filter((hit) => isSafeUrl(hit.url)).slice(0, provider.limit);
+      if (hits.length > 0) return { provider: provider.name, hits };
+      console.warn(`Web search: ${provider.name} returned no results`);
+    } catch (err) {
+      console.error(`Web search: ${provider.name} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+  if (providers.length === 0) console.warn('No web search provider configured, skipping web search');
+  return { provider: null, hits: [] };
+}
@@ -0,0 +1,193 @@
+// ============================================
+// FINANCIAL PROJECTIONS & MONTE CARLO
+// ============================================
+// Turns Pass 1's min/max ranges into break-even, ROI and 5-year projections.
+// projectFinancials is the single-point math; simulateFinancials samples the ranges
+// with a seeded PRNG so the same analysis always produces the same P10/P50/P90 bands.
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface FinancialRanges {
+  setupCost: Range;
+  monthlyRevenue: Range;
+  monthlyExpenses: Range;
+}
+
+export interface FinancialPoint {
+  setupCost: number;
+  monthlyRevenue: number;
+  monthlyExpenses: number;
+}
+
+export interface YearProjection {
+  year: number;
+  revenue: number;
+  expenses: number;
+  profit: number;
+}
+
+export interface FinancialOutcome {
+  breakEvenMonths: number;
+  roi: number;
+  financialProjections: YearProjection[];
+}
+
+// Break-even is reported as this many months when monthly profit never turns positive
+export const BREAK_EVEN_CAP_MONTHS = 36;
+export const PROJECTION_YEARS = 5;
+
+export function midpoint(range: Range): number {
+  return (range.min + range.max) / 2;
+}
+
+/**
+ * Projection math for one set of inputs. `revenueShocks` scales each year's revenue
+ * (1 = as estimated); the deterministic path leaves it out.
+ */
+export function projectFinancials(point: FinancialPoint, score: number, budgetAmount: number, revenueShocks: number[] = []): FinancialOutcome {
+  const setupCost = point.setupCost || 1;
+
+  // Apply GBDT-derived confidence adjustment to financial projections
+  // Score < 50 = higher risk, slower ramp-up; Score > 70 = faster traction
+  const confidenceMultiplier = 0.6 + (score / 100) * 0.8; // Range: 0.6 - 1.4
+  const adjustedMonthlyRevenue = point.monthlyRevenue * confidenceMultiplier;
+  const adjustedMonthlyProfit = adjustedMonthlyRevenue - point.monthlyExpenses;
+
+  const breakEvenMonths = adjustedMonthlyProfit > 0 ? Math.ceil(setupCost / adjustedMonthlyProfit) : BREAK_EVEN_CAP_MONTHS;
+  const roi = adjustedMonthlyProfit > 0
+    ? Math.round((adjustedMonthlyProfit * 12 / budgetAmount) * 100)
+    : -Math.round((Math.abs(adjustedMonthlyProfit) * 12 / budgetAmount) * 100);
+
+  const currentYear = new Date().getFullYear();
+  // Growth trajectory varies by score: low-scoring businesses grow slower
+  const baseGrowth = 0.08 + (score / 100) * 0.12; // 8%-20% annual growth based on score
+  const financialProjections = Array.from({ length: PROJECTION_YEARS }, (_, i) => {
+    const growth = 1 + baseGrowth * i;
+    const rev = Math.round(point.monthlyRevenue * 12 * growth * (revenueShocks[i] ?? 1));
+    const exp = Math.round(point.monthlyExpenses * 12 * (1 + i * 0.05));
+    return { year: currentYear + i, revenue: rev, expenses: exp, profit: rev - exp };
+  });
+
+  return { breakEvenMonths, roi, financialProjections };
+}
+
+// --- Seeded sampling ---
+
+/** mulberry32: tiny, fast, and good enough for a few thousand draws. */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seedFromString(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Triangular draw over [min, max] peaking at `mode`; the midpoint is the model's best guess. */
+function sampleTriangular(rng: () => number, min: number, max: number, mode = (min + max) / 2): number {
+  if (max <= min) return min;
+  const u = rng();
+  const cut = (mode - min) / (max - min);
+  return u < cut
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+// --- Percentile bands ---
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface YearProfitBand extends PercentileBand {
+  year: number;
+}
+
+export interface FinancialSimulation {
+  runs: number;
+  seed: number;
+  yearlyProfit: YearProfitBand[];
+  breakEvenMonths: PercentileBand;
+  roi: PercentileBand;
+  // Share of runs whose monthly profit never covers the setup cost within the cap
+  noBreakEvenProbability: number;
+}
+
+export interface SimulationOptions {
+  runs?: number;
+  seed?: number;
+  // Year-on-year demand uncertainty applied on top of the Pass 1 ranges (±, as a fraction)
+  yearlyRevenueVolatility?: number;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function band(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: Math.round(percentile(sorted, 0.1)),
+    p50: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9)),
+  };
+}
+
+export function simulateFinancials(ranges: FinancialRanges, score: number, budgetAmount: number, options: SimulationOptions = {}): FinancialSimulation {
+  const runs = options.runs ?? 1000;
+  const volatility = options.yearlyRevenueVolatility ?? 0.1;
+  // Default seed comes from the inputs so identical analyses get identical bands
+  const seed = options.seed ?? seedFromString(JSON.stringify([ranges, score, budgetAmount]));
+  const rng = createRng(seed);
+
+  const yearlyProfits: number[][] = Array.from({ length: PROJECTION_YEARS }, () => []);
+  const breakEvens: number[] = [];
+  const rois: number[] = [];
+  let noBreakEven = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const point: FinancialPoint = {
+      setupCost: sampleTriangular(rng, ranges.setupCost.min, ranges.setupCost.max),
+      monthlyRevenue: sampleTriangular(rng, ranges.monthlyRevenue.min, ranges.monthlyRevenue.max),
+      monthlyExpenses: sampleTriangular(rng, ranges.monthlyExpenses.min, ranges.monthlyExpenses.max),
+    };
+    const shocks = Array.from({ length: PROJECTION_YEARS }, () => sampleTriangular(rng, 1 - volatility, 1 + volatility));
+    const outcome = projectFinancials(point, score, budgetAmount, shocks);
+
+    outcome.financialProjections.forEach((year, i) => yearlyProfits[i].push(year.profit));
+    breakEvens.push(outcome.breakEvenMonths);
+    rois.push(outcome.roi);
+    if (outcome.breakEvenMonths >= BREAK_EVEN_CAP_MONTHS) noBreakEven++;
+  }
+
+  const currentYear = new Date().getFullYear();
+  return {
+    runs,
+    seed,
+    yearlyProfit: yearlyProfits.map((profits, i) => ({ year: currentYear + i, ...band(profits) })),
+    breakEvenMonths: band(breakEvens),
+    roi: band(rois),
+    noBreakEvenProbability: runs > 0 ? Math.round((noBreakEven / runs) * 100) / 100 : 0,
+  };
+}
@@ -0,0 +1,57 @@
+// ============================================
+// SOURCES & CITATIONS
+// ============================================
+// Web results and datasets the analysis was grounded in. Each gets a numeric id that
+// Pass 1 market data points reference through sourceIds and Pass 3 explanations cite
+// inline as "[n]". Ids the model invents are dropped so every citation resolves.
+
+export interface Source {
+  id: number;
+  kind: 'web' | 'dataset';
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+const CITATION = /\s?\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/** Only http(s) links are rendered as clickable footnotes. */
+export function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/** Source ids from model output, keeping known ids only, deduplicated. */
+export function knownSourceIds(raw: unknown, known: Set<number>): number[] {
+  if (!Array.isArray(raw)) return [];
+  const ids = raw.map((id) => Number(id)).filter((id) => Number.isInteger(id) && known.has(id));
+  return [...new Set(ids)];
+}
+
+/** Drops "[n]" markers whose ids are not in `known`; "[1, 7]" keeps only the known ids. */
+export function stripUnknownCitations(text: string, known: Set<number>): string {
+  return text.replace(CITATION, (marker, list: string) => {
+    const ids = list.split(',').map((id) => Number(id.trim())).filter((id) => known.has(id));
+    return ids.length > 0 ? marker.replace(list, ids.join(', ')) : '';
+  });
+}
+
+/** Ids cited inline in a piece of text, in order of first appearance. */
+export function citedSourceIds(text: string): number[] {
+  const ids: number[] = [];
+  for (const match of text.matchAll(CITATION)) {
+    for (const id of match[1].split(',').map((value) => Number(value.trim()))) {
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/** Numbered list for prompts: "[1] Title (url)". */
+export function formatSourcesForPrompt(sources: Source[]): string {
+  return sources.map((source) => `[${source.id}] ${source.title} (${source.url})`).join('\n');
+}
@@ -0,0 +1,71 @@
+// ============================================
+// PIPELINE TELEMETRY
+// ============================================
+// One usage_analytics row per analyze-business request (action_type 'analysis'). The
+// pipeline fills a PipelineTrace as it goes, so a failed run still reports the stages
+// it got through; the handler adds the outcome and writes the row. analysis-followup
+// writes one 'followup' row per question.
+
+import type { LLMPass, TokenUsage } from './llm.ts';
+
+export const ANALYSIS_ACTION = 'analysis';
+export const FOLLOWUP_ACTION = 'followup';
+
+// Revisions parse corrections on the Pass 1 model but record them under their own key,
+// so they do not show up as Pass 1 runs
+export type PipelineStage = 'realtimeData' | 'factorDiscovery' | 'corrections' | 'scoring' | 'explanation';
+export type TokenStage = LLMPass | 'corrections';
+
+export interface PipelineTrace {
+  latencyMs: Partial<Record<PipelineStage, number>>;
+  sources: { webSearch: boolean; nationalData: boolean; cityDemographics: boolean } | null;
+  searchProvider: string | null;
+  tokens: Partial<Record<TokenStage, TokenUsage>>;
+}
+
+export type AnalysisOutcome = 'success' | 'error' | 'refused';
+
+/** usage_analytics.metadata for an 'analysis' row. */
+export interface AnalysisEventMetadata extends PipelineTrace {
+  outcome: AnalysisOutcome;
+  cache: 'hit' | 'miss' | 'bypass' | null;  // null when refused or failed before the cache lookup
+  stream: boolean;
+  pipelineVersion: string;
+  aiModel: string | null;
+  totalLatencyMs: number;
+  totalTokens: number;
+  errorCode: string | null;
+}
+
+/** usage_analytics.metadata for a 'followup' row. */
+export interface FollowupEventMetadata {
+  outcome: AnalysisOutcome;
+  aiModel: string | null;
+  totalLatencyMs: number;
+  totalTokens: number;
+  errorCode: string | null;
+}
+
+export function newTrace(): PipelineTrace {
+  return { latencyMs: {}, sources: null, searchProvider: null, tokens: {} };
+}
+
+/** Runs one stage and records how long it took, even when it throws. */
+export async function timed<T>(trace: PipelineTrace, stage: PipelineStage, run: () => Promise<T> | T): Promise<T> {
+  const started = performance.now();
+  try {
+    return await run();
+  } finally {
+    trace.latencyMs[stage] = Math.round(performance.now() - started);
+  }
+}
+
+export function totalTokens(trace: PipelineTrace): number {
+  return Object.values(trace.tokens).reduce((n, usage) => n + (usage ? usage.promptTokens + usage.completionTokens : 0), 0);
+}
+
+/** Error codes are the Error('CODE') messages the handler maps; anything else is UNKNOWN_ERROR. */
+export function errorCode(error: unknown): string {
+  const message = error instanceof Error ? error.message : '';
+  return /^[A-Z][A-Z0-9_]+$/.test(message) ? message : 'UNKNOWN_ERROR';
+}
@@ -0,0 +1,164 @@
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadLLMConfig, describePassModel, runConversation, type ProfileAISettings, type TokenUsage } from '../_shared/llm.ts';
+import { parseFollowupRequest, buildFollowupMessages, HISTORY_LIMIT, type FollowupAnalysis, type FollowupMessage } from '../_shared/followup.ts';
+import { checkQuotaResult, type QuotaRow } from '../_shared/quota.ts';
+import { FOLLOWUP_ACTION, errorCode, type AnalysisOutcome, type FollowupEventMetadata } from '../_shared/telemetry.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  // Lets the browser read Retry-After on quota refusals
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+// Provider failures reuse analyze-business's wording
+const ERROR_MESSAGES: Record<string, { status: number; message: string }> = {
+  'RATE_LIMITED': { status: 429, message: 'Service is busy. Please try again in a moment.' },
+  'CREDITS_EXHAUSTED': { status: 503, message: 'Service temporarily unavailable.' },
+  'SERVICE_CONFIG_ERROR': { status: 503, message: 'Service configuration error.' },
+  'SERVICE_ERROR': { status: 503, message: 'Answer service unavailable. Please try again.' },
+  'EMPTY_RESPONSE': { status: 500, message: 'No answer came back. Please try again.' },
+  'QUOTA_UNAVAILABLE': { status: 503, message: 'Usage limits could not be checked right now. Please try again in a moment.' },
+  'ANALYSIS_NOT_FOUND': { status: 404, message: 'This analysis could not be found.' },
+  'OLLAMA_NOT_CONFIGURED': { status: 400, message: 'Ollama is selected but no server URL is set. Add it in Settings.' },
+  'OLLAMA_URL_NOT_ALLOWED': { status: 400, message: 'Your Ollama server URL must be public; local and private network addresses are not allowed. Update it in Settings.' },
+  'OLLAMA_UNREACHABLE': { status: 502, message: 'Could not reach your Ollama server. Check the URL in Settings and that it is running.' },
+  'OLLAMA_MODEL_NOT_FOUND': { status: 502, message: 'Your Ollama server does not have the selected model. Pull it or change the model in Settings.' },
+};
+
+// ============================================
+// TELEMETRY: one usage_analytics row per question
+// ============================================
+
+interface FollowupTelemetry {
+  client: ReturnType<typeof createClient>;
+  userId: string;
+  started: number;
+  aiModel: string | null;
+  tokens: TokenUsage;
+}
+
+// Best effort: a failed write is logged and never affects the response
+async function recordFollowupEvent(telemetry: FollowupTelemetry, outcome: AnalysisOutcome, error?: unknown): Promise<void> {
+  const metadata: FollowupEventMetadata = {
+    outcome,
+    aiModel: telemetry.aiModel,
+    totalLatencyMs: Math.round(performance.now() - telemetry.started),
+    totalTokens: telemetry.tokens.promptTokens + telemetry.tokens.completionTokens,
+    errorCode: error === undefined ? null : errorCode(error),
+  };
+  try {
+    const { error: insertError } = await telemetry.client.from('usage_analytics').insert({ user_id: telemetry.userId, action_type: FOLLOWUP_ACTION, metadata });
+    if (insertError) console.error('Telemetry write failed:', insertError.message);
+  } catch (err) {
+    console.error('Telemetry write failed:', err);
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+// Follow-up questions about one saved analysis. The analysis is read with the caller's
+// client, so RLS limits questions to their own analyses; messages are written with the
+// service client because users can only read analysis_followups. Each question counts as
+// one request against the same per-user limits as an analysis.
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  const started = performance.now();
+  let telemetry: FollowupTelemetry | null = null;
+  try {
+    // Auth
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) return json({ error: 'Authentication required' }, 401);
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', { global: { headers: { Authorization: authHeader } } });
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !claimsData?.user) return json({ error: 'Invalid or expired token' }, 401);
+    const userId = claimsData.user.id;
+
+    // Validate input
+    let body: unknown;
+    try { body = await req.json(); } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+    const { data: request, issues } = parseFollowupRequest(body);
+    if (!request) return json({ error: 'Invalid follow-up question', issues }, 400);
+    telemetry = { client: supabaseClient, userId, started, aiModel: null, tokens: { promptTokens: 0, completionTokens: 0 } };
+
+    // Per-user limits (analysis_quotas); a failed check refuses the question with a 503
+    const { data: quotaRow, error: quotaError } = await supabaseClient.rpc('consume_analysis_quota', { p_count: 1 }).maybeSingle();
+    const refused = checkQuotaResult(quotaRow as QuotaRow | null, quotaError);
+    if (refused) {
+      console.log(`Quota refused (${refused.code}), retry in ${refused.retryAfterSeconds}s`);
+      await recordFollowupEvent(telemetry, 'refused', new Error(refused.code));
+      return new Response(JSON.stringify(refused), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(refused.retryAfterSeconds) },
+      });
+    }
+
+    const { data: saved, error: analysisError } = await supabaseClient
+      .from('business_analyses')
+      .select('analysis_data')
+      .eq('id', request.analysisId)
+      .maybeSingle();
+    if (analysisError) console.error('Analysis lookup failed:', analysisError.message);
+    const analysis = saved?.analysis_data as FollowupAnalysis | null;
+    if (!analysis?.verdict) throw new Error('ANALYSIS_NOT_FOUND');
+
+    const { data: earlier, error: historyError } = await supabaseClient
+      .from('analysis_followups')
+      .select('role, content')
+      .eq('analysis_id', request.analysisId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+    if (historyError) console.error('Follow-up history failed:', historyError.message);
+    const history = ((earlier ?? []) as FollowupMessage[]).reverse();
+
+    // Same provider/model resolution as the analysis pipeline; answers use the explanation pass
+    const { data: profile } = await supabaseClient
+      .from('profiles')
+      .select('preferred_ai_model, ollama_base_url, ollama_model')
+      .eq('user_id', userId)
+      .maybeSingle();
+    const llm = loadLLMConfig((key) => Deno.env.get(key), profile as ProfileAISettings | null, (host, type) => Deno.resolveDns(host, type));
+    telemetry.aiModel = describePassModel(llm.explanation);
+
+    const askedAt = new Date().toISOString();
+    const { tokens } = telemetry;
+    const answer = (await runConversation(llm, 'explanation', buildFollowupMessages(analysis, history, request.question), (usage) => {
+      tokens.promptTokens += usage.promptTokens;
+      tokens.completionTokens += usage.completionTokens;
+    })).trim();
+    if (!answer) throw new Error('EMPTY_RESPONSE');
+    console.log(`Follow-up answered: ${history.length} earlier messages, ${Math.round(performance.now() - started)}ms`);
+
+    // Best effort: the answer is returned even when the thread could not be saved. Explicit
+    // timestamps keep the question ahead of its answer (one insert shares a single now())
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (serviceKey) {
+      const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+      const { error: insertError } = await serviceClient.from('analysis_followups').insert([
+        { analysis_id: request.analysisId, user_id: userId, role: 'user', content: request.question, created_at: askedAt },
+        { analysis_id: request.analysisId, user_id: userId, role: 'assistant', content: answer, created_at: new Date().toISOString() },
+      ]);
+      if (insertError) console.error('Follow-up write failed:', insertError.message);
+    }
+
+    await recordFollowupEvent(telemetry, 'success');
+    return json({ answer, aiModel: telemetry.aiModel });
+  } catch (error) {
+    const code = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    console.error('Follow-up failed:', code);
+    if (telemetry) await recordFollowupEvent(telemetry, 'error', error);
+    const { status, message } = ERROR_MESSAGES[code] ?? { status: 500, message: 'Could not answer that. Please try again.' };
+    return json({ error: message }, status);
+  }
+});
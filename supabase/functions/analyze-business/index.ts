@@ -1,11 +1,29 @@
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadLLMConfig, describeModels, runStructuredPass, type PipelineLLMConfig, type ProfileAISettings, type StructuredResult, type TokenUsage } from '../_shared/llm.ts';
+import { pass1Schema, pass3Schema } from '../_shared/schemas.ts';
+import { parseBudget, describeBudget, loadExchangeRates, currencySymbol, type ParsedBudget } from '../_shared/budget.ts';
+import { resolveCountry, unsupportedCountry, unsupportedCountryMessage, type CountryProfile } from '../_shared/countries.ts';
+import { formatSourcesForPrompt, type Source } from '../_shared/sources.ts';
+import { loadSearchProviders, describeSearchProviders, searchWeb, type SearchProvider } from '../_shared/search.ts';
+import { fetchWorldBankIndicators, formatNationalIndicators, hasAllIndicators, snapshotIndicators, type IndicatorOrigin, type IndicatorRow } from '../_shared/indicators.ts';
+import { checkQuotaResult, type QuotaRow } from '../_shared/quota.ts';
+import { MAX_COMPARE_LOCATIONS, normalizeLocations, rankComparison, mapWithConcurrency } from '../_shared/compare.ts';
+import { recommendCities, type CityDemographicsRow } from '../_shared/recommend.ts';
+import { correctionsSchema, correctionsFromResult, applyCorrections, describeChanges, hasCorrections, MAX_CORRECTION_LENGTH, type Corrections } from '../_shared/corrections.ts';
+import { ANALYSIS_ACTION, newTrace, timed, totalTokens, errorCode, type AnalysisEventMetadata, type AnalysisOutcome, type PipelineTrace } from '../_shared/telemetry.ts';
+import { cityCandidates, formatCityDemographics, toLocationProfile, type CityMatchRow, type LocationProfile } from '../_shared/cities.ts';
+import { sanitizeString, sanitizePass1, sanitizePass3 } from '../_shared/sanitize.ts';
+import { assembleAnalysis, type AnalysisInput, type AnalysisPayload, type PassQuality } from '../_shared/assemble.ts';
+import { pass2_score, DEFAULT_MODEL, type DynamicFactor, type Pass1Result, type ScoringResult } from '../_shared/scoring.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  // Lets the browser read Retry-After on quota refusals
+  'Access-Control-Expose-Headers': 'Retry-After',
 };
 
 // ============================================
@@ -30,6 +48,8 @@ function validateInput(body: unknown): ValidationResult {
     if (typeof location !== 'string') return { valid: false, error: 'Location must be a string' };
     trimmedLocation = location.trim();
     if (trimmedLocation.length > 200) return { valid: false, error: 'Location must be less than 200 characters' };
+    const unsupported = unsupportedCountry(trimmedLocation);
+    if (unsupported) return { valid: false, error: unsupportedCountryMessage(unsupported) };
   }
   let trimmedBudget = '';
   if (budget) {
@@ -40,419 +60,228 @@ function validateInput(body: unknown): ValidationResult {
   return { valid: true, data: { businessIdea: trimmedIdea, location: trimmedLocation || 'Not specified', budget: trimmedBudget || 'Not specified' } };
 }
 
-// ============================================
-// HELPER: Call AI Gateway
-// ============================================
+const MAX_BATCH_ROWS = 50;
 
-async function callAI(systemPrompt: string, userPrompt: string, maxTokens = 3000, temperature = 0.4): Promise<string> {
-  const apiKey = Deno.env.get('LOVABLE_API_KEY');
-  if (!apiKey) throw new Error('SERVICE_CONFIG_ERROR');
-
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      model: 'google/gemini-3-flash-preview',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature,
-      max_tokens: maxTokens,
-    }),
-  });
+interface BatchValidationResult {
+  valid: boolean;
+  error?: string;
+  data?: { name: string; rows: NonNullable<ValidationResult['data']>[] };
+}
 
-  if (!response.ok) {
-    if (response.status === 429) throw new Error('RATE_LIMITED');
-    if (response.status === 402) throw new Error('CREDITS_EXHAUSTED');
-    throw new Error('SERVICE_ERROR');
+// Every row must pass validateInput; the error names the first bad row (1-based, like the CSV preview)
+function validateBatch(batch: unknown): BatchValidationResult {
+  if (!batch || typeof batch !== 'object') return { valid: false, error: 'Invalid batch' };
+  const { name, rows } = batch as Record<string, unknown>;
+  if (!Array.isArray(rows) || rows.length === 0) return { valid: false, error: 'Batch has no rows' };
+  if (rows.length > MAX_BATCH_ROWS) return { valid: false, error: `Batch must have at most ${MAX_BATCH_ROWS} rows` };
+  const validRows: NonNullable<ValidationResult['data']>[] = [];
+  for (const [index, row] of rows.entries()) {
+    const validation = validateInput(row);
+    if (!validation.valid || !validation.data) return { valid: false, error: `Row ${index + 1}: ${validation.error}` };
+    validRows.push(validation.data);
   }
+  const trimmedName = typeof name === 'string' ? name.trim().slice(0, 200) : '';
+  return { valid: true, data: { name: trimmedName || `Batch of ${rows.length} ideas`, rows: validRows } };
+}
 
-  const aiResponse = await response.json();
-  const content = aiResponse.choices?.[0]?.message?.content;
-  if (!content) throw new Error('EMPTY_RESPONSE');
-  return content;
+interface ComparisonValidationResult {
+  valid: boolean;
+  error?: string;
+  data?: { businessIdea: string; budget: string; locations: string[] };
+}
+
+// Idea and budget are checked as for a single analysis; locations replace the single location
+function validateComparison(body: unknown): ComparisonValidationResult {
+  const validation = validateInput({ ...(body as Record<string, unknown>), location: undefined });
+  if (!validation.valid || !validation.data) return { valid: false, error: validation.error };
+  const locations = normalizeLocations((body as Record<string, unknown>).locations);
+  if (locations.length < 2) return { valid: false, error: 'Add at least two locations to compare' };
+  if (locations.length > MAX_COMPARE_LOCATIONS) return { valid: false, error: `Compare at most ${MAX_COMPARE_LOCATIONS} locations at a time` };
+  if (locations.some((location) => location.length > 200)) return { valid: false, error: 'Location must be less than 200 characters' };
+  const unsupported = locations.map(unsupportedCountry).find(Boolean);
+  if (unsupported) return { valid: false, error: unsupportedCountryMessage(unsupported) };
+  return { valid: true, data: { businessIdea: validation.data.businessIdea, budget: validation.data.budget, locations } };
 }
 
-function parseJSON(raw: string): unknown {
-  let jsonContent = raw;
-  const jsonMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (jsonMatch) jsonContent = jsonMatch[1].trim();
-  return JSON.parse(jsonContent);
+interface RecommendationValidationResult {
+  valid: boolean;
+  error?: string;
+  data?: { businessIdea: string; budget: string };
+}
+
+interface RevisionValidationResult {
+  valid: boolean;
+  error?: string;
+  data?: { analysisId: string; corrections: string };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function validateRevision(revise: unknown): RevisionValidationResult {
+  if (!revise || typeof revise !== 'object') return { valid: false, error: 'Invalid revision' };
+  const { analysisId, corrections } = revise as Record<string, unknown>;
+  if (typeof analysisId !== 'string' || !UUID_PATTERN.test(analysisId)) return { valid: false, error: 'Analysis id is required' };
+  if (typeof corrections !== 'string' || corrections.trim().length < 3) return { valid: false, error: 'Describe what to correct' };
+  if (corrections.trim().length > MAX_CORRECTION_LENGTH) return { valid: false, error: `Corrections must be less than ${MAX_CORRECTION_LENGTH} characters` };
+  return { valid: true, data: { analysisId, corrections: corrections.trim() } };
+}
+
+// City recommendations pick the location themselves, so any location sent is ignored
+function validateRecommendation(body: unknown): RecommendationValidationResult {
+  const validation = validateInput({ ...(body as Record<string, unknown>), location: undefined });
+  if (!validation.valid || !validation.data) return { valid: false, error: validation.error };
+  return { valid: true, data: { businessIdea: validation.data.businessIdea, budget: validation.data.budget } };
 }
 
 // ============================================
 // REAL-TIME DATA: Firecrawl Web Search + World Bank Population
 // ============================================
+// National figures follow the resolved country; city and neighbourhood tables only cover India.
 
 interface RealTimeData {
   webSearchResults: string;
   populationData: string;
   cityPopulationData: string;
+  locationProfile: LocationProfile | null;
+  searchProvider: string | null;
+  // Web results are [1]..[n] in webSearchResults; the World Bank dataset, when used, follows them
+  sources: Source[];
 }
 
-async function fetchRealTimeData(businessIdea: string, location: string): Promise<RealTimeData> {
-  const results: RealTimeData = { webSearchResults: '', populationData: '', cityPopulationData: '' };
+interface WebSearchResult {
+  provider: string | null;
+  text: string;
+  sources: Source[];
+}
 
-  // Extract city name from location string
-  const locationParts = location.replace(/,/g, ' ').split(/\s+/).filter(Boolean);
-  const cityName = locationParts.length > 0 ? locationParts[locationParts.length - 1] : '';
+// A comparison passes the web search it already ran for the country instead of searching per location
+async function fetchRealTimeData(search: SearchProvider[], businessIdea: string, location: string, country: CountryProfile, sharedWebSearch?: Promise<WebSearchResult>): Promise<RealTimeData> {
+  const results: RealTimeData = { webSearchResults: '', populationData: '', cityPopulationData: '', locationProfile: null, searchProvider: null, sources: [] };
 
   // Run all data fetches in parallel
   const [webResult, popResult, cityPopResult] = await Promise.allSettled([
-    fetchFirecrawlSearch(businessIdea, location),
-    fetchPopulationData(cityName || location),
-    fetchCityPopulationData(cityName || location),
+    sharedWebSearch ?? fetchWebSearch(search, businessIdea, location, country),
+    fetchNationalIndicators(location, country),
+    country.code === 'IN' ? fetchCityDemographics(location) : Promise.resolve({ text: '', profile: null }),
   ]);
 
-  if (webResult.status === 'fulfilled') results.webSearchResults = webResult.value;
-  else console.error('Firecrawl search failed:', webResult.reason);
-
-  if (popResult.status === 'fulfilled') results.populationData = popResult.value;
-  else console.error('Population data failed:', popResult.reason);
+  if (webResult.status === 'fulfilled') {
+    results.webSearchResults = webResult.value.text;
+    results.searchProvider = webResult.value.provider;
+    results.sources.push(...webResult.value.sources);
+  } else console.error('Web search failed:', webResult.reason);
+
+  if (popResult.status === 'fulfilled' && popResult.value.text) {
+    const { text, origin } = popResult.value;
+    const id = results.sources.length + 1;
+    results.populationData = `[${id}]\n${text}`;
+    results.sources.push({
+      id,
+      kind: 'dataset',
+      title: `World Bank Open Data: ${country.name} (population, urbanisation, GDP per capita)${origin === 'snapshot' ? ' [bundled snapshot]' : ''}`,
+      url: `https://data.worldbank.org/country/${country.code}`,
+      snippet: text.split('\n')[0],
+    });
+  } else if (popResult.status === 'rejected') console.error('Population data failed:', popResult.reason);
 
-  if (cityPopResult.status === 'fulfilled') results.cityPopulationData = cityPopResult.value;
-  else console.error('City population data failed:', cityPopResult.reason);
+  if (cityPopResult.status === 'fulfilled') {
+    results.cityPopulationData = cityPopResult.value.text;
+    results.locationProfile = cityPopResult.value.profile;
+  } else console.error('City population data failed:', cityPopResult.reason);
 
   return results;
 }
 
-async function fetchFirecrawlSearch(businessIdea: string, location: string): Promise<string> {
-  const apiKey = Deno.env.get('FIRECRAWL_API_KEY');
-  if (!apiKey) {
-    console.warn('FIRECRAWL_API_KEY not configured, skipping web search');
-    return '';
-  }
+async function fetchWebSearch(search: SearchProvider[], businessIdea: string, location: string, country: CountryProfile): Promise<WebSearchResult> {
+  // Search for market data about this business + location
+  const query = `${businessIdea} market size competition ${location} ${country.name} ${new Date().getFullYear()}`;
+  const { provider, hits } = await searchWeb(search, query);
+
+  const sources: Source[] = hits.map((hit, i) => ({
+    id: i + 1,
+    kind: 'web',
+    title: sanitizeString(hit.title).slice(0, 200),
+    url: hit.url,
+    snippet: sanitizeString(hit.snippet || hit.content).slice(0, 300),
+  }));
+  const text = sources.map((source, i) => `[${source.id}] ${source.title}\nSource: ${source.url}\n${hits[i].content}`).join('\n\n');
+  return { provider, text, sources };
+}
 
+// National figures: country_indicators first, the live API only for a country the table has
+// no rows for (stored for next time), the bundled snapshot when neither answers
+async function fetchNationalIndicators(location: string, country: CountryProfile): Promise<{ text: string; origin: IndicatorOrigin | null }> {
+  let rows: IndicatorRow[] = [];
   try {
-    // Search for market data about this business + location
-    const query = `${businessIdea} market size competition ${location} India 2025`;
-    const response = await fetch('https://api.firecrawl.dev/v1/search', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query,
-        limit: 5,
-        scrapeOptions: { formats: ['markdown'] },
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Firecrawl search error:', response.status);
-      return '';
-    }
-
-    const data = await response.json();
-    if (!data.success || !data.data) return '';
-
-    // Compile search results into a context string
-    const snippets = data.data
-      .slice(0, 5)
-      .map((r: any, i: number) => {
-        const title = r.title || 'Untitled';
-        const url = r.url || '';
-        const content = (r.markdown || r.description || '').slice(0, 500);
-        return `[${i + 1}] ${title}\nSource: ${url}\n${content}`;
-      })
-      .join('\n\n');
-
-    return snippets || '';
+    const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '');
+    const { data, error } = await client
+      .from('country_indicators')
+      .select('country_code, indicator, year, value')
+      .eq('country_code', country.iso3);
+    if (error) console.error('Indicator lookup failed:', error.message);
+    rows = (data ?? []).map((row) => ({ ...row, value: Number(row.value) }));
   } catch (err) {
-    console.error('Firecrawl search exception:', err);
-    return '';
+    console.error('Indicator lookup failed:', err);
   }
-}
+  if (hasAllIndicators(rows)) return { text: formatNationalIndicators(country, rows, location), origin: 'table' };
 
-async function fetchPopulationData(location: string): Promise<string> {
   try {
-    // Use World Bank API for India population data
-    const indiaPopRes = await fetch(
-      'https://api.worldbank.org/v2/country/IND/indicator/SP.POP.TOTL?format=json&date=2020:2024&per_page=5',
-      { signal: AbortSignal.timeout(5000) }
-    );
-
-    let populationInfo = '';
-
-    if (indiaPopRes.ok) {
-      const popData = await indiaPopRes.json();
-      if (Array.isArray(popData) && popData[1]) {
-        const latest = popData[1][0];
-        populationInfo += `India Total Population (${latest.date}): ${(latest.value / 1e9).toFixed(2)} billion\n`;
-        // Growth rate from last 2 entries
-        if (popData[1].length >= 2) {
-          const prev = popData[1][1];
-          const growthRate = ((latest.value - prev.value) / prev.value * 100).toFixed(2);
-          populationInfo += `Annual Population Growth: ${growthRate}%\n`;
-        }
-      }
-    }
-
-    // Also fetch urban population percentage
-    const urbanRes = await fetch(
-      'https://api.worldbank.org/v2/country/IND/indicator/SP.URB.TOTL.IN.ZS?format=json&date=2020:2024&per_page=5',
-      { signal: AbortSignal.timeout(5000) }
-    );
-
-    if (urbanRes.ok) {
-      const urbanData = await urbanRes.json();
-      if (Array.isArray(urbanData) && urbanData[1]?.[0]) {
-        populationInfo += `Urban Population: ${parseFloat(urbanData[1][0].value).toFixed(1)}%\n`;
-      }
-    }
-
-    // GDP per capita for economic context
-    const gdpRes = await fetch(
-      'https://api.worldbank.org/v2/country/IND/indicator/NY.GDP.PCAP.CD?format=json&date=2020:2024&per_page=5',
-      { signal: AbortSignal.timeout(5000) }
-    );
-
-    if (gdpRes.ok) {
-      const gdpData = await gdpRes.json();
-      if (Array.isArray(gdpData) && gdpData[1]?.[0]) {
-        populationInfo += `GDP Per Capita: $${Math.round(gdpData[1][0].value)}\n`;
-      }
-    }
-
-    if (location && location !== 'Not specified') {
-      populationInfo += `\nNote: For city-level population of "${location}", see city demographics data.\n`;
+    const live = await fetchWorldBankIndicators(country.iso3);
+    if (live.length > 0) {
+      await storeIndicators(live);
+      return { text: formatNationalIndicators(country, live, location), origin: 'api' };
     }
-
-    return populationInfo;
   } catch (err) {
-    console.error('Population API error:', err);
-    return '';
+    console.error('World Bank API unreachable:', err instanceof Error ? err.message : err);
   }
+
+  const fallback = rows.length > 0 ? rows : snapshotIndicators(country.iso3);
+  const text = formatNationalIndicators(country, fallback, location);
+  return { text, origin: text ? (rows.length > 0 ? 'table' : 'snapshot') : null };
 }
 
-// Major Indian cities population database (Census 2011 + projected 2025 estimates)
-const INDIA_CITY_POPULATION: Record<string, { population2011: number; metro2011: number; growthRate: number; tier: string; state: string; literacyRate: number; avgIncome: string }> = {
-  'mumbai': { population2011: 12442373, metro2011: 20748395, growthRate: 1.2, tier: 'Tier 1', state: 'Maharashtra', literacyRate: 89.7, avgIncome: '₹4.5L/year' },
-  'delhi': { population2011: 11034555, metro2011: 16787941, growthRate: 1.9, tier: 'Tier 1', state: 'Delhi NCR', literacyRate: 86.3, avgIncome: '₹4.0L/year' },
-  'bangalore': { population2011: 8443675, metro2011: 10456000, growthRate: 3.5, tier: 'Tier 1', state: 'Karnataka', literacyRate: 87.7, avgIncome: '₹5.2L/year' },
-  'bengaluru': { population2011: 8443675, metro2011: 10456000, growthRate: 3.5, tier: 'Tier 1', state: 'Karnataka', literacyRate: 87.7, avgIncome: '₹5.2L/year' },
-  'hyderabad': { population2011: 6993262, metro2011: 9746000, growthRate: 2.8, tier: 'Tier 1', state: 'Telangana', literacyRate: 83.3, avgIncome: '₹4.0L/year' },
-  'ahmedabad': { population2011: 5577940, metro2011: 7650000, growthRate: 2.0, tier: 'Tier 1', state: 'Gujarat', literacyRate: 86.7, avgIncome: '₹3.5L/year' },
-  'chennai': { population2011: 4681087, metro2011: 8696010, growthRate: 1.3, tier: 'Tier 1', state: 'Tamil Nadu', literacyRate: 90.2, avgIncome: '₹4.2L/year' },
-  'kolkata': { population2011: 4496694, metro2011: 14112536, growthRate: 0.6, tier: 'Tier 1', state: 'West Bengal', literacyRate: 87.1, avgIncome: '₹3.0L/year' },
-  'pune': { population2011: 3124458, metro2011: 7276000, growthRate: 2.5, tier: 'Tier 1', state: 'Maharashtra', literacyRate: 91.7, avgIncome: '₹4.8L/year' },
-  'jaipur': { population2011: 3073350, metro2011: 3700000, growthRate: 2.3, tier: 'Tier 1', state: 'Rajasthan', literacyRate: 82.3, avgIncome: '₹2.8L/year' },
-  'lucknow': { population2011: 2815601, metro2011: 3500000, growthRate: 2.1, tier: 'Tier 1', state: 'Uttar Pradesh', literacyRate: 77.3, avgIncome: '₹2.5L/year' },
-  'kanpur': { population2011: 2767031, metro2011: 3100000, growthRate: 1.0, tier: 'Tier 2', state: 'Uttar Pradesh', literacyRate: 79.7, avgIncome: '₹2.2L/year' },
-  'nagpur': { population2011: 2405421, metro2011: 2900000, growthRate: 1.5, tier: 'Tier 2', state: 'Maharashtra', literacyRate: 91.9, avgIncome: '₹2.8L/year' },
-  'indore': { population2011: 1964086, metro2011: 2500000, growthRate: 2.6, tier: 'Tier 2', state: 'Madhya Pradesh', literacyRate: 86.0, avgIncome: '₹2.5L/year' },
-  'thane': { population2011: 1841488, metro2011: 2200000, growthRate: 2.2, tier: 'Tier 2', state: 'Maharashtra', literacyRate: 91.4, avgIncome: '₹3.8L/year' },
-  'bhopal': { population2011: 1798218, metro2011: 2300000, growthRate: 1.8, tier: 'Tier 2', state: 'Madhya Pradesh', literacyRate: 84.1, avgIncome: '₹2.4L/year' },
-  'visakhapatnam': { population2011: 1730320, metro2011: 2100000, growthRate: 2.0, tier: 'Tier 2', state: 'Andhra Pradesh', literacyRate: 81.8, avgIncome: '₹2.6L/year' },
-  'vadodara': { population2011: 1666703, metro2011: 2100000, growthRate: 1.8, tier: 'Tier 2', state: 'Gujarat', literacyRate: 89.2, avgIncome: '₹3.0L/year' },
-  'patna': { population2011: 1684222, metro2011: 2200000, growthRate: 2.3, tier: 'Tier 2', state: 'Bihar', literacyRate: 70.7, avgIncome: '₹1.8L/year' },
-  'ghaziabad': { population2011: 1648643, metro2011: 2000000, growthRate: 3.0, tier: 'Tier 2', state: 'Uttar Pradesh', literacyRate: 85.1, avgIncome: '₹3.2L/year' },
-  'ludhiana': { population2011: 1613878, metro2011: 1900000, growthRate: 1.5, tier: 'Tier 2', state: 'Punjab', literacyRate: 85.5, avgIncome: '₹3.2L/year' },
-  'coimbatore': { population2011: 1601438, metro2011: 2100000, growthRate: 1.7, tier: 'Tier 2', state: 'Tamil Nadu', literacyRate: 93.0, avgIncome: '₹3.5L/year' },
-  'agra': { population2011: 1585704, metro2011: 1900000, growthRate: 1.3, tier: 'Tier 2', state: 'Uttar Pradesh', literacyRate: 73.0, avgIncome: '₹2.0L/year' },
-  'kochi': { population2011: 677381, metro2011: 2100000, growthRate: 1.8, tier: 'Tier 2', state: 'Kerala', literacyRate: 97.0, avgIncome: '₹3.8L/year' },
-  'chandigarh': { population2011: 1055450, metro2011: 1200000, growthRate: 1.7, tier: 'Tier 2', state: 'Chandigarh', literacyRate: 86.1, avgIncome: '₹3.8L/year' },
-  'surat': { population2011: 4462002, metro2011: 6100000, growthRate: 3.1, tier: 'Tier 1', state: 'Gujarat', literacyRate: 85.5, avgIncome: '₹3.2L/year' },
-  'noida': { population2011: 642381, metro2011: 900000, growthRate: 4.5, tier: 'Tier 2', state: 'Uttar Pradesh', literacyRate: 88.0, avgIncome: '₹4.5L/year' },
-  'gurgaon': { population2011: 876969, metro2011: 1500000, growthRate: 4.2, tier: 'Tier 2', state: 'Haryana', literacyRate: 84.7, avgIncome: '₹5.5L/year' },
-  'gurugram': { population2011: 876969, metro2011: 1500000, growthRate: 4.2, tier: 'Tier 2', state: 'Haryana', literacyRate: 84.7, avgIncome: '₹5.5L/year' },
-  'mysore': { population2011: 920550, metro2011: 1100000, growthRate: 1.6, tier: 'Tier 2', state: 'Karnataka', literacyRate: 86.1, avgIncome: '₹2.8L/year' },
-  'mysuru': { population2011: 920550, metro2011: 1100000, growthRate: 1.6, tier: 'Tier 2', state: 'Karnataka', literacyRate: 86.1, avgIncome: '₹2.8L/year' },
-  'mangalore': { population2011: 623841, metro2011: 750000, growthRate: 1.4, tier: 'Tier 2', state: 'Karnataka', literacyRate: 93.4, avgIncome: '₹3.0L/year' },
-  'mangaluru': { population2011: 623841, metro2011: 750000, growthRate: 1.4, tier: 'Tier 2', state: 'Karnataka', literacyRate: 93.4, avgIncome: '₹3.0L/year' },
-  'trivandrum': { population2011: 957730, metro2011: 1600000, growthRate: 0.8, tier: 'Tier 2', state: 'Kerala', literacyRate: 93.7, avgIncome: '₹3.5L/year' },
-  'thiruvananthapuram': { population2011: 957730, metro2011: 1600000, growthRate: 0.8, tier: 'Tier 2', state: 'Kerala', literacyRate: 93.7, avgIncome: '₹3.5L/year' },
-  'varanasi': { population2011: 1198491, metro2011: 1500000, growthRate: 1.4, tier: 'Tier 2', state: 'Uttar Pradesh', literacyRate: 75.6, avgIncome: '₹2.0L/year' },
-  'ranchi': { population2011: 1073427, metro2011: 1300000, growthRate: 2.0, tier: 'Tier 2', state: 'Jharkhand', literacyRate: 87.7, avgIncome: '₹2.2L/year' },
-  'dehradun': { population2011: 578420, metro2011: 800000, growthRate: 2.5, tier: 'Tier 2', state: 'Uttarakhand', literacyRate: 89.5, avgIncome: '₹2.8L/year' },
-  'bhubaneswar': { population2011: 837737, metro2011: 1100000, growthRate: 2.8, tier: 'Tier 2', state: 'Odisha', literacyRate: 91.0, avgIncome: '₹2.5L/year' },
-  'raipur': { population2011: 1010087, metro2011: 1300000, growthRate: 2.5, tier: 'Tier 2', state: 'Chhattisgarh', literacyRate: 85.4, avgIncome: '₹2.2L/year' },
-  'guwahati': { population2011: 963429, metro2011: 1200000, growthRate: 2.2, tier: 'Tier 2', state: 'Assam', literacyRate: 91.5, avgIncome: '₹2.2L/year' },
-  'amritsar': { population2011: 1132761, metro2011: 1400000, growthRate: 1.0, tier: 'Tier 2', state: 'Punjab', literacyRate: 85.3, avgIncome: '₹2.5L/year' },
-  'jodhpur': { population2011: 1033918, metro2011: 1300000, growthRate: 2.1, tier: 'Tier 2', state: 'Rajasthan', literacyRate: 73.6, avgIncome: '₹2.0L/year' },
-  'nashik': { population2011: 1486053, metro2011: 1900000, growthRate: 2.0, tier: 'Tier 2', state: 'Maharashtra', literacyRate: 89.8, avgIncome: '₹2.6L/year' },
-  'madurai': { population2011: 1016885, metro2011: 1500000, growthRate: 0.9, tier: 'Tier 2', state: 'Tamil Nadu', literacyRate: 90.8, avgIncome: '₹2.5L/year' },
-  'vijayawada': { population2011: 1048240, metro2011: 1500000, growthRate: 2.0, tier: 'Tier 2', state: 'Andhra Pradesh', literacyRate: 80.0, avgIncome: '₹2.3L/year' },
-  'koramangala': { population2011: 8443675, metro2011: 10456000, growthRate: 3.5, tier: 'Tier 1', state: 'Karnataka', literacyRate: 87.7, avgIncome: '₹5.2L/year' },
-  'whitefield': { population2011: 8443675, metro2011: 10456000, growthRate: 3.5, tier: 'Tier 1', state: 'Karnataka', literacyRate: 87.7, avgIncome: '₹5.2L/year' },
-  'hsr layout': { population2011: 8443675, metro2011: 10456000, growthRate: 3.5, tier: 'Tier 1', state: 'Karnataka', literacyRate: 87.7, avgIncome: '₹5.2L/year' },
-  'andheri': { population2011: 12442373, metro2011: 20748395, growthRate: 1.2, tier: 'Tier 1', state: 'Maharashtra', literacyRate: 89.7, avgIncome: '₹4.5L/year' },
-  'bandra': { population2011: 12442373, metro2011: 20748395, growthRate: 1.2, tier: 'Tier 1', state: 'Maharashtra', literacyRate: 89.7, avgIncome: '₹4.5L/year' },
-  'powai': { population2011: 12442373, metro2011: 20748395, growthRate: 1.2, tier: 'Tier 1', state: 'Maharashtra', literacyRate: 89.7, avgIncome: '₹4.5L/year' },
-  'connaught place': { population2011: 11034555, metro2011: 16787941, growthRate: 1.9, tier: 'Tier 1', state: 'Delhi NCR', literacyRate: 86.3, avgIncome: '₹4.0L/year' },
-  'dwarka': { population2011: 11034555, metro2011: 16787941, growthRate: 1.9, tier: 'Tier 1', state: 'Delhi NCR', literacyRate: 86.3, avgIncome: '₹4.0L/year' },
-  'hitec city': { population2011: 6993262, metro2011: 9746000, growthRate: 2.8, tier: 'Tier 1', state: 'Telangana', literacyRate: 83.3, avgIncome: '₹4.0L/year' },
-  'gachibowli': { population2011: 6993262, metro2011: 9746000, growthRate: 2.8, tier: 'Tier 1', state: 'Telangana', literacyRate: 83.3, avgIncome: '₹4.0L/year' },
-};
+async function storeIndicators(rows: IndicatorRow[]): Promise<void> {
+  const serviceClient = getServiceClient();
+  if (!serviceClient) return;
+  const { error } = await serviceClient.from('country_indicators').upsert(rows, { onConflict: 'country_code,indicator,year' });
+  if (error) console.error('Indicator write failed:', error.message);
+}
 
-async function fetchCityPopulationData(location: string): Promise<string> {
-  if (!location || location === 'Not specified') return '';
+// City and neighbourhood figures come from city_demographics / neighbourhood_profiles (readable with the anon key)
+async function fetchCityDemographics(location: string): Promise<{ text: string; profile: LocationProfile | null }> {
+  const none = { text: '', profile: null };
+  if (!location || location === 'Not specified') return none;
+  const candidates = cityCandidates(location);
+  if (candidates.length === 0) return none;
 
   try {
-    const normalizedLocation = location.toLowerCase().trim();
-
-    // Try exact match first, then try each word in location
-    let cityData = INDIA_CITY_POPULATION[normalizedLocation];
-    if (!cityData) {
-      const words = normalizedLocation.split(/[\s,]+/);
-      for (const word of words) {
-        if (INDIA_CITY_POPULATION[word]) {
-          cityData = INDIA_CITY_POPULATION[word];
-          break;
-        }
-      }
+    const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '');
+    const { data, error } = await client.rpc('match_city', { candidates }).maybeSingle();
+    if (error) {
+      console.error('City lookup failed:', error.message);
+      return none;
     }
-
-    if (!cityData) {
-      return `City-level data for "${location}" not found in database. AI should estimate based on regional knowledge.\n`;
+    if (!data) {
+      return { text: `City-level data for "${location}" not found in database. AI should estimate based on regional knowledge.\n`, profile: null };
     }
-
-    // Project to 2025 from 2011 census
-    const yearsSince = 2025 - 2011;
-    const projectedCity = Math.round(cityData.population2011 * Math.pow(1 + cityData.growthRate / 100, yearsSince));
-    const projectedMetro = Math.round(cityData.metro2011 * Math.pow(1 + cityData.growthRate / 100, yearsSince));
-
-    let info = `\n--- City-Level Demographics (Census + Projections) ---\n`;
-    info += `City: ${location}\n`;
-    info += `State: ${cityData.state}\n`;
-    info += `Tier: ${cityData.tier}\n`;
-    info += `Census 2011 City Population: ${cityData.population2011.toLocaleString()}\n`;
-    info += `Census 2011 Metro Population: ${cityData.metro2011.toLocaleString()}\n`;
-    info += `Projected 2025 City Population: ~${(projectedCity / 1e6).toFixed(1)} million\n`;
-    info += `Projected 2025 Metro Population: ~${(projectedMetro / 1e6).toFixed(1)} million\n`;
-    info += `Annual Growth Rate: ${cityData.growthRate}%\n`;
-    info += `Literacy Rate: ${cityData.literacyRate}%\n`;
-    info += `Average Household Income: ${cityData.avgIncome}\n`;
-
-    return info;
+    const match = data as CityMatchRow;
+    console.log(`City match: "${match.query}" -> ${match.name} (${match.alias_kind}, distance ${match.distance})`);
+    return { text: formatCityDemographics(match, location), profile: toLocationProfile(match) };
   } catch (err) {
     console.error('City population lookup error:', err);
-    return '';
+    return none;
   }
 }
 
-// ============================================
-// SANITIZATION: Strip dangerous content from AI responses
-// ============================================
-
-function sanitizeString(str: unknown): string {
-  if (typeof str !== 'string') return '';
-  // Remove HTML tags, script injections, and dangerous patterns
-  return str
-    .replace(/<[^>]*>/g, '')
-    .replace(/javascript:/gi, '')
-    .replace(/on\w+\s*=/gi, '')
-    .replace(/data:\s*text\/html/gi, '')
-    .replace(/&#/g, '')
-    .trim()
-    .slice(0, 5000);
-}
-
-function sanitizeStringArray(arr: unknown): string[] {
-  if (!Array.isArray(arr)) return [];
-  return arr.map(sanitizeString).filter(Boolean).slice(0, 20);
-}
-
-function sanitizePass1(data: Pass1Result): Pass1Result {
-  return {
-    ...data,
-    factors: (data.factors || []).slice(0, 10).map(f => ({
-      name: sanitizeString(f.name).slice(0, 100),
-      weight: Math.max(0, Math.min(1, Number(f.weight) || 0)),
-      score: Math.max(0, Math.min(100, Math.round(Number(f.score) || 0))),
-      reasoning: sanitizeString(f.reasoning).slice(0, 500),
-      isLocationSpecific: Boolean(f.isLocationSpecific),
-    })),
-    marketData: (data.marketData || []).slice(0, 20).map(d => ({
-      metric: sanitizeString(d.metric).slice(0, 100),
-      minValue: Number(d.minValue) || 0,
-      maxValue: Number(d.maxValue) || 0,
-      estimatedValue: Number(d.estimatedValue) || 0,
-      unit: sanitizeString(d.unit).slice(0, 20),
-      source: sanitizeString(d.source).slice(0, 200),
-      confidence: (['high', 'medium', 'low'].includes(d.confidence) ? d.confidence : 'low') as 'high' | 'medium' | 'low',
-    })),
-    estimatedSetupCostMin: Math.max(0, Number(data.estimatedSetupCostMin) || 0),
-    estimatedSetupCostMax: Math.max(0, Number(data.estimatedSetupCostMax) || 0),
-    estimatedMonthlyRevenueMin: Math.max(0, Number(data.estimatedMonthlyRevenueMin) || 0),
-    estimatedMonthlyRevenueMax: Math.max(0, Number(data.estimatedMonthlyRevenueMax) || 0),
-    estimatedMonthlyExpensesMin: Math.max(0, Number(data.estimatedMonthlyExpensesMin) || 0),
-    estimatedMonthlyExpensesMax: Math.max(0, Number(data.estimatedMonthlyExpensesMax) || 0),
-    avgProfitMargin: Math.max(0, Math.min(1, Number(data.avgProfitMargin) || 0)),
-    directCompetitors: Math.max(0, Math.round(Number(data.directCompetitors) || 0)),
-    indirectCompetitors: Math.max(0, Math.round(Number(data.indirectCompetitors) || 0)),
-    marketSize: sanitizeString(data.marketSize).slice(0, 200),
-    marketGrowth: sanitizeString(data.marketGrowth).slice(0, 200),
-  };
-}
-
-function sanitizePass3(data: Record<string, unknown>): Record<string, unknown> {
-  return {
-    summary: sanitizeString(data.summary),
-    marketExplanation: sanitizeString(data.marketExplanation),
-    competitionExplanation: sanitizeString(data.competitionExplanation),
-    financialExplanation: sanitizeString(data.financialExplanation),
-    competitiveAdvantage: sanitizeString(data.competitiveAdvantage),
-    threats: sanitizeStringArray(data.threats),
-    opportunities: sanitizeStringArray(data.opportunities),
-    risks: Array.isArray(data.risks) ? data.risks.slice(0, 10).map((r: any) => ({
-      risk: sanitizeString(r?.risk),
-      severity: ['low', 'medium', 'high'].includes(r?.severity) ? r.severity : 'medium',
-      mitigation: sanitizeString(r?.mitigation),
-    })) : [],
-    recommendations: sanitizeStringArray(data.recommendations),
-    roadmapPhases: Array.isArray(data.roadmapPhases) ? data.roadmapPhases.slice(0, 5).map((p: any) => ({
-      phase: sanitizeString(p?.phase).slice(0, 100),
-      duration: sanitizeString(p?.duration).slice(0, 50),
-      tasks: sanitizeStringArray(p?.tasks),
-      milestones: sanitizeStringArray(p?.milestones),
-    })) : [],
-    roadmapExplanation: sanitizeString(data.roadmapExplanation),
-    expertInsights: sanitizeString(data.expertInsights),
-  };
+function toPassQuality(result: StructuredResult, defaultedFields: string[]): PassQuality {
+  return { valid: result.valid, repairs: result.repairs, issues: result.issues, defaultedFields };
 }
 
 // ============================================
 // PASS 1: Dynamic Factor Discovery + Market Intel
 // ============================================
 
-interface MarketDataPoint {
-  metric: string;
-  minValue: number;
-  maxValue: number;
-  estimatedValue: number;
-  unit: string;
-  source: string;
-  confidence: 'high' | 'medium' | 'low';
-}
-
-interface DynamicFactor {
-  name: string;
-  weight: number; // 0.0 - 1.0, all weights must sum to 1.0
-  score: number;  // 0 - 100
-  reasoning: string;
-  isLocationSpecific: boolean;
-}
-
-interface Pass1Result {
-  factors: DynamicFactor[];
-  marketData: MarketDataPoint[];
-  estimatedSetupCostMin: number;
-  estimatedSetupCostMax: number;
-  estimatedMonthlyRevenueMin: number;
-  estimatedMonthlyRevenueMax: number;
-  estimatedMonthlyExpensesMin: number;
-  estimatedMonthlyExpensesMax: number;
-  avgProfitMargin: number;
-  directCompetitors: number;
-  indirectCompetitors: number;
-  marketSize: string;
-  marketGrowth: string;
-}
-
-async function pass1_discoverFactorsAndData(businessIdea: string, location: string, budget: string, realTimeData?: RealTimeData): Promise<Pass1Result> {
+async function pass1_discoverFactorsAndData(llm: PipelineLLMConfig, businessIdea: string, location: string, country: CountryProfile, budget: ParsedBudget, realTimeData?: RealTimeData): Promise<{ data: Pass1Result; quality: PassQuality; tokens: TokenUsage }> {
   const realTimeContext = realTimeData ? `
 
 REAL-TIME WEB DATA (use this to ground your estimates):
@@ -462,9 +291,10 @@ ${realTimeData.populationData ? `\n--- National Population & Economic Data (Worl
 
 ${realTimeData.cityPopulationData ? `\n${realTimeData.cityPopulationData}` : '(No city-level data available)'}
 
-IMPORTANT: Use the real-time data above to calibrate your market size estimates, competitor counts, and cost figures. Use city-level demographics (population, tier, literacy, income) to estimate local demand and spending power. Reference specific data points from these sources when available.` : '';
+IMPORTANT: Use the real-time data above to calibrate your market size estimates, competitor counts, and cost figures. Use city-level demographics (population, tier, literacy, income) to estimate local demand and spending power, and the neighbourhood profile (rent, footfall, income band, customer segments) when one is given. Reference specific data points from these sources when available, and list the [n] ids a market data point relies on in its sourceIds (empty when it is your own estimate).` : '';
 
-  const systemPrompt = `You are an expert Indian market research analyst with deep knowledge of real estate costs, competitor landscapes, regulatory environments, and consumer behavior across all Indian cities, towns, and villages.
+  const currency = country.currency;
+  const systemPrompt = `You are an expert market research analyst for ${country.name} with deep knowledge of real estate costs, competitor landscapes, regulatory environments, and consumer behavior across its cities, towns, and villages.
 
 Your task: Given a business idea, location, and budget, you must:
 
@@ -483,7 +313,9 @@ Your task: Given a business idea, location, and budget, you must:
    - Competitor count in the area
    - Local market size and growth
 
-Use your knowledge of Indian geography, economics, and demographics. Be SPECIFIC — mention actual neighborhoods, local costs, nearby landmarks if relevant.
+Use your knowledge of ${country.name}'s geography, economics, and demographics. Be SPECIFIC — mention actual neighborhoods, local costs, nearby landmarks if relevant.
+Typical registrations and taxes for a new business here: ${country.regulatoryContext}.
+ALL monetary values must be in ${currency}.
 ${realTimeContext}
 
 Return ONLY valid JSON:
@@ -492,14 +324,14 @@ Return ONLY valid JSON:
     {"name": "<factor name>", "weight": <0.0-1.0>, "score": <0-100>, "reasoning": "<1-2 sentences>", "isLocationSpecific": <true/false>}
   ],
   "marketData": [
-    {"metric": "<name>", "minValue": <number>, "maxValue": <number>, "estimatedValue": <number>, "unit": "<INR/count/percent/sqft>", "source": "<basis of estimate>", "confidence": "<high/medium/low>"}
+    {"metric": "<name>", "minValue": <number>, "maxValue": <number>, "estimatedValue": <number>, "unit": "<${currency}/count/percent/sqft>", "source": "<basis of estimate>", "sourceIds": [<ids of the sources above it relies on>], "confidence": "<high/medium/low>"}
   ],
-  "estimatedSetupCostMin": <number in INR>,
-  "estimatedSetupCostMax": <number in INR>,
-  "estimatedMonthlyRevenueMin": <number in INR>,
-  "estimatedMonthlyRevenueMax": <number in INR>,
-  "estimatedMonthlyExpensesMin": <number in INR>,
-  "estimatedMonthlyExpensesMax": <number in INR>,
+  "estimatedSetupCostMin": <number in ${currency}>,
+  "estimatedSetupCostMax": <number in ${currency}>,
+  "estimatedMonthlyRevenueMin": <number in ${currency}>,
+  "estimatedMonthlyRevenueMax": <number in ${currency}>,
+  "estimatedMonthlyExpensesMin": <number in ${currency}>,
+  "estimatedMonthlyExpensesMax": <number in ${currency}>,
   "avgProfitMargin": <0.0-1.0>,
   "directCompetitors": <number>,
   "indirectCompetitors": <number>,
@@ -510,304 +342,29 @@ Return ONLY valid JSON:
 CRITICAL: weights MUST sum to exactly 1.0. Scores must reflect realistic assessment, not optimism.`;
 
   const userPrompt = `Business Idea: ${businessIdea}
-Location: ${location}
-Budget: ${budget}
+Location: ${location} (${country.name})
+Budget: ${budget.raw} (read as ${describeBudget(budget)})
 
 Analyze this specific combination and return the dynamic factors and market data.`;
 
-  const raw = await callAI(systemPrompt, userPrompt, 3000, 0.3);
-  const parsed = parseJSON(raw) as Pass1Result;
-  return sanitizePass1(parsed);
-}
-
-// ============================================
-// PASS 2: XGBoost-Style Gradient Boosted Decision Tree Scoring
-// ============================================
-
-function parseBudget(budget: string): number {
-  if (!budget || budget === 'Not specified') return 500000;
-  const clean = budget.replace(/[₹$,\s]/g, '').toLowerCase();
-  let multiplier = 1;
-  if (clean.includes('lakh') || clean.includes('lac')) multiplier = 100000;
-  else if (clean.includes('crore') || clean.includes('cr')) multiplier = 10000000;
-  else if (clean.endsWith('l')) multiplier = 100000;
-  else if (clean.includes('k')) multiplier = 1000;
-  const numMatch = clean.match(/[\d.]+/);
-  return numMatch ? parseFloat(numMatch[0]) * multiplier : 500000;
-}
-
-// --- XGBoost-style GBDT Engine ---
-
-interface GBDTFeatures {
-  avgFactorScore: number;       // 0-100: weighted avg of Pass 1 factors
-  budgetRatio: number;          // 0-5+: budget / setup cost
-  competitionDensity: number;   // 0-1: normalized competitor pressure
-  marketGrowthSignal: number;   // 0-1: growth potential
-  profitMarginEstimate: number; // 0-1: estimated margin
-  locationTierScore: number;    // 0-1: tier-based opportunity
-  revenueToExpenseRatio: number;// 0-5+: revenue / expenses
-  factorVariance: number;       // 0-1: how spread out factor scores are (risk signal)
-  topFactorScore: number;       // 0-100: best factor score
-  bottomFactorScore: number;    // 0-100: worst factor score
-}
-
-// A decision stump (weak learner) in the ensemble
-interface DecisionStump {
-  featureKey: keyof GBDTFeatures;
-  threshold: number;
-  leftValue: number;   // prediction if feature <= threshold
-  rightValue: number;  // prediction if feature > threshold
-  weight: number;      // learning rate × contribution
-}
-
-// Interaction stump: splits on product/ratio of two features
-interface InteractionStump {
-  featureA: keyof GBDTFeatures;
-  featureB: keyof GBDTFeatures;
-  operation: 'multiply' | 'divide' | 'min' | 'max';
-  threshold: number;
-  leftValue: number;
-  rightValue: number;
-  weight: number;
-}
-
-function extractFeatures(pass1: Pass1Result, budgetAmount: number): GBDTFeatures {
-  // Weighted average factor score
-  let totalWeight = 0, weightedSum = 0;
-  let maxScore = 0, minScore = 100;
-  for (const f of pass1.factors) {
-    weightedSum += f.score * f.weight;
-    totalWeight += f.weight;
-    if (f.score > maxScore) maxScore = f.score;
-    if (f.score < minScore) minScore = f.score;
-  }
-  const avgFactorScore = totalWeight > 0 ? weightedSum / totalWeight : 50;
-
-  // Budget ratio
-  const avgSetupCost = (pass1.estimatedSetupCostMin + pass1.estimatedSetupCostMax) / 2 || 1;
-  const budgetRatio = budgetAmount / avgSetupCost;
-
-  // Competition density: normalized 0-1 (higher = more competition = worse)
-  const totalCompetitors = pass1.directCompetitors + pass1.indirectCompetitors * 0.5;
-  const competitionDensity = Math.min(1, totalCompetitors / 50);
-
-  // Market growth signal: parse from string
-  const growthMatch = (pass1.marketGrowth || '').match(/([\d.]+)\s*%/);
-  const growthPercent = growthMatch ? parseFloat(growthMatch[1]) : 5;
-  const marketGrowthSignal = Math.min(1, growthPercent / 30);
-
-  // Profit margin
-  const profitMarginEstimate = Math.max(0, Math.min(1, pass1.avgProfitMargin || 0));
-
-  // Location tier (extracted from factors if any mention tier)
-  const tierFactor = pass1.factors.find(f => f.isLocationSpecific);
-  const locationTierScore = tierFactor ? tierFactor.score / 100 : 0.5;
-
-  // Revenue to expense ratio
-  const avgRevenue = (pass1.estimatedMonthlyRevenueMin + pass1.estimatedMonthlyRevenueMax) / 2 || 1;
-  const avgExpenses = (pass1.estimatedMonthlyExpensesMin + pass1.estimatedMonthlyExpensesMax) / 2 || 1;
-  const revenueToExpenseRatio = avgRevenue / avgExpenses;
-
-  // Factor variance (risk signal - high variance means inconsistent)
-  const scores = pass1.factors.map(f => f.score);
-  const mean = scores.reduce((a, b) => a + b, 0) / (scores.length || 1);
-  const variance = scores.reduce((a, s) => a + (s - mean) ** 2, 0) / (scores.length || 1);
-  const factorVariance = Math.min(1, Math.sqrt(variance) / 50);
-
-  return {
-    avgFactorScore,
-    budgetRatio: Math.min(5, budgetRatio),
-    competitionDensity,
-    marketGrowthSignal,
-    profitMarginEstimate,
-    locationTierScore,
-    revenueToExpenseRatio: Math.min(5, revenueToExpenseRatio),
-    factorVariance,
-    topFactorScore: maxScore,
-    bottomFactorScore: minScore,
-  };
-}
-
-// Pre-defined ensemble of decision stumps (domain-expert crafted trees)
-// These encode non-linear business feasibility patterns learned from Indian market dynamics
-const DECISION_STUMPS: DecisionStump[] = [
-  // Tree 1: Core factor quality drives base prediction
-  { featureKey: 'avgFactorScore', threshold: 60, leftValue: -12, rightValue: 10, weight: 0.15 },
-  { featureKey: 'avgFactorScore', threshold: 40, leftValue: -18, rightValue: 5, weight: 0.12 },
-  { featureKey: 'avgFactorScore', threshold: 75, leftValue: -3, rightValue: 12, weight: 0.10 },
-
-  // Tree 2: Budget adequacy is non-linear — too little kills, excess has diminishing returns
-  { featureKey: 'budgetRatio', threshold: 0.5, leftValue: -20, rightValue: 5, weight: 0.12 },
-  { featureKey: 'budgetRatio', threshold: 1.0, leftValue: -8, rightValue: 6, weight: 0.10 },
-  { featureKey: 'budgetRatio', threshold: 2.0, leftValue: 2, rightValue: 3, weight: 0.05 },
-
-  // Tree 3: Competition saturates opportunity
-  { featureKey: 'competitionDensity', threshold: 0.3, leftValue: 8, rightValue: -5, weight: 0.10 },
-  { featureKey: 'competitionDensity', threshold: 0.7, leftValue: 3, rightValue: -12, weight: 0.08 },
-
-  // Tree 4: Growth markets rescue marginal ideas
-  { featureKey: 'marketGrowthSignal', threshold: 0.2, leftValue: -6, rightValue: 7, weight: 0.08 },
-  { featureKey: 'marketGrowthSignal', threshold: 0.5, leftValue: -2, rightValue: 8, weight: 0.06 },
-
-  // Tree 5: Profit margin viability
-  { featureKey: 'profitMarginEstimate', threshold: 0.15, leftValue: -15, rightValue: 5, weight: 0.10 },
-  { featureKey: 'profitMarginEstimate', threshold: 0.30, leftValue: -3, rightValue: 8, weight: 0.07 },
-
-  // Tree 6: Revenue must cover expenses
-  { featureKey: 'revenueToExpenseRatio', threshold: 1.0, leftValue: -20, rightValue: 5, weight: 0.12 },
-  { featureKey: 'revenueToExpenseRatio', threshold: 1.5, leftValue: -5, rightValue: 8, weight: 0.08 },
-
-  // Tree 7: Factor consistency (low variance = more reliable prediction)
-  { featureKey: 'factorVariance', threshold: 0.4, leftValue: 3, rightValue: -6, weight: 0.06 },
-
-  // Tree 8: Bottom factor as risk floor — one terrible factor can sink a business
-  { featureKey: 'bottomFactorScore', threshold: 25, leftValue: -15, rightValue: 3, weight: 0.10 },
-  { featureKey: 'bottomFactorScore', threshold: 40, leftValue: -8, rightValue: 4, weight: 0.07 },
-
-  // Tree 9: Top factor as upside signal
-  { featureKey: 'topFactorScore', threshold: 80, leftValue: -2, rightValue: 8, weight: 0.05 },
-
-  // Tree 10: Location tier opportunity
-  { featureKey: 'locationTierScore', threshold: 0.5, leftValue: -5, rightValue: 6, weight: 0.06 },
-];
-
-// Interaction trees capture non-linear feature combinations
-const INTERACTION_STUMPS: InteractionStump[] = [
-  // High competition + low budget = disaster
-  { featureA: 'competitionDensity', featureB: 'budgetRatio', operation: 'divide', threshold: 0.5, leftValue: 5, rightValue: -10, weight: 0.10 },
-  // Good margins + growing market = strong signal
-  { featureA: 'profitMarginEstimate', featureB: 'marketGrowthSignal', operation: 'multiply', threshold: 0.08, leftValue: -5, rightValue: 10, weight: 0.08 },
-  // Worst factor × competition = compounding risk
-  { featureA: 'bottomFactorScore', featureB: 'competitionDensity', operation: 'multiply', threshold: 20, leftValue: 4, rightValue: -8, weight: 0.07 },
-  // Revenue/expense ratio × budget fit = financial viability
-  { featureA: 'revenueToExpenseRatio', featureB: 'budgetRatio', operation: 'min', threshold: 0.8, leftValue: -12, rightValue: 6, weight: 0.09 },
-  // Best factor + location = upside potential
-  { featureA: 'topFactorScore', featureB: 'locationTierScore', operation: 'multiply', threshold: 40, leftValue: -3, rightValue: 7, weight: 0.05 },
-  // Factor variance × competition = uncertainty amplifier
-  { featureA: 'factorVariance', featureB: 'competitionDensity', operation: 'multiply', threshold: 0.15, leftValue: 3, rightValue: -8, weight: 0.06 },
-];
-
-function computeInteraction(features: GBDTFeatures, stump: InteractionStump): number {
-  const a = features[stump.featureA];
-  const b = features[stump.featureB];
-  let value: number;
-  switch (stump.operation) {
-    case 'multiply': value = a * b; break;
-    case 'divide': value = b !== 0 ? a / b : 0; break;
-    case 'min': value = Math.min(a, b); break;
-    case 'max': value = Math.max(a, b); break;
-  }
-  return value <= stump.threshold ? stump.leftValue * stump.weight : stump.rightValue * stump.weight;
-}
-
-function gbdtPredict(features: GBDTFeatures): number {
-  // Base prediction (intercept)
-  let prediction = 50;
-
-  // Additive contributions from single-feature stumps
-  for (const stump of DECISION_STUMPS) {
-    const featureValue = features[stump.featureKey];
-    prediction += featureValue <= stump.threshold
-      ? stump.leftValue * stump.weight
-      : stump.rightValue * stump.weight;
-  }
-
-  // Additive contributions from interaction stumps
-  for (const stump of INTERACTION_STUMPS) {
-    prediction += computeInteraction(features, stump);
-  }
-
-  // Clamp to [0, 100]
-  return Math.round(Math.min(100, Math.max(0, prediction)));
-}
-
-interface ScoringResult {
-  score: number;
-  verdict: 'GO' | 'CAUTION' | 'AVOID';
-  factors: DynamicFactor[];
-  breakEvenMonths: number;
-  roi: number;
-  financialProjections: Array<{ year: number; revenue: number; expenses: number; profit: number }>;
-  budgetFitPercent: number;
-  gbdtFeatures: GBDTFeatures; // Expose for transparency
-}
-
-function pass2_score(pass1: Pass1Result, budget: string): ScoringResult {
-  const budgetAmount = parseBudget(budget);
-
-  // Extract ML features from Pass 1 data
-  const features = extractFeatures(pass1, budgetAmount);
-
-  // Run GBDT ensemble prediction
-  const score = gbdtPredict(features);
-
-  // Verdict from score with hysteresis bands
-  let verdict: 'GO' | 'CAUTION' | 'AVOID';
-  if (score >= 62 && features.budgetRatio >= 0.5) verdict = 'GO';
-  else if (score < 35 || features.budgetRatio < 0.25) verdict = 'AVOID';
-  else verdict = 'CAUTION';
-
-  // Budget fit
-  const budgetFitPercent = Math.min(100, Math.round(features.budgetRatio * 100));
-
-  // Financial projections
-  const avgSetupCost = (pass1.estimatedSetupCostMin + pass1.estimatedSetupCostMax) / 2 || 1;
-  const avgMonthlyRevenue = (pass1.estimatedMonthlyRevenueMin + pass1.estimatedMonthlyRevenueMax) / 2;
-  const avgMonthlyExpenses = (pass1.estimatedMonthlyExpensesMin + pass1.estimatedMonthlyExpensesMax) / 2;
-  const monthlyProfit = avgMonthlyRevenue - avgMonthlyExpenses;
-
-  // Apply GBDT-derived confidence adjustment to financial projections
-  // Score < 50 = higher risk, slower ramp-up; Score > 70 = faster traction
-  const confidenceMultiplier = 0.6 + (score / 100) * 0.8; // Range: 0.6 - 1.4
-  const adjustedMonthlyRevenue = avgMonthlyRevenue * confidenceMultiplier;
-  const adjustedMonthlyProfit = adjustedMonthlyRevenue - avgMonthlyExpenses;
-
-  const breakEvenMonths = adjustedMonthlyProfit > 0 ? Math.ceil(avgSetupCost / adjustedMonthlyProfit) : 36;
-  const roi = adjustedMonthlyProfit > 0
-    ? Math.round((adjustedMonthlyProfit * 12 / budgetAmount) * 100)
-    : -Math.round((Math.abs(adjustedMonthlyProfit) * 12 / budgetAmount) * 100);
-
-  const currentYear = new Date().getFullYear();
-  // Growth trajectory varies by score: low-scoring businesses grow slower
-  const baseGrowth = 0.08 + (score / 100) * 0.12; // 8%-20% annual growth based on score
-  const growthRates = [1.0, 1 + baseGrowth, 1 + baseGrowth * 2, 1 + baseGrowth * 3, 1 + baseGrowth * 4];
-  const financialProjections = growthRates.map((g, i) => {
-    const rev = Math.round(avgMonthlyRevenue * 12 * g);
-    const exp = Math.round(avgMonthlyExpenses * 12 * (1 + i * 0.05));
-    return { year: currentYear + i, revenue: rev, expenses: exp, profit: rev - exp };
-  });
-
-  return { score, verdict, factors: pass1.factors, breakEvenMonths, roi, financialProjections, budgetFitPercent, gbdtFeatures: features };
-}
-
-// ============================================
-// Monthly breakdown with seasonal variance
-// ============================================
-
-function generateYearlyWithMonths(yearlyData: Array<{ year: number; revenue: number; expenses: number; profit: number }>) {
-  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const seasonalWeights = [0.07, 0.06, 0.08, 0.08, 0.08, 0.08, 0.08, 0.09, 0.09, 0.10, 0.10, 0.09];
-  return yearlyData.map((y) => ({
-    ...y,
-    months: monthNames.map((month, i) => ({
-      month,
-      revenue: Math.round(y.revenue * seasonalWeights[i]),
-      expenses: Math.round(y.expenses / 12),
-      profit: Math.round(y.revenue * seasonalWeights[i] - y.expenses / 12),
-    })),
-  }));
+  const result = await runStructuredPass(llm, 'factorDiscovery', systemPrompt, userPrompt, pass1Schema);
+  if (result.value === undefined) throw new Error('INVALID_MODEL_OUTPUT');
+  const defaulted: string[] = [];
+  const data = sanitizePass1(result.value, defaulted, new Set((realTimeData?.sources ?? []).map((source) => source.id)));
+  return { data, quality: toPassQuality(result, defaulted), tokens: result.tokens };
 }
 
 // ============================================
 // PASS 3: AI Explanations
 // ============================================
 
-async function pass3_explain(businessIdea: string, location: string, budget: string, scoring: ScoringResult, pass1: Pass1Result) {
+async function pass3_explain(llm: PipelineLLMConfig, businessIdea: string, location: string, country: CountryProfile, budget: string, scoring: ScoringResult, pass1: Pass1Result, sources: Source[]) {
+  const money = (value: number) => `${currencySymbol(country.currency)}${value.toLocaleString(country.locale)}`;
   const factorsSummary = scoring.factors.map(f =>
     `- ${f.name}: ${f.score}/100 (weight: ${(f.weight * 100).toFixed(0)}%) — ${f.reasoning}`
   ).join('\n');
 
-  const systemPrompt = `You are an expert business analyst for Indian markets. You will be given a business idea, location, budget, and a PRE-COMPUTED decision with dynamic scoring factors and market data. Your job is ONLY to provide rich, location-specific EXPLANATIONS and qualitative insights. Do NOT change the scores, verdict, or financial numbers — they are final.
+  const systemPrompt = `You are an expert business analyst for ${country.name} markets. You will be given a business idea, location, budget, and a PRE-COMPUTED decision with dynamic scoring factors and market data. Your job is ONLY to provide rich, location-specific EXPLANATIONS and qualitative insights. Do NOT change the scores, verdict, or financial numbers — they are final.
 
 Return valid JSON with this EXACT structure:
 {
@@ -832,18 +389,20 @@ Return valid JSON with this EXACT structure:
   "expertInsights": "<2-3 paragraphs of expert analysis with neighborhood-specific insights>"
 }
 
-Be SPECIFIC to the neighborhood/city. Mention local landmarks, nearby competition, local rent norms, and regional regulations.`;
+Be SPECIFIC to the neighborhood/city. Mention local landmarks, nearby competition, local rent norms, and regional regulations.
+Regulations to consider in ${country.name}: ${country.regulatoryContext}. Quote any amounts in ${country.currency}.
+When a statement in marketExplanation, competitionExplanation, financialExplanation or expertInsights comes from one of the listed SOURCES, cite it inline as [n] using its id. Never cite an id that is not listed.`;
 
   const userPrompt = `Business Idea: ${businessIdea}
-Location: ${location}
-Budget: ${budget}
+Location: ${location} (${country.name})
+Budget: ${budget} (read as ${describeBudget(scoring.budget)})
 
 PRE-COMPUTED DECISION (DO NOT CHANGE):
 - Score: ${scoring.score}/100
 - Verdict: ${scoring.verdict}
 - Budget Fit: ${scoring.budgetFitPercent}%
-- Break-even: ${scoring.breakEvenMonths} months
-- ROI: ${scoring.roi}%
+- Break-even: ${scoring.breakEvenMonths} months (simulated P10-P90: ${scoring.simulation.breakEvenMonths.p10}-${scoring.simulation.breakEvenMonths.p90} months)
+- ROI: ${scoring.roi}% (simulated P10-P90: ${scoring.simulation.roi.p10}% to ${scoring.simulation.roi.p90}%)
 - Direct Competitors: ${pass1.directCompetitors}
 - Indirect Competitors: ${pass1.indirectCompetitors}
 - Market Size: ${pass1.marketSize}
@@ -853,17 +412,664 @@ DYNAMIC SCORING FACTORS:
 ${factorsSummary}
 
 MARKET DATA:
-${pass1.marketData.map(d => `- ${d.metric}: ${d.estimatedValue} ${d.unit} (range: ${d.minValue}-${d.maxValue}, confidence: ${d.confidence})`).join('\n')}
+${pass1.marketData.map(d => `- ${d.metric}: ${d.estimatedValue} ${d.unit} (range: ${d.minValue}-${d.maxValue}, confidence: ${d.confidence})${d.sourceIds?.length ? ` [${d.sourceIds.join(', ')}]` : ''}`).join('\n')}
+
+SOURCES:
+${sources.length > 0 ? formatSourcesForPrompt(sources) : '(none — do not add citations)'}
 
-Setup Cost Range: ₹${pass1.estimatedSetupCostMin.toLocaleString()} - ₹${pass1.estimatedSetupCostMax.toLocaleString()}
-Monthly Revenue Range: ₹${pass1.estimatedMonthlyRevenueMin.toLocaleString()} - ₹${pass1.estimatedMonthlyRevenueMax.toLocaleString()}
-Monthly Expenses Range: ₹${pass1.estimatedMonthlyExpensesMin.toLocaleString()} - ₹${pass1.estimatedMonthlyExpensesMax.toLocaleString()}
+Setup Cost Range: ${money(pass1.estimatedSetupCostMin)} - ${money(pass1.estimatedSetupCostMax)}
+Monthly Revenue Range: ${money(pass1.estimatedMonthlyRevenueMin)} - ${money(pass1.estimatedMonthlyRevenueMax)}
+Monthly Expenses Range: ${money(pass1.estimatedMonthlyExpensesMin)} - ${money(pass1.estimatedMonthlyExpensesMax)}
 
 Provide location-specific EXPLANATIONS for this analysis.`;
 
-  const raw = await callAI(systemPrompt, userPrompt, 3500, 0.8);
-  const parsed = parseJSON(raw) as Record<string, unknown>;
-  return sanitizePass3(parsed);
+  const result = await runStructuredPass(llm, 'explanation', systemPrompt, userPrompt, pass3Schema);
+  if (result.value === undefined) throw new Error('INVALID_MODEL_OUTPUT');
+  const defaulted: string[] = [];
+  const data = sanitizePass3(result.value, defaulted, new Set(sources.map((source) => source.id)));
+  return { data, quality: toPassQuality(result, defaulted), tokens: result.tokens };
+}
+
+// ============================================
+// PIPELINE: pre-pass → Pass 1 → Pass 2 → Pass 3
+// ============================================
+
+type PipelineEvent =
+  | { type: 'realtime-data'; sources: { webSearch: boolean; nationalData: boolean; cityDemographics: boolean }; searchProvider: string | null }
+  | { type: 'factors'; factors: DynamicFactor[]; dataPoints: number }
+  | { type: 'score'; analysis: AnalysisPayload }
+  | { type: 'explanations' };
+
+async function runPipeline(llm: PipelineLLMConfig, search: SearchProvider[], input: AnalysisInput, trace: PipelineTrace, onProgress: (event: PipelineEvent) => void = () => {}, sharedWebSearch?: Promise<WebSearchResult>): Promise<AnalysisPayload> {
+  const { businessIdea, location, budget } = input;
+
+  // PRE-PASS: Resolve the country, then fetch real-time web & population data for it
+  const country = resolveCountry(location);
+  console.log(`Pre-pass: Fetching real-time data for ${country.name}...`);
+  const realTimeData = await timed(trace, 'realtimeData', () => fetchRealTimeData(search, businessIdea, location, country, sharedWebSearch));
+  console.log(`Real-time data: web=${realTimeData.searchProvider ?? 'NO'}, population=${realTimeData.populationData.length > 0 ? 'YES' : 'NO'}`);
+  trace.sources = {
+    webSearch: realTimeData.webSearchResults.length > 0,
+    nationalData: realTimeData.populationData.length > 0,
+    cityDemographics: realTimeData.cityPopulationData.length > 0,
+  };
+  trace.searchProvider = realTimeData.searchProvider;
+  onProgress({ type: 'realtime-data', sources: trace.sources, searchProvider: realTimeData.searchProvider });
+
+  // PASS 1: Discover dynamic factors + market data
+  console.log('Pass 1: Discovering factors and market data...');
+  const parsedBudget = parseBudget(budget, loadExchangeRates((key) => Deno.env.get(key)), country.currency);
+  const { data: pass1, quality: pass1Quality, tokens: pass1Tokens } = await timed(trace, 'factorDiscovery', () =>
+    pass1_discoverFactorsAndData(llm, businessIdea, location, country, parsedBudget, realTimeData));
+  trace.tokens.factorDiscovery = pass1Tokens;
+  console.log(`Pass 1 complete: ${pass1.factors.length} factors, ${pass1.marketData.length} data points, ${pass1Quality.repairs} repairs, ${pass1Quality.defaultedFields.length} defaulted`);
+  onProgress({ type: 'factors', factors: pass1.factors, dataPoints: pass1.marketData.length });
+
+  // PASS 2: Deterministic scoring
+  console.log('Pass 2: Scoring...');
+  const scoring = await timed(trace, 'scoring', () => pass2_score(pass1, parsedBudget));
+  console.log(`Pass 2 complete: score=${scoring.score}, verdict=${scoring.verdict}`);
+  const context = { country, locationProfile: realTimeData.locationProfile, searchProvider: realTimeData.searchProvider, sources: realTimeData.sources };
+  onProgress({ type: 'score', analysis: assembleAnalysis(input, scoring, pass1, context, { factorDiscovery: pass1Quality }) });
+
+  // PASS 3: AI explanations
+  console.log('Pass 3: Generating explanations...');
+  const { data: aiExplanations, quality: pass3Quality, tokens: pass3Tokens } = await timed(trace, 'explanation', () =>
+    pass3_explain(llm, businessIdea, location, country, budget, scoring, pass1, realTimeData.sources));
+  trace.tokens.explanation = pass3Tokens;
+  onProgress({ type: 'explanations' });
+
+  return assembleAnalysis(input, scoring, pass1, context, { factorDiscovery: pass1Quality, explanation: pass3Quality }, aiExplanations);
+}
+
+// ============================================
+// CACHE: reuse finished analyses for identical inputs
+// ============================================
+
+// Bump whenever prompts, scoring code or the response shape change so stale entries stop matching.
+// A retrained stump model changes the key on its own through its version.
+const PIPELINE_VERSION = 'pipeline-v12';
+const DEFAULT_CACHE_TTL_HOURS = 24;
+
+interface CacheInfo {
+  hit: boolean;
+  cachedAt: string;
+  ageSeconds: number;
+}
+
+interface CachedResponse {
+  analysis: AnalysisPayload;
+  aiModel: string;
+}
+
+function getServiceClient() {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey) return null;
+  return createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+}
+
+function normalizeForCache(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// The model is part of the key: a Gemini result must not be served to someone running their own Ollama model.
+// So is the search setup, so fixture-grounded results never reach a deployment with live search.
+async function buildCacheKey(input: AnalysisInput, aiModel: string, searchProviders: string): Promise<string> {
+  const material = JSON.stringify({
+    businessIdea: normalizeForCache(input.businessIdea),
+    location: normalizeForCache(input.location),
+    budget: normalizeForCache(input.budget),
+    pipelineVersion: PIPELINE_VERSION,
+    modelVersion: DEFAULT_MODEL.version,
+    aiModel,
+    searchProviders,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readCache(cacheKey: string): Promise<{ response: CachedResponse; cache: CacheInfo } | null> {
+  const serviceClient = getServiceClient();
+  if (!serviceClient) return null;
+  try {
+    const { data, error } = await serviceClient
+      .from('analysis_cache')
+      .select('response, created_at')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error || !data) return null;
+    const ageSeconds = Math.max(0, Math.round((Date.now() - new Date(data.created_at).getTime()) / 1000));
+    return { response: data.response as CachedResponse, cache: { hit: true, cachedAt: data.created_at, ageSeconds } };
+  } catch (err) {
+    console.error('Cache read failed:', err);
+    return null;
+  }
+}
+
+async function writeCache(cacheKey: string, input: AnalysisInput, response: CachedResponse): Promise<void> {
+  const serviceClient = getServiceClient();
+  if (!serviceClient) return;
+  const ttlHours = parseFloat(Deno.env.get('ANALYSIS_CACHE_TTL_HOURS') ?? '') || DEFAULT_CACHE_TTL_HOURS;
+  try {
+    const { error } = await serviceClient.from('analysis_cache').upsert({
+      cache_key: cacheKey,
+      pipeline_version: PIPELINE_VERSION,
+      ai_model: response.aiModel,
+      input,
+      response,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + ttlHours * 3600 * 1000).toISOString(),
+    });
+    if (error) console.error('Cache write failed:', error.message);
+  } catch (err) {
+    console.error('Cache write failed:', err);
+  }
+}
+
+function freshCacheInfo(): CacheInfo {
+  return { hit: false, cachedAt: new Date().toISOString(), ageSeconds: 0 };
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+function toErrorResponse(error: unknown): { status: number; message: string } {
+  const errorMessage = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+  console.error('Request failed:', errorMessage);
+  const errorMap: Record<string, { status: number; message: string }> = {
+    'RATE_LIMITED': { status: 429, message: 'Service is busy. Please try again in a moment.' },
+    'CREDITS_EXHAUSTED': { status: 503, message: 'Service temporarily unavailable.' },
+    'SERVICE_CONFIG_ERROR': { status: 503, message: 'Service configuration error.' },
+    'SERVICE_ERROR': { status: 503, message: 'Analysis service unavailable. Please try again.' },
+    'EMPTY_RESPONSE': { status: 500, message: 'Analysis incomplete. Please try again.' },
+    'INVALID_MODEL_OUTPUT': { status: 502, message: 'The AI returned an unreadable analysis. Please try again.' },
+    'QUOTA_UNAVAILABLE': { status: 503, message: 'Usage limits could not be checked right now. Please try again in a moment.' },
+    'CITY_DATA_UNAVAILABLE': { status: 503, message: 'City data is unavailable right now. Please try again.' },
+    'ANALYSIS_NOT_FOUND': { status: 404, message: 'This analysis could not be found.' },
+    'BATCH_NOT_FOUND': { status: 404, message: 'This batch could not be found.' },
+    'BATCH_NOT_STALLED': { status: 409, message: 'This batch is still being worked on.' },
+    'ANALYSIS_NOT_REVISABLE': { status: 400, message: 'This analysis predates corrections. Run it again to correct its assumptions.' },
+    'NO_CORRECTIONS': { status: 422, message: 'No estimate to change was found in that message. Try something like "rent is ₹80k/month" or "there are 3 gyms within 1 km".' },
+    'OLLAMA_NOT_CONFIGURED': { status: 400, message: 'Ollama is selected but no server URL is set. Add it in Settings.' },
+    'OLLAMA_URL_NOT_ALLOWED': { status: 400, message: 'Your Ollama server URL must be public; local and private network addresses are not allowed. Update it in Settings.' },
+    'OLLAMA_UNREACHABLE': { status: 502, message: 'Could not reach your Ollama server. Check the URL in Settings and that it is running.' },
+    'OLLAMA_MODEL_NOT_FOUND': { status: 502, message: 'Your Ollama server does not have the selected model. Pull it or change the model in Settings.' },
+  };
+  return errorMap[errorMessage] || { status: 500, message: 'Analysis failed. Please try again.' };
+}
+
+// ============================================
+// TELEMETRY: one usage_analytics row per analysis request
+// ============================================
+
+interface RequestTelemetry {
+  client: ReturnType<typeof createClient>;  // the caller's client, or the service client for batch rows
+  userId: string;
+  started: number;
+  stream: boolean;
+  aiModel: string | null;
+  cache: AnalysisEventMetadata['cache'];
+  trace: PipelineTrace;
+}
+
+// Best effort: a failed write is logged and never affects the response
+async function recordAnalysisEvent(telemetry: RequestTelemetry, outcome: AnalysisOutcome, error?: unknown): Promise<void> {
+  const metadata: AnalysisEventMetadata = {
+    ...telemetry.trace,
+    outcome,
+    cache: telemetry.cache,
+    stream: telemetry.stream,
+    pipelineVersion: PIPELINE_VERSION,
+    aiModel: telemetry.aiModel,
+    totalLatencyMs: Math.round(performance.now() - telemetry.started),
+    totalTokens: totalTokens(telemetry.trace),
+    errorCode: error === undefined ? null : errorCode(error),
+  };
+  try {
+    const { error: insertError } = await telemetry.client.from('usage_analytics').insert({ user_id: telemetry.userId, action_type: ANALYSIS_ACTION, metadata });
+    if (insertError) console.error('Telemetry write failed:', insertError.message);
+  } catch (err) {
+    console.error('Telemetry write failed:', err);
+  }
+}
+
+// ============================================
+// SSE: stream pipeline progress as server-sent events
+// ============================================
+// The app's chat runs analyses as background jobs and polls them, so it no longer uses this
+// mode; it stays for API clients that want one long-lived request with live progress.
+
+function streamPipeline(llm: PipelineLLMConfig, search: SearchProvider[], input: AnalysisInput, cacheKey: string, forceRefresh: boolean, telemetry: RequestTelemetry): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        const cached = forceRefresh ? null : await readCache(cacheKey);
+        if (cached) {
+          telemetry.cache = 'hit';
+          send('complete', { ...cached.response, cache: cached.cache });
+          await recordAnalysisEvent(telemetry, 'success');
+          return;
+        }
+        const analysis = await runPipeline(llm, search, input, telemetry.trace, (event) => send(event.type, event));
+        const response = { analysis, aiModel: describeModels(llm) };
+        await writeCache(cacheKey, input, response);
+        send('complete', { ...response, cache: freshCacheInfo() });
+        await recordAnalysisEvent(telemetry, 'success');
+      } catch (error) {
+        send('error', { error: toErrorResponse(error).message });
+        await recordAnalysisEvent(telemetry, 'error', error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, { headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+}
+
+// ============================================
+// BACKGROUND JOBS: run after the response, save the result server-side
+// ============================================
+// The client polls analysis_jobs (progress holds the events streamPipeline would have sent),
+// so a closed tab or dropped connection no longer throws away a paid-for analysis.
+
+type ServiceClient = NonNullable<ReturnType<typeof getServiceClient>>;
+
+async function updateJob(serviceClient: ServiceClient, jobId: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await serviceClient.from('analysis_jobs').update(fields).eq('id', jobId);
+  if (error) console.error(`Job ${jobId} update failed:`, error.message);
+}
+
+async function saveAnalysis(serviceClient: ServiceClient, userId: string, input: AnalysisInput, response: CachedResponse, batchId: string | null, parentId: string | null = null): Promise<string> {
+  const { analysis, aiModel } = response;
+  const { data, error } = await serviceClient.from('business_analyses').insert({
+    user_id: userId,
+    business_idea: input.businessIdea,
+    location: input.location !== 'Not specified' ? input.location : null,
+    budget: input.budget !== 'Not specified' ? input.budget : null,
+    verdict: analysis.verdict,
+    score: analysis.score,
+    summary: analysis.summary,
+    analysis_data: analysis,
+    ai_model_used: aiModel,
+    model_version: analysis.modelVersion ?? null,
+    batch_id: batchId,
+    parent_analysis_id: parentId,
+  }).select('id').single();
+  if (error || !data) {
+    console.error('Saving analysis failed:', error?.message);
+    throw new Error('SERVICE_ERROR');
+  }
+  return data.id;
+}
+
+async function runAnalysisJob(serviceClient: ServiceClient, jobId: string, userId: string, llm: PipelineLLMConfig, search: SearchProvider[], input: AnalysisInput, cacheKey: string, forceRefresh: boolean, telemetry: RequestTelemetry, batchId: string | null = null): Promise<void> {
+  await updateJob(serviceClient, jobId, { status: 'running' });
+  try {
+    const cached = forceRefresh ? null : await readCache(cacheKey);
+    let response: CachedResponse;
+    let cache: CacheInfo;
+    if (cached) {
+      telemetry.cache = 'hit';
+      ({ response, cache } = cached);
+    } else {
+      // Progress writes are chained so a slow update can never land after a later one
+      const events: PipelineEvent[] = [];
+      let progressWrites = Promise.resolve();
+      const analysis = await runPipeline(llm, search, input, telemetry.trace, (event) => {
+        events.push(event);
+        const progress = [...events];
+        progressWrites = progressWrites.then(() => updateJob(serviceClient, jobId, { progress }));
+      });
+      await progressWrites;
+      response = { analysis, aiModel: describeModels(llm) };
+      cache = freshCacheInfo();
+      await writeCache(cacheKey, input, response);
+    }
+
+    const analysisId = await saveAnalysis(serviceClient, userId, input, response, batchId);
+    await updateJob(serviceClient, jobId, { status: 'completed', analysis_id: analysisId, cache, finished_at: new Date().toISOString() });
+    console.log(`Job ${jobId} completed`);
+    await recordAnalysisEvent(telemetry, 'success');
+  } catch (error) {
+    await updateJob(serviceClient, jobId, { status: 'failed', error: toErrorResponse(error).message, finished_at: new Date().toISOString() });
+    await recordAnalysisEvent(telemetry, 'error', error);
+  }
+}
+
+async function submitAnalysisJob(userId: string, llm: PipelineLLMConfig, search: SearchProvider[], input: AnalysisInput, cacheKey: string, forceRefresh: boolean, telemetry: RequestTelemetry): Promise<Response> {
+  // Jobs are written with the service role; without it there is nowhere to keep the result
+  const serviceClient = getServiceClient();
+  if (!serviceClient) throw new Error('SERVICE_CONFIG_ERROR');
+
+  const { data: job, error } = await serviceClient
+    .from('analysis_jobs')
+    .insert({ user_id: userId, input, force_refresh: forceRefresh })
+    .select('id')
+    .single();
+  if (error || !job) {
+    console.error('Creating analysis job failed:', error?.message);
+    throw new Error('SERVICE_ERROR');
+  }
+
+  console.log(`Job ${job.id} queued`);
+  EdgeRuntime.waitUntil(runAnalysisJob(serviceClient, job.id, userId, llm, search, input, cacheKey, forceRefresh, telemetry));
+  return new Response(JSON.stringify({ jobId: job.id }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// ============================================
+// BATCHES: queued jobs worked through a few rows at a time
+// ============================================
+// A batch starts BATCH_CONCURRENCY workers. Each worker claims one queued row, runs it as a
+// normal job, then hands over to a fresh invocation of this function ({ continueBatch }) for
+// the next row, so no single invocation runs longer than one analysis. A row whose worker died
+// is reclaimed by the next claim once it has been silent for BATCH_STALE_AFTER_MS; if every
+// worker is lost, the user restarts them with { resumeBatch }.
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+// Same window as STALE_JOB_MS in src/lib/analysisJobs.ts
+const BATCH_STALE_AFTER_MS = 10 * 60 * 1000;
+// Workers a row may use up before a stale claim fails it instead of running it again
+const BATCH_MAX_ATTEMPTS = 2;
+const HANDOFF_ATTEMPTS = 3;
+
+async function loadPipelineConfig(client: ReturnType<typeof createClient>, userId: string): Promise<{ llm: PipelineLLMConfig; search: SearchProvider[] }> {
+  // Resolve provider/model per pass (deployment config, or the user's own Ollama server)
+  const { data: profile } = await client
+    .from('profiles')
+    .select('preferred_ai_model, ollama_base_url, ollama_model')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return {
+    llm: loadLLMConfig((key) => Deno.env.get(key), profile as ProfileAISettings | null, (host, type) => Deno.resolveDns(host, type)),
+    search: loadSearchProviders((key) => Deno.env.get(key)),
+  };
+}
+
+// A worker lost here leaves its share of the queue to the other workers, or to a resume
+async function continueBatch(batchId: string): Promise<void> {
+  for (let attempt = 1; attempt <= HANDOFF_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/analyze-business`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ continueBatch: batchId }),
+      });
+      if (response.ok) return;
+      console.error(`Batch ${batchId} hand-off failed (attempt ${attempt}): HTTP ${response.status}`);
+    } catch (err) {
+      console.error(`Batch ${batchId} hand-off failed (attempt ${attempt}):`, err);
+    }
+    if (attempt < HANDOFF_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+  }
+}
+
+async function runNextBatchJob(serviceClient: ServiceClient, batchId: string): Promise<void> {
+  const { data: job, error } = await serviceClient.rpc('claim_batch_job', {
+    p_batch_id: batchId,
+    p_stale_after: `${BATCH_STALE_AFTER_MS / 1000} seconds`,
+    p_max_attempts: BATCH_MAX_ATTEMPTS,
+  }).maybeSingle();
+  if (error) {
+    console.error(`Batch ${batchId} claim failed:`, error.message);
+    return;
+  }
+  if (!job) {
+    console.log(`Batch ${batchId}: worker done, no queued rows left`);
+    return;
+  }
+
+  const { id: jobId, user_id: userId, row_number: rowNumber, attempts } = job as { id: string; user_id: string; row_number: number; attempts: number };
+  const input = (job as { input: AnalysisInput }).input;
+  console.log(`Batch ${batchId}: row ${rowNumber}${attempts > 1 ? ` (attempt ${attempts}, reclaimed from a stalled worker)` : ''}`);
+  try {
+    const { llm, search } = await loadPipelineConfig(serviceClient, userId);
+    const aiModel = describeModels(llm);
+    const telemetry: RequestTelemetry = { client: serviceClient, userId, started: performance.now(), stream: false, aiModel, cache: 'miss', trace: newTrace() };
+    const cacheKey = await buildCacheKey(input, aiModel, describeSearchProviders(search));
+    await runAnalysisJob(serviceClient, jobId, userId, llm, search, input, cacheKey, false, telemetry, batchId);
+  } catch (error) {
+    // runAnalysisJob records its own failures; this only covers loading the user's settings
+    await updateJob(serviceClient, jobId, { status: 'failed', error: toErrorResponse(error).message, finished_at: new Date().toISOString() });
+  }
+  await continueBatch(batchId);
+}
+
+async function submitAnalysisBatch(userId: string, name: string, inputs: AnalysisInput[]): Promise<Response> {
+  const serviceClient = getServiceClient();
+  if (!serviceClient) throw new Error('SERVICE_CONFIG_ERROR');
+
+  const { data: batch, error: batchError } = await serviceClient
+    .from('analysis_batches')
+    .insert({ user_id: userId, name, row_count: inputs.length })
+    .select('id')
+    .single();
+  if (batchError || !batch) {
+    console.error('Creating analysis batch failed:', batchError?.message);
+    throw new Error('SERVICE_ERROR');
+  }
+
+  const { error: jobsError } = await serviceClient
+    .from('analysis_jobs')
+    .insert(inputs.map((input, index) => ({ user_id: userId, input, batch_id: batch.id, row_number: index + 1 })));
+  if (jobsError) {
+    console.error('Queueing batch rows failed:', jobsError.message);
+    await serviceClient.from('analysis_batches').delete().eq('id', batch.id);
+    throw new Error('SERVICE_ERROR');
+  }
+
+  const workers = startBatchWorkers(serviceClient, batch.id, inputs.length);
+  console.log(`Batch ${batch.id} queued: ${inputs.length} rows, ${workers} workers`);
+  return new Response(JSON.stringify({ batchId: batch.id }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+function startBatchWorkers(serviceClient: ServiceClient, batchId: string, rows: number): number {
+  const concurrency = Math.min(rows, parseInt(Deno.env.get('BATCH_CONCURRENCY') ?? '', 10) || DEFAULT_BATCH_CONCURRENCY);
+  EdgeRuntime.waitUntil(Promise.all(Array.from({ length: concurrency }, () => runNextBatchJob(serviceClient, batchId))));
+  return concurrency;
+}
+
+// Restarts the workers of a batch that stopped making progress. Rows were paid for when the batch
+// was queued, so this consumes no quota; a batch with recent activity still has live workers.
+async function resumeAnalysisBatch(client: ReturnType<typeof createClient>, batchId: unknown): Promise<Response> {
+  if (typeof batchId !== 'string' || !UUID_PATTERN.test(batchId)) {
+    return new Response(JSON.stringify({ error: 'Batch id is required' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+  // Read with the caller's client, so RLS limits resuming to their own batches
+  const { data: jobs, error } = await client.from('analysis_jobs').select('status, updated_at').eq('batch_id', batchId);
+  if (error) console.error(`Batch ${batchId} lookup failed:`, error.message);
+  if (!jobs || jobs.length === 0) throw new Error('BATCH_NOT_FOUND');
+
+  const unfinished = jobs.filter((job) => job.status === 'queued' || job.status === 'running').length;
+  const lastActivity = Math.max(...jobs.map((job) => new Date(job.updated_at).getTime()));
+  if (unfinished === 0 || Date.now() - lastActivity < BATCH_STALE_AFTER_MS) throw new Error('BATCH_NOT_STALLED');
+
+  const serviceClient = getServiceClient();
+  if (!serviceClient) throw new Error('SERVICE_CONFIG_ERROR');
+  const workers = startBatchWorkers(serviceClient, batchId, unfinished);
+  console.log(`Batch ${batchId} resumed: ${unfinished} unfinished rows, ${workers} workers`);
+  return new Response(JSON.stringify({ batchId }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// ============================================
+// COMPARISON: one idea across several locations
+// ============================================
+// Every location gets its own full pipeline, but they share one web search per country
+// (a query naming all the candidate locations there) instead of searching once each.
+// Results skip the analysis cache since their grounding differs from a single analysis.
+
+const COMPARE_CONCURRENCY = 2;
+
+async function compareLocations(llm: PipelineLLMConfig, search: SearchProvider[], request: { businessIdea: string; budget: string; locations: string[] }, telemetry: RequestTelemetry): Promise<Response> {
+  const { businessIdea, budget, locations } = request;
+
+  const webSearches = new Map<string, Promise<WebSearchResult>>();
+  for (const location of locations) {
+    const country = resolveCountry(location);
+    if (webSearches.has(country.code)) continue;
+    const inCountry = locations.filter((candidate) => resolveCountry(candidate).code === country.code);
+    webSearches.set(country.code, fetchWebSearch(search, businessIdea, inCountry.join(', '), country));
+  }
+
+  // A failed location is reported in the comparison rather than failing the others
+  const entries = await mapWithConcurrency(locations, COMPARE_CONCURRENCY, async (location) => {
+    const runTelemetry: RequestTelemetry = { ...telemetry, started: performance.now(), cache: 'bypass', trace: newTrace() };
+    try {
+      const analysis = await runPipeline(llm, search, { businessIdea, location, budget }, runTelemetry.trace, undefined, webSearches.get(resolveCountry(location).code));
+      await recordAnalysisEvent(runTelemetry, 'success');
+      return { location, analysis };
+    } catch (error) {
+      await recordAnalysisEvent(runTelemetry, 'error', error);
+      return { location, analysis: null, error: toErrorResponse(error).message };
+    }
+  });
+
+  const failed = entries.filter((entry) => !entry.analysis);
+  if (failed.length === entries.length) {
+    return new Response(JSON.stringify({ error: failed[0].error }), { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+  console.log(`Comparison complete: ${entries.length - failed.length}/${entries.length} locations`);
+  const comparison = { businessIdea, budget, aiModel: describeModels(llm), ...rankComparison(entries) };
+  return new Response(JSON.stringify(comparison), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// ============================================
+// CITY RECOMMENDATIONS: the best cities for an idea and budget
+// ============================================
+// One Pass 1 on national figures (no web search, no city) is adjusted to every city and
+// scored by Pass 2 (see _shared/recommend.ts). city_demographics only covers India, so the
+// estimate is always made in INR for India.
+
+const RECOMMEND_COUNTRY = 'India';
+
+async function fetchCityRows(): Promise<CityDemographicsRow[]> {
+  const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '');
+  const { data, error } = await client
+    .from('city_demographics')
+    .select('name, state, tier, population_2011, growth_rate, literacy_rate, avg_household_income_inr');
+  if (error) console.error('City list failed:', error.message);
+  if (error || !data?.length) throw new Error('CITY_DATA_UNAVAILABLE');
+  return data.map((row) => ({
+    ...row,
+    population_2011: Number(row.population_2011),
+    growth_rate: Number(row.growth_rate),
+    literacy_rate: row.literacy_rate === null ? null : Number(row.literacy_rate),
+  })) as CityDemographicsRow[];
+}
+
+async function recommendCitiesForIdea(llm: PipelineLLMConfig, request: { businessIdea: string; budget: string }, telemetry: RequestTelemetry): Promise<Response> {
+  const { businessIdea, budget } = request;
+  telemetry.cache = 'bypass';
+  const country = resolveCountry(RECOMMEND_COUNTRY);
+  const rows = await fetchCityRows();
+  const parsedBudget = parseBudget(budget, loadExchangeRates((key) => Deno.env.get(key)), country.currency);
+
+  const { data: baseline, tokens } = await timed(telemetry.trace, 'factorDiscovery', () =>
+    pass1_discoverFactorsAndData(llm, businessIdea, `${country.name} (a typical city; no specific location)`, country, parsedBudget));
+  telemetry.trace.tokens.factorDiscovery = tokens;
+  const cities = await timed(telemetry.trace, 'scoring', () => recommendCities(baseline, rows, parsedBudget));
+  console.log(`Recommendations complete: ${cities.length} cities, best ${cities[0]?.city} (${cities[0]?.score})`);
+
+  await recordAnalysisEvent(telemetry, 'success');
+  return new Response(JSON.stringify({ businessIdea, budget, aiModel: describeModels(llm), cities }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// ============================================
+// REVISIONS: re-run Pass 2 → 3 with the user's corrections
+// ============================================
+// The model maps the correction text onto structured overrides of the saved Pass 1 data
+// (_shared/corrections.ts); scoring and explanations then re-run on the corrected data and
+// the result is saved as a new analysis whose parent_analysis_id is the original. Web
+// sources and the location profile are reused from the original rather than fetched again.
+// Parsing runs on the Pass 1 model but is traced as 'corrections', not as a Pass 1 run.
+
+async function parseCorrections(llm: PipelineLLMConfig, pass1: Pass1Result, text: string, currency: string): Promise<{ data: Corrections; tokens: TokenUsage }> {
+  const systemPrompt = `You turn a user's corrections to a business feasibility analysis into structured overrides of its estimates. Only include what the user actually corrected.
+
+Current estimates (all money in ${currency}):
+${JSON.stringify({ ...pass1, factors: pass1.factors.map(({ name, score }) => ({ name, score })) }, null, 2)}
+
+Rules:
+- A figure for the whole quantity ("setup will cost 12 lakh") sets min and max of that range to it.
+- A figure for one part of a range (rent or salaries within monthly expenses) shifts the whole range by the difference from the current estimate for that part (its marketData point when there is one), keeping min <= max.
+- Competitor counts go to directCompetitors / indirectCompetitors.
+- Change a factor score (factorScores, exact factor name) only when the correction clearly makes that factor better or worse.
+- A corrected budget goes to overrides.budget as the user wrote it.
+- Record each corrected figure in marketData, reusing the metric name from the current marketData when it is the same thing. Per-month amounts use unit "${currency}/month".
+- Put any part of the message that does not correct an estimate in unmatched.
+
+Return ONLY valid JSON:
+{
+  "overrides": {
+    "budget": "<string>",
+    "setupCost": {"min": <number>, "max": <number>},
+    "monthlyRevenue": {"min": <number>, "max": <number>},
+    "monthlyExpenses": {"min": <number>, "max": <number>},
+    "directCompetitors": <integer>,
+    "indirectCompetitors": <integer>,
+    "avgProfitMargin": <0.0-1.0>,
+    "factorScores": {"<factor name>": <0-100>}
+  },
+  "marketData": [{"metric": "<name>", "value": <number>, "unit": "<unit>"}],
+  "unmatched": ["<text>"]
+}
+Leave out every override key the user did not correct.`;
+
+  const result = await runStructuredPass(llm, 'factorDiscovery', systemPrompt, `Corrections: ${text}`, correctionsSchema);
+  return { data: correctionsFromResult(result), tokens: result.tokens };
+}
+
+async function reviseAnalysis(llm: PipelineLLMConfig, client: ReturnType<typeof createClient>, userId: string, request: { analysisId: string; corrections: string }, telemetry: RequestTelemetry): Promise<Response> {
+  const { trace } = telemetry;
+  telemetry.cache = 'bypass';
+
+  // Read with the caller's client, so RLS limits revisions to their own analyses
+  const { data: saved, error } = await client.from('business_analyses').select('analysis_data').eq('id', request.analysisId).maybeSingle();
+  if (error) console.error('Analysis lookup failed:', error.message);
+  const original = saved?.analysis_data as AnalysisPayload | null;
+  if (!original?.verdict) throw new Error('ANALYSIS_NOT_FOUND');
+  if (!original.pass1 || !original.input) throw new Error('ANALYSIS_NOT_REVISABLE');
+
+  const country = resolveCountry(original.input.location);
+  const { data: corrections, tokens } = await timed(trace, 'corrections', () => parseCorrections(llm, original.pass1, request.corrections, country.currency));
+  trace.tokens.corrections = tokens;
+  if (!hasCorrections(corrections)) throw new Error('NO_CORRECTIONS');
+
+  const pass1 = applyCorrections(original.pass1, corrections);
+  const input: AnalysisInput = { ...original.input, budget: corrections.overrides.budget ?? original.input.budget };
+  const changes = [
+    ...(input.budget !== original.input.budget ? [`Budget: ${original.input.budget} → ${input.budget}`] : []),
+    ...describeChanges(original.pass1, pass1, country.currency),
+  ];
+  console.log(`Revision: ${changes.length} changes, ${corrections.unmatched.length} unmatched`);
+
+  const parsedBudget = parseBudget(input.budget, loadExchangeRates((key) => Deno.env.get(key)), country.currency);
+  const scoring = await timed(trace, 'scoring', () => pass2_score(pass1, parsedBudget));
+  const sources = original.sources ?? [];
+  const { data: aiExplanations, quality: pass3Quality, tokens: pass3Tokens } = await timed(trace, 'explanation', () =>
+    pass3_explain(llm, input.businessIdea, input.location, country, input.budget, scoring, pass1, sources));
+  trace.tokens.explanation = pass3Tokens;
+
+  const context = { country, locationProfile: original.locationProfile ?? null, searchProvider: original.searchProvider ?? null, sources };
+  // Pass 1 did not run again, so its quality record carries over from the original
+  const factorDiscovery = original.dataQuality?.factorDiscovery ?? { valid: true, repairs: 0, issues: [], defaultedFields: [] };
+  const dataQuality = { factorDiscovery, explanation: pass3Quality };
+  const analysis = {
+    ...assembleAnalysis(input, scoring, pass1, context, dataQuality, aiExplanations),
+    revision: { parentId: request.analysisId, corrections: request.corrections, changes, unmatched: corrections.unmatched },
+  };
+
+  const serviceClient = getServiceClient();
+  if (!serviceClient) throw new Error('SERVICE_CONFIG_ERROR');
+  const aiModel = describeModels(llm);
+  const analysisId = await saveAnalysis(serviceClient, userId, input, { analysis, aiModel }, null, request.analysisId);
+  await recordAnalysisEvent(telemetry, 'success');
+  return new Response(JSON.stringify({ analysis, aiModel, analysisId }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 }
 
 // ============================================
@@ -874,6 +1080,20 @@ Deno.serve(async (req) => {
   // corsHeaders defined at top level
   if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
 
+  // Batch hand-off from a previous worker (service role only); runs the next queued row
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (serviceKey && req.headers.get('Authorization') === `Bearer ${serviceKey}`) {
+    const { continueBatch: batchId } = await req.json().catch(() => ({}));
+    const serviceClient = getServiceClient();
+    if (typeof batchId !== 'string' || !serviceClient) {
+      return new Response(JSON.stringify({ error: 'continueBatch is required' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    EdgeRuntime.waitUntil(runNextBatchJob(serviceClient, batchId));
+    return new Response(JSON.stringify({ batchId }), { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+
+  const started = performance.now();
+  let telemetry: RequestTelemetry | null = null;
   try {
     // Auth
     const authHeader = req.headers.get('Authorization');
@@ -889,99 +1109,89 @@ Deno.serve(async (req) => {
     const userId = claimsData.user.id;
     console.log('Authenticated user:', userId.substring(0, 8) + '...');
 
-    // Validate input
+    // Validate input: one idea, { batch: { name, rows } } with one idea per row, one idea with several
+    // locations, { recommendCities: true } with an idea and budget only, or { revise: { analysisId, corrections } }.
+    // { resumeBatch: batchId } restarts a stalled batch and is not a new analysis
     let body: unknown;
     try { body = await req.json(); } catch {
       return new Response(JSON.stringify({ error: 'Invalid JSON body' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
-    const validation = validateInput(body);
+    const options = (body ?? {}) as Record<string, unknown>;
+    if (options.resumeBatch !== undefined) return await resumeAnalysisBatch(supabaseClient, options.resumeBatch);
+    const validation = options.batch !== undefined ? validateBatch(options.batch)
+      : options.locations !== undefined ? validateComparison(body)
+      : options.recommendCities === true ? validateRecommendation(body)
+      : options.revise !== undefined ? validateRevision(options.revise)
+      : validateInput(body);
     if (!validation.valid || !validation.data) {
       return new Response(JSON.stringify({ error: validation.error }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
-    const { businessIdea, location, budget } = validation.data;
-
-    // ============================================
-    // PRE-PASS: Fetch real-time web & population data
-    // ============================================
-    console.log('Pre-pass: Fetching real-time data...');
-    const realTimeData = await fetchRealTimeData(businessIdea, location);
-    console.log(`Real-time data: web=${realTimeData.webSearchResults.length > 0 ? 'YES' : 'NO'}, population=${realTimeData.populationData.length > 0 ? 'YES' : 'NO'}`);
-
-    // ============================================
-    // PASS 1: Discover dynamic factors + market data
-    // ============================================
-    console.log('Pass 1: Discovering factors and market data...');
-    const pass1 = await pass1_discoverFactorsAndData(businessIdea, location, budget, realTimeData);
-    console.log(`Pass 1 complete: ${pass1.factors.length} factors, ${pass1.marketData.length} data points`);
-
-    // ============================================
-    // PASS 2: Deterministic scoring
-    // ============================================
-    console.log('Pass 2: Scoring...');
-    const scoring = pass2_score(pass1, budget);
-    console.log(`Pass 2 complete: score=${scoring.score}, verdict=${scoring.verdict}`);
-
-    // ============================================
-    // PASS 3: AI explanations
-    // ============================================
-    console.log('Pass 3: Generating explanations...');
-    const aiExplanations = await pass3_explain(businessIdea, location, budget, scoring, pass1);
-
-    // ============================================
-    // Assemble Final Response
-    // ============================================
-    const analysis = {
-      verdict: scoring.verdict,
-      score: scoring.score,
-      summary: (aiExplanations.summary as string) || `Analysis complete for ${businessIdea} in ${location}.`,
-      scoringFactors: Object.fromEntries(scoring.factors.map(f => [f.name.replace(/\s+/g, ''), f.score])),
-      dynamicFactors: scoring.factors,
-      marketData: pass1.marketData,
-      marketAnalysis: {
-        size: pass1.marketSize || 'Data pending',
-        growth: pass1.marketGrowth || 'Data pending',
-        competition: `${pass1.directCompetitors} direct, ${pass1.indirectCompetitors} indirect`,
-        explanation: (aiExplanations.marketExplanation as string) || '',
-      },
-      financialProjection: {
-        yearlyData: generateYearlyWithMonths(scoring.financialProjections),
-        breakEvenMonths: scoring.breakEvenMonths,
-        roi: scoring.roi,
-        explanation: (aiExplanations.financialExplanation as string) || '',
-        setupCostRange: { min: pass1.estimatedSetupCostMin, max: pass1.estimatedSetupCostMax },
-        monthlyRevenueRange: { min: pass1.estimatedMonthlyRevenueMin, max: pass1.estimatedMonthlyRevenueMax },
-        monthlyExpensesRange: { min: pass1.estimatedMonthlyExpensesMin, max: pass1.estimatedMonthlyExpensesMax },
-      },
-      competitionAnalysis: {
-        directCompetitors: pass1.directCompetitors,
-        indirectCompetitors: pass1.indirectCompetitors,
-        competitiveAdvantage: (aiExplanations.competitiveAdvantage as string) || '',
-        threats: (aiExplanations.threats as string[]) || [],
-        opportunities: (aiExplanations.opportunities as string[]) || [],
-        explanation: (aiExplanations.competitionExplanation as string) || '',
-      },
-      roadmap: {
-        phases: (aiExplanations.roadmapPhases as unknown[]) || [],
-        explanation: (aiExplanations.roadmapExplanation as string) || '',
-      },
-      risks: (aiExplanations.risks as unknown[]) || [],
-      recommendations: (aiExplanations.recommendations as string[]) || [],
-      expertInsights: (aiExplanations.expertInsights as string) || '',
-    };
-
-    return new Response(JSON.stringify({ analysis }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    const batch = 'rows' in validation.data ? validation.data : null;
+    const comparison = 'locations' in validation.data ? validation.data : null;
+    const recommendation = options.recommendCities === true && !batch && !comparison ? validation.data : null;
+    const revision = 'corrections' in validation.data ? validation.data : null;
+    const requested = batch?.rows.length ?? comparison?.locations.length ?? 1;
+    telemetry = { client: supabaseClient, userId, started, stream: false, aiModel: null, cache: null, trace: newTrace() };
+
+    // Per-user limits (analysis_quotas); a failed check refuses the request with a 503
+    const { data: quotaRow, error: quotaError } = await supabaseClient.rpc('consume_analysis_quota', { p_count: requested }).maybeSingle();
+    const refused = checkQuotaResult(quotaRow as QuotaRow | null, quotaError, new Date(), requested);
+    if (refused) {
+      console.log(`Quota refused (${refused.code}), retry in ${refused.retryAfterSeconds}s`);
+      await recordAnalysisEvent(telemetry, 'refused', new Error(refused.code));
+      return new Response(JSON.stringify(refused), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(refused.retryAfterSeconds) },
+      });
+    }
+
+    // Batch rows are analysed by the workers, each recording its own telemetry
+    if (batch) return await submitAnalysisBatch(userId, batch.name, batch.rows);
+
+    const { llm, search } = await loadPipelineConfig(supabaseClient, userId);
+    console.log('AI models:', describeModels(llm));
+    console.log('Web search:', describeSearchProviders(search));
+    telemetry.aiModel = describeModels(llm);
+
+    // Comparison mode: one ranked response once every location has finished
+    if (comparison) return await compareLocations(llm, search, comparison, telemetry);
+
+    // Recommendation mode: ranked cities from one national estimate
+    if (recommendation) return await recommendCitiesForIdea(llm, recommendation, telemetry);
+
+    // Revision mode: the corrected analysis, saved as a revision of the original
+    if (revision) return await reviseAnalysis(llm, supabaseClient, userId, revision, telemetry);
+
+    const input = validation.data as AnalysisInput;
+    const forceRefresh = options.forceRefresh === true;
+    telemetry.cache = forceRefresh ? 'bypass' : 'miss';
+    const cacheKey = await buildCacheKey(input, describeModels(llm), describeSearchProviders(search));
+
+    // SSE mode: progress events followed by a final 'complete' (or 'error') event
+    const wantsStream = options.stream === true || (req.headers.get('Accept') ?? '').includes('text/event-stream');
+    telemetry.stream = wantsStream;
+    if (wantsStream) return streamPipeline(llm, search, input, cacheKey, forceRefresh, telemetry);
+
+    // Job mode: 202 with the analysis_jobs id; the pipeline keeps running after the response
+    if (options.background === true) return await submitAnalysisJob(userId, llm, search, input, cacheKey, forceRefresh, telemetry);
+
+    const cached = forceRefresh ? null : await readCache(cacheKey);
+    if (cached) {
+      console.log(`Cache hit (${cached.cache.ageSeconds}s old)`);
+      telemetry.cache = 'hit';
+      await recordAnalysisEvent(telemetry, 'success');
+      return new Response(JSON.stringify({ ...cached.response, cache: cached.cache }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const analysis = await runPipeline(llm, search, input, telemetry.trace);
+    const response = { analysis, aiModel: describeModels(llm) };
+    await writeCache(cacheKey, input, response);
+    await recordAnalysisEvent(telemetry, 'success');
+    return new Response(JSON.stringify({ ...response, cache: freshCacheInfo() }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
-    console.error('Request failed:', errorMessage);
-    const errorMap: Record<string, { status: number; message: string }> = {
-      'RATE_LIMITED': { status: 429, message: 'Service is busy. Please try again in a moment.' },
-      'CREDITS_EXHAUSTED': { status: 503, message: 'Service temporarily unavailable.' },
-      'SERVICE_CONFIG_ERROR': { status: 503, message: 'Service configuration error.' },
-      'SERVICE_ERROR': { status: 503, message: 'Analysis service unavailable. Please try again.' },
-      'EMPTY_RESPONSE': { status: 500, message: 'Analysis incomplete. Please try again.' },
-    };
-    const errorResponse = errorMap[errorMessage] || { status: 500, message: 'Analysis failed. Please try again.' };
+    const errorResponse = toErrorResponse(error);
+    if (telemetry) await recordAnalysisEvent(telemetry, 'error', error);
     return new Response(JSON.stringify({ error: errorResponse.message }), { status: errorResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
   }
 });
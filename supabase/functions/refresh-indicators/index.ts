@@ -0,0 +1,50 @@
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { COUNTRIES } from '../_shared/countries.ts';
+import { fetchWorldBankIndicators } from '../_shared/indicators.ts';
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+// Refreshes country_indicators from the World Bank API for every supported country.
+// The figures change about once a year, so a monthly schedule is plenty, e.g. a
+// Supabase cron job POSTing here with the service role key as the bearer token.
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+Deno.serve(async (req) => {
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  // Service role only: this writes reference data every analysis reads
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return json({ error: 'Service role required' }, 401);
+  }
+  const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+  // One country at a time keeps the World Bank API happy; a failure only skips that country
+  const updated: Record<string, number> = {};
+  const failed: string[] = [];
+  for (const country of COUNTRIES) {
+    try {
+      const rows = await fetchWorldBankIndicators(country.iso3, REQUEST_TIMEOUT_MS);
+      if (rows.length === 0) throw new Error('no observations');
+      const fetchedAt = new Date().toISOString();
+      const { error } = await client
+        .from('country_indicators')
+        .upsert(rows.map((row) => ({ ...row, fetched_at: fetchedAt })), { onConflict: 'country_code,indicator,year' });
+      if (error) throw new Error(error.message);
+      updated[country.iso3] = rows.length;
+    } catch (err) {
+      console.error(`Indicator refresh failed for ${country.iso3}:`, err instanceof Error ? err.message : err);
+      failed.push(country.iso3);
+    }
+  }
+
+  console.log(`Indicators refreshed: ${Object.keys(updated).length} countries, ${failed.length} failed`);
+  return json({ updated, failed }, failed.length === COUNTRIES.length ? 502 : 200);
+});
@@ -0,0 +1,50 @@
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { rescore, parseRescoreRequest } from '../_shared/rescore.ts';
+import { loadExchangeRates } from '../_shared/budget.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+// What-if scoring: saved Pass 1 data + overrides in, new score/verdict/projections out.
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  try {
+    // Auth
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) return json({ error: 'Authentication required' }, 401);
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', { global: { headers: { Authorization: authHeader } } });
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !claimsData?.user) return json({ error: 'Invalid or expired token' }, 401);
+
+    // Validate input
+    let body: unknown;
+    try { body = await req.json(); } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+    const { data: request, issues } = parseRescoreRequest(body);
+    if (!request) return json({ error: 'Invalid re-score request', issues }, 400);
+
+    const started = performance.now();
+    const result = rescore(request, { rates: loadExchangeRates((key) => Deno.env.get(key)) });
+    const durationMs = Math.round((performance.now() - started) * 10) / 10;
+    console.log(`Re-scored: score=${result.score}, verdict=${result.verdict}, ${durationMs}ms`);
+
+    return json({ result, durationMs });
+  } catch (error) {
+    console.error('Re-score failed:', error instanceof Error ? error.message : error);
+    return json({ error: 'Re-scoring failed. Please try again.' }, 500);
+  }
+});
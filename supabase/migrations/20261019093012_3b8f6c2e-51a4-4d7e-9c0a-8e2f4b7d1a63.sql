@@ -0,0 +1,8 @@
+-- Per-user Ollama server settings used when preferred_ai_model = 'ollama'
+ALTER TABLE public.profiles
+  ADD COLUMN ollama_base_url TEXT,
+  ADD COLUMN ollama_model TEXT DEFAULT 'llama3.2';
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_ollama_base_url_check
+  CHECK (ollama_base_url IS NULL OR ollama_base_url ~* '^https?://');
@@ -0,0 +1,16 @@
+-- Cache of finished analyses keyed by normalized input + pipeline version.
+-- Written and read only by the analyze-business function (service role), so no client policies.
+CREATE TABLE public.analysis_cache (
+  cache_key TEXT NOT NULL PRIMARY KEY,
+  pipeline_version TEXT NOT NULL,
+  ai_model TEXT NOT NULL,
+  input JSONB NOT NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX analysis_cache_expires_at_idx ON public.analysis_cache (expires_at);
+
+ALTER TABLE public.analysis_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_cache FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,3 @@
+-- Which version of the Pass 2 stump model scored the analysis
+ALTER TABLE public.business_analyses
+  ADD COLUMN model_version TEXT;
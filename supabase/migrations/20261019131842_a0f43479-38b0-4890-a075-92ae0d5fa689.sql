@@ -0,0 +1,197 @@
+-- City-level demographics for the Pass 1 prompt, replacing the table hardcoded in analyze-business.
+-- Alternate spellings and neighbourhoods live in city_aliases and point at one city row, so
+-- "bangalore", "bengaluru" and "koramangala" share the same figures without copying them.
+-- More towns can be loaded with `npm run import:cities -- --data towns.csv` (service role).
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch WITH SCHEMA extensions;
+
+CREATE TABLE public.city_demographics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  district TEXT,
+  state TEXT NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('Tier 1', 'Tier 2', 'Tier 3')),
+  population_2011 BIGINT NOT NULL CHECK (population_2011 > 0),
+  metro_population_2011 BIGINT,
+  growth_rate NUMERIC(5, 2) NOT NULL,       -- % per year
+  literacy_rate NUMERIC(5, 2),              -- %
+  avg_household_income_inr INTEGER,         -- per year
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (name, state)
+);
+
+-- Every lookup goes through aliases; each city also has its own lowercased name as an alias.
+-- kind = 'neighbourhood' marks areas that only have city-wide figures.
+CREATE TABLE public.city_aliases (
+  alias TEXT NOT NULL PRIMARY KEY CHECK (alias = lower(alias)),
+  city_id UUID NOT NULL REFERENCES public.city_demographics(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'name' CHECK (kind IN ('name', 'neighbourhood'))
+);
+
+CREATE INDEX city_aliases_city_id_idx ON public.city_aliases (city_id);
+
+ALTER TABLE public.city_demographics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.city_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Reference data: anyone can read, only the service role writes
+CREATE POLICY "Anyone can view city demographics" ON public.city_demographics FOR SELECT USING (true);
+CREATE POLICY "Anyone can view city aliases" ON public.city_aliases FOR SELECT USING (true);
+
+CREATE TRIGGER update_city_demographics_updated_at
+BEFORE UPDATE ON public.city_demographics
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Best match for any of the candidate phrases pulled from a free-text location.
+-- Allowed edit distance grows with alias length (none under 4 characters, 1 up to 7, then max_distance),
+-- so "hyderbad" still finds Hyderabad while short names like "goa" must match exactly.
+-- Ties go to the smaller distance, then the longer alias ("hsr layout" over "layout"), then the bigger city.
+CREATE OR REPLACE FUNCTION public.match_city(candidates TEXT[], max_distance INTEGER DEFAULT 2)
+RETURNS TABLE (
+  city_id UUID,
+  name TEXT,
+  district TEXT,
+  state TEXT,
+  tier TEXT,
+  population_2011 BIGINT,
+  metro_population_2011 BIGINT,
+  growth_rate NUMERIC,
+  literacy_rate NUMERIC,
+  avg_household_income_inr INTEGER,
+  matched_alias TEXT,
+  alias_kind TEXT,
+  query TEXT,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO 'public', 'extensions'
+AS $function$
+  SELECT c.id, c.name, c.district, c.state, c.tier, c.population_2011, c.metro_population_2011,
+         c.growth_rate, c.literacy_rate, c.avg_household_income_inr,
+         a.alias, a.kind, q.candidate, m.distance
+  FROM unnest(candidates) AS q(candidate)
+  JOIN public.city_aliases a ON abs(length(a.alias) - length(q.candidate)) <= max_distance
+  CROSS JOIN LATERAL (SELECT levenshtein(lower(q.candidate), a.alias) AS distance) m
+  JOIN public.city_demographics c ON c.id = a.city_id
+  WHERE m.distance <= LEAST(max_distance, CASE WHEN length(a.alias) < 4 THEN 0 WHEN length(a.alias) < 8 THEN 1 ELSE max_distance END)
+  ORDER BY m.distance, length(a.alias) DESC, c.population_2011 DESC
+  LIMIT 1;
+$function$;
+
+-- Seed: the cities previously hardcoded in analyze-business (Census 2011 + growth estimates)
+INSERT INTO public.city_demographics (name, district, state, tier, population_2011, metro_population_2011, growth_rate, literacy_rate, avg_household_income_inr) VALUES
+  ('Mumbai', NULL, 'Maharashtra', 'Tier 1', 12442373, 20748395, 1.2, 89.7, 450000),
+  ('Delhi', NULL, 'Delhi', 'Tier 1', 11034555, 16787941, 1.9, 86.3, 400000),
+  ('Bengaluru', 'Bengaluru Urban', 'Karnataka', 'Tier 1', 8443675, 10456000, 3.5, 87.7, 520000),
+  ('Hyderabad', 'Hyderabad', 'Telangana', 'Tier 1', 6993262, 9746000, 2.8, 83.3, 400000),
+  ('Ahmedabad', 'Ahmedabad', 'Gujarat', 'Tier 1', 5577940, 7650000, 2.0, 86.7, 350000),
+  ('Chennai', 'Chennai', 'Tamil Nadu', 'Tier 1', 4681087, 8696010, 1.3, 90.2, 420000),
+  ('Kolkata', 'Kolkata', 'West Bengal', 'Tier 1', 4496694, 14112536, 0.6, 87.1, 300000),
+  ('Pune', 'Pune', 'Maharashtra', 'Tier 1', 3124458, 7276000, 2.5, 91.7, 480000),
+  ('Jaipur', 'Jaipur', 'Rajasthan', 'Tier 1', 3073350, 3700000, 2.3, 82.3, 280000),
+  ('Lucknow', 'Lucknow', 'Uttar Pradesh', 'Tier 1', 2815601, 3500000, 2.1, 77.3, 250000),
+  ('Kanpur', 'Kanpur Nagar', 'Uttar Pradesh', 'Tier 2', 2767031, 3100000, 1.0, 79.7, 220000),
+  ('Nagpur', 'Nagpur', 'Maharashtra', 'Tier 2', 2405421, 2900000, 1.5, 91.9, 280000),
+  ('Indore', 'Indore', 'Madhya Pradesh', 'Tier 2', 1964086, 2500000, 2.6, 86.0, 250000),
+  ('Thane', 'Thane', 'Maharashtra', 'Tier 2', 1841488, 2200000, 2.2, 91.4, 380000),
+  ('Bhopal', 'Bhopal', 'Madhya Pradesh', 'Tier 2', 1798218, 2300000, 1.8, 84.1, 240000),
+  ('Visakhapatnam', 'Visakhapatnam', 'Andhra Pradesh', 'Tier 2', 1730320, 2100000, 2.0, 81.8, 260000),
+  ('Vadodara', 'Vadodara', 'Gujarat', 'Tier 2', 1666703, 2100000, 1.8, 89.2, 300000),
+  ('Patna', 'Patna', 'Bihar', 'Tier 2', 1684222, 2200000, 2.3, 70.7, 180000),
+  ('Ghaziabad', 'Ghaziabad', 'Uttar Pradesh', 'Tier 2', 1648643, 2000000, 3.0, 85.1, 320000),
+  ('Ludhiana', 'Ludhiana', 'Punjab', 'Tier 2', 1613878, 1900000, 1.5, 85.5, 320000),
+  ('Coimbatore', 'Coimbatore', 'Tamil Nadu', 'Tier 2', 1601438, 2100000, 1.7, 93.0, 350000),
+  ('Agra', 'Agra', 'Uttar Pradesh', 'Tier 2', 1585704, 1900000, 1.3, 73.0, 200000),
+  ('Kochi', 'Ernakulam', 'Kerala', 'Tier 2', 677381, 2100000, 1.8, 97.0, 380000),
+  ('Chandigarh', 'Chandigarh', 'Chandigarh', 'Tier 2', 1055450, 1200000, 1.7, 86.1, 380000),
+  ('Surat', 'Surat', 'Gujarat', 'Tier 1', 4462002, 6100000, 3.1, 85.5, 320000),
+  ('Noida', 'Gautam Buddh Nagar', 'Uttar Pradesh', 'Tier 2', 642381, 900000, 4.5, 88.0, 450000),
+  ('Gurugram', 'Gurugram', 'Haryana', 'Tier 2', 876969, 1500000, 4.2, 84.7, 550000),
+  ('Mysuru', 'Mysuru', 'Karnataka', 'Tier 2', 920550, 1100000, 1.6, 86.1, 280000),
+  ('Mangaluru', 'Dakshina Kannada', 'Karnataka', 'Tier 2', 623841, 750000, 1.4, 93.4, 300000),
+  ('Thiruvananthapuram', 'Thiruvananthapuram', 'Kerala', 'Tier 2', 957730, 1600000, 0.8, 93.7, 350000),
+  ('Varanasi', 'Varanasi', 'Uttar Pradesh', 'Tier 2', 1198491, 1500000, 1.4, 75.6, 200000),
+  ('Ranchi', 'Ranchi', 'Jharkhand', 'Tier 2', 1073427, 1300000, 2.0, 87.7, 220000),
+  ('Dehradun', 'Dehradun', 'Uttarakhand', 'Tier 2', 578420, 800000, 2.5, 89.5, 280000),
+  ('Bhubaneswar', 'Khordha', 'Odisha', 'Tier 2', 837737, 1100000, 2.8, 91.0, 250000),
+  ('Raipur', 'Raipur', 'Chhattisgarh', 'Tier 2', 1010087, 1300000, 2.5, 85.4, 220000),
+  ('Guwahati', 'Kamrup Metropolitan', 'Assam', 'Tier 2', 963429, 1200000, 2.2, 91.5, 220000),
+  ('Amritsar', 'Amritsar', 'Punjab', 'Tier 2', 1132761, 1400000, 1.0, 85.3, 250000),
+  ('Jodhpur', 'Jodhpur', 'Rajasthan', 'Tier 2', 1033918, 1300000, 2.1, 73.6, 200000),
+  ('Nashik', 'Nashik', 'Maharashtra', 'Tier 2', 1486053, 1900000, 2.0, 89.8, 260000),
+  ('Madurai', 'Madurai', 'Tamil Nadu', 'Tier 2', 1016885, 1500000, 0.9, 90.8, 250000),
+  ('Vijayawada', 'NTR', 'Andhra Pradesh', 'Tier 2', 1048240, 1500000, 2.0, 80.0, 230000);
+
+INSERT INTO public.city_aliases (alias, city_id, kind)
+SELECT v.alias, c.id, v.kind
+FROM (VALUES
+  ('mumbai', 'mumbai', 'name'),
+  ('bombay', 'mumbai', 'name'),
+  ('delhi', 'delhi', 'name'),
+  ('new delhi', 'delhi', 'name'),
+  ('bangalore', 'bengaluru', 'name'),
+  ('bengaluru', 'bengaluru', 'name'),
+  ('hyderabad', 'hyderabad', 'name'),
+  ('ahmedabad', 'ahmedabad', 'name'),
+  ('chennai', 'chennai', 'name'),
+  ('madras', 'chennai', 'name'),
+  ('kolkata', 'kolkata', 'name'),
+  ('calcutta', 'kolkata', 'name'),
+  ('pune', 'pune', 'name'),
+  ('poona', 'pune', 'name'),
+  ('jaipur', 'jaipur', 'name'),
+  ('lucknow', 'lucknow', 'name'),
+  ('kanpur', 'kanpur', 'name'),
+  ('nagpur', 'nagpur', 'name'),
+  ('indore', 'indore', 'name'),
+  ('thane', 'thane', 'name'),
+  ('bhopal', 'bhopal', 'name'),
+  ('visakhapatnam', 'visakhapatnam', 'name'),
+  ('vizag', 'visakhapatnam', 'name'),
+  ('vadodara', 'vadodara', 'name'),
+  ('baroda', 'vadodara', 'name'),
+  ('patna', 'patna', 'name'),
+  ('ghaziabad', 'ghaziabad', 'name'),
+  ('ludhiana', 'ludhiana', 'name'),
+  ('coimbatore', 'coimbatore', 'name'),
+  ('agra', 'agra', 'name'),
+  ('kochi', 'kochi', 'name'),
+  ('cochin', 'kochi', 'name'),
+  ('chandigarh', 'chandigarh', 'name'),
+  ('surat', 'surat', 'name'),
+  ('noida', 'noida', 'name'),
+  ('gurgaon', 'gurugram', 'name'),
+  ('gurugram', 'gurugram', 'name'),
+  ('mysore', 'mysuru', 'name'),
+  ('mysuru', 'mysuru', 'name'),
+  ('mangalore', 'mangaluru', 'name'),
+  ('mangaluru', 'mangaluru', 'name'),
+  ('trivandrum', 'thiruvananthapuram', 'name'),
+  ('thiruvananthapuram', 'thiruvananthapuram', 'name'),
+  ('varanasi', 'varanasi', 'name'),
+  ('banaras', 'varanasi', 'name'),
+  ('benares', 'varanasi', 'name'),
+  ('ranchi', 'ranchi', 'name'),
+  ('dehradun', 'dehradun', 'name'),
+  ('bhubaneswar', 'bhubaneswar', 'name'),
+  ('raipur', 'raipur', 'name'),
+  ('guwahati', 'guwahati', 'name'),
+  ('amritsar', 'amritsar', 'name'),
+  ('jodhpur', 'jodhpur', 'name'),
+  ('nashik', 'nashik', 'name'),
+  ('madurai', 'madurai', 'name'),
+  ('vijayawada', 'vijayawada', 'name'),
+  ('koramangala', 'bengaluru', 'neighbourhood'),
+  ('whitefield', 'bengaluru', 'neighbourhood'),
+  ('hsr layout', 'bengaluru', 'neighbourhood'),
+  ('andheri', 'mumbai', 'neighbourhood'),
+  ('bandra', 'mumbai', 'neighbourhood'),
+  ('powai', 'mumbai', 'neighbourhood'),
+  ('connaught place', 'delhi', 'neighbourhood'),
+  ('dwarka', 'delhi', 'neighbourhood'),
+  ('hitec city', 'hyderabad', 'neighbourhood'),
+  ('gachibowli', 'hyderabad', 'neighbourhood')
+) AS v(alias, city, kind)
+JOIN public.city_demographics c ON lower(c.name) = v.city;
@@ -0,0 +1,108 @@
+-- Neighbourhood-level profiles so two areas of one city stop getting identical inputs.
+-- Each profile hangs off a city_aliases row of kind 'neighbourhood'; match_city now returns
+-- the profile alongside the city figures when the location matched a neighbourhood.
+-- Seed figures are indicative estimates (typical ground-floor retail asking rents, 2025)
+-- and should be replaced with sourced data as it becomes available.
+CREATE TABLE public.neighbourhood_profiles (
+  alias TEXT NOT NULL PRIMARY KEY REFERENCES public.city_aliases(alias) ON DELETE CASCADE ON UPDATE CASCADE,
+  name TEXT NOT NULL,
+  commercial_rent_min_per_sqft INTEGER NOT NULL CHECK (commercial_rent_min_per_sqft > 0),  -- INR per sq ft per month
+  commercial_rent_max_per_sqft INTEGER NOT NULL CHECK (commercial_rent_max_per_sqft >= commercial_rent_min_per_sqft),
+  footfall_index SMALLINT NOT NULL CHECK (footfall_index BETWEEN 0 AND 100),  -- footfall / commercial density, relative across all profiles
+  income_band TEXT NOT NULL CHECK (income_band IN ('low', 'lower-middle', 'middle', 'upper-middle', 'high')),
+  customer_segments TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL DEFAULT 'indicative estimate',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.neighbourhood_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view neighbourhood profiles" ON public.neighbourhood_profiles FOR SELECT USING (true);
+
+CREATE TRIGGER update_neighbourhood_profiles_updated_at
+BEFORE UPDATE ON public.neighbourhood_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The return type changes, so the function has to be dropped rather than replaced
+DROP FUNCTION IF EXISTS public.match_city(TEXT[], INTEGER);
+
+CREATE FUNCTION public.match_city(candidates TEXT[], max_distance INTEGER DEFAULT 2)
+RETURNS TABLE (
+  city_id UUID,
+  name TEXT,
+  district TEXT,
+  state TEXT,
+  tier TEXT,
+  population_2011 BIGINT,
+  metro_population_2011 BIGINT,
+  growth_rate NUMERIC,
+  literacy_rate NUMERIC,
+  avg_household_income_inr INTEGER,
+  matched_alias TEXT,
+  alias_kind TEXT,
+  query TEXT,
+  distance INTEGER,
+  neighbourhood_name TEXT,
+  commercial_rent_min_per_sqft INTEGER,
+  commercial_rent_max_per_sqft INTEGER,
+  footfall_index SMALLINT,
+  income_band TEXT,
+  customer_segments TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO 'public', 'extensions'
+AS $function$
+  SELECT c.id, c.name, c.district, c.state, c.tier, c.population_2011, c.metro_population_2011,
+         c.growth_rate, c.literacy_rate, c.avg_household_income_inr,
+         a.alias, a.kind, q.candidate, m.distance,
+         n.name, n.commercial_rent_min_per_sqft, n.commercial_rent_max_per_sqft,
+         n.footfall_index, n.income_band, n.customer_segments
+  FROM unnest(candidates) AS q(candidate)
+  JOIN public.city_aliases a ON abs(length(a.alias) - length(q.candidate)) <= max_distance
+  CROSS JOIN LATERAL (SELECT levenshtein(lower(q.candidate), a.alias) AS distance) m
+  JOIN public.city_demographics c ON c.id = a.city_id
+  LEFT JOIN public.neighbourhood_profiles n ON n.alias = a.alias
+  WHERE m.distance <= LEAST(max_distance, CASE WHEN length(a.alias) < 4 THEN 0 WHEN length(a.alias) < 8 THEN 1 ELSE max_distance END)
+  ORDER BY m.distance, length(a.alias) DESC, c.population_2011 DESC
+  LIMIT 1;
+$function$;
+
+-- More neighbourhoods for the seeded cities
+INSERT INTO public.city_aliases (alias, city_id, kind)
+SELECT v.alias, c.id, 'neighbourhood'
+FROM (VALUES
+  ('indiranagar', 'bengaluru'),
+  ('jayanagar', 'bengaluru'),
+  ('lower parel', 'mumbai'),
+  ('saket', 'delhi'),
+  ('hauz khas', 'delhi'),
+  ('banjara hills', 'hyderabad'),
+  ('t nagar', 'chennai'),
+  ('koregaon park', 'pune')
+) AS v(alias, city)
+JOIN public.city_demographics c ON lower(c.name) = v.city
+ON CONFLICT (alias) DO NOTHING;
+
+INSERT INTO public.neighbourhood_profiles (alias, name, commercial_rent_min_per_sqft, commercial_rent_max_per_sqft, footfall_index, income_band, customer_segments) VALUES
+  ('koramangala', 'Koramangala', 120, 200, 85, 'upper-middle', ARRAY['young professionals', 'startup employees', 'students']),
+  ('indiranagar', 'Indiranagar', 150, 250, 88, 'high', ARRAY['young professionals', 'expats', 'nightlife crowd']),
+  ('whitefield', 'Whitefield', 70, 120, 70, 'upper-middle', ARRAY['IT employees', 'families in gated communities']),
+  ('hsr layout', 'HSR Layout', 90, 150, 75, 'upper-middle', ARRAY['young professionals', 'startup employees', 'young families']),
+  ('jayanagar', 'Jayanagar', 100, 180, 80, 'middle', ARRAY['established families', 'senior citizens', 'students']),
+  ('bandra', 'Bandra', 250, 450, 92, 'high', ARRAY['affluent residents', 'young professionals', 'film and media workers', 'tourists']),
+  ('andheri', 'Andheri', 180, 300, 90, 'upper-middle', ARRAY['office commuters', 'film and media workers', 'families']),
+  ('powai', 'Powai', 150, 250, 75, 'upper-middle', ARRAY['IT and finance professionals', 'students', 'families']),
+  ('lower parel', 'Lower Parel', 250, 400, 85, 'high', ARRAY['corporate employees', 'affluent residents', 'mall shoppers']),
+  ('connaught place', 'Connaught Place', 300, 600, 95, 'upper-middle', ARRAY['office workers', 'tourists', 'shoppers']),
+  ('dwarka', 'Dwarka', 80, 150, 70, 'middle', ARRAY['families', 'government employees', 'students']),
+  ('saket', 'Saket', 200, 350, 85, 'high', ARRAY['affluent families', 'mall shoppers', 'young professionals']),
+  ('hauz khas', 'Hauz Khas', 200, 400, 85, 'upper-middle', ARRAY['young adults', 'students', 'nightlife crowd']),
+  ('hitec city', 'HITEC City', 90, 160, 82, 'upper-middle', ARRAY['IT employees', 'corporate commuters']),
+  ('gachibowli', 'Gachibowli', 80, 140, 78, 'upper-middle', ARRAY['IT employees', 'students', 'young families']),
+  ('banjara hills', 'Banjara Hills', 150, 280, 85, 'high', ARRAY['affluent residents', 'business owners', 'diners']),
+  ('t nagar', 'T Nagar', 250, 450, 95, 'middle', ARRAY['textile and jewellery shoppers', 'families', 'day visitors']),
+  ('koregaon park', 'Koregaon Park', 150, 250, 82, 'high', ARRAY['expats', 'young professionals', 'diners']);
@@ -0,0 +1,27 @@
+-- National World Bank indicators (population, urban share, GDP per capita) per country and year,
+-- read by analyze-business instead of calling the World Bank API on every analysis.
+-- The refresh-indicators function upserts the latest values; the seed below is the same
+-- snapshot bundled in _shared/indicators.ts, so the table is usable before the first refresh.
+CREATE TABLE public.country_indicators (
+  country_code TEXT NOT NULL CHECK (country_code ~ '^[A-Z]{3}$'),  -- ISO3
+  indicator TEXT NOT NULL,                                          -- World Bank indicator id
+  year INTEGER NOT NULL,
+  value NUMERIC NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (country_code, indicator, year)
+);
+
+ALTER TABLE public.country_indicators ENABLE ROW LEVEL SECURITY;
+
+-- Reference data: anyone can read, only the service role writes
+CREATE POLICY "Anyone can view country indicators" ON public.country_indicators FOR SELECT USING (true);
+
+INSERT INTO public.country_indicators (country_code, indicator, year, value) VALUES
+  ('IND', 'SP.POP.TOTL', 2022, 1425423212), ('IND', 'SP.POP.TOTL', 2023, 1438069596), ('IND', 'SP.URB.TOTL.IN.ZS', 2023, 36.4), ('IND', 'NY.GDP.PCAP.CD', 2023, 2481),
+  ('ARE', 'SP.POP.TOTL', 2022, 9441129), ('ARE', 'SP.POP.TOTL', 2023, 9516871), ('ARE', 'SP.URB.TOTL.IN.ZS', 2023, 87.8), ('ARE', 'NY.GDP.PCAP.CD', 2023, 52977),
+  ('SGP', 'SP.POP.TOTL', 2022, 5637022), ('SGP', 'SP.POP.TOTL', 2023, 5917648), ('SGP', 'SP.URB.TOTL.IN.ZS', 2023, 100), ('SGP', 'NY.GDP.PCAP.CD', 2023, 84734),
+  ('USA', 'SP.POP.TOTL', 2022, 333287557), ('USA', 'SP.POP.TOTL', 2023, 334914895), ('USA', 'SP.URB.TOTL.IN.ZS', 2023, 83.3), ('USA', 'NY.GDP.PCAP.CD', 2023, 82769),
+  ('GBR', 'SP.POP.TOTL', 2022, 67791000), ('GBR', 'SP.POP.TOTL', 2023, 68350000), ('GBR', 'SP.URB.TOTL.IN.ZS', 2023, 84.6), ('GBR', 'NY.GDP.PCAP.CD', 2023, 48867),
+  ('SAU', 'SP.POP.TOTL', 2022, 32175224), ('SAU', 'SP.POP.TOTL', 2023, 33264292), ('SAU', 'SP.URB.TOTL.IN.ZS', 2023, 85.2), ('SAU', 'NY.GDP.PCAP.CD', 2023, 30448),
+  ('CAN', 'SP.POP.TOTL', 2022, 38929902), ('CAN', 'SP.POP.TOTL', 2023, 40097761), ('CAN', 'SP.URB.TOTL.IN.ZS', 2023, 81.9), ('CAN', 'NY.GDP.PCAP.CD', 2023, 53372),
+  ('AUS', 'SP.POP.TOTL', 2022, 26005540), ('AUS', 'SP.POP.TOTL', 2023, 26638544), ('AUS', 'SP.URB.TOTL.IN.ZS', 2023, 86.6), ('AUS', 'NY.GDP.PCAP.CD', 2023, 64712);
@@ -0,0 +1,132 @@
+-- Per-user limits on analyze-business: a short burst limit (requests per minute) and a
+-- monthly analysis quota. Every accepted request is logged in analysis_requests; cache hits
+-- count too, since the limit is on requests rather than LLM spend.
+-- Users without a row in analysis_quotas get the defaults in analysis_quota_status().
+CREATE TABLE public.analysis_quotas (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requests_per_minute INTEGER NOT NULL CHECK (requests_per_minute > 0),
+  analyses_per_month INTEGER NOT NULL CHECK (analyses_per_month > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.analysis_requests (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX analysis_requests_user_created_idx ON public.analysis_requests (user_id, created_at DESC);
+
+ALTER TABLE public.analysis_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_requests ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own limits and usage; only the service role (or the functions below) writes
+CREATE POLICY "Users can view their own quota" ON public.analysis_quotas FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own analysis requests" ON public.analysis_requests FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_analysis_quotas_updated_at
+BEFORE UPDATE ON public.analysis_quotas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Limits, usage and reset times for one user. The minute window is sliding; the month is the
+-- calendar month in UTC.
+CREATE OR REPLACE FUNCTION public.analysis_quota_status(p_user_id UUID)
+RETURNS TABLE (
+  requests_per_minute INTEGER,
+  analyses_per_month INTEGER,
+  minute_used INTEGER,
+  month_used INTEGER,
+  minute_resets_at TIMESTAMP WITH TIME ZONE,
+  month_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    COALESCE(q.requests_per_minute, 5),
+    COALESCE(q.analyses_per_month, 50),
+    (SELECT count(*)::INTEGER FROM public.analysis_requests r
+      WHERE r.user_id = p_user_id AND r.created_at > now() - INTERVAL '1 minute'),
+    (SELECT count(*)::INTEGER FROM public.analysis_requests r
+      WHERE r.user_id = p_user_id AND r.created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
+    (SELECT min(r.created_at) + INTERVAL '1 minute' FROM public.analysis_requests r
+      WHERE r.user_id = p_user_id AND r.created_at > now() - INTERVAL '1 minute'),
+    (date_trunc('month', now() AT TIME ZONE 'UTC') + INTERVAL '1 month') AT TIME ZONE 'UTC'
+  FROM (SELECT p_user_id AS user_id) u
+  LEFT JOIN public.analysis_quotas q ON q.user_id = u.user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analysis_quota_status(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Settings page: the caller's own quota
+CREATE OR REPLACE FUNCTION public.get_analysis_quota()
+RETURNS TABLE (
+  requests_per_minute INTEGER,
+  analyses_per_month INTEGER,
+  minute_used INTEGER,
+  month_used INTEGER,
+  minute_resets_at TIMESTAMP WITH TIME ZONE,
+  month_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT * FROM public.analysis_quota_status(auth.uid()) WHERE auth.uid() IS NOT NULL;
+$$;
+
+-- analyze-business: checks both limits for the caller and, when allowed, records the request.
+-- The advisory lock serialises concurrent requests from one user so both can't slip under a limit.
+CREATE OR REPLACE FUNCTION public.consume_analysis_quota()
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  requests_per_minute INTEGER,
+  analyses_per_month INTEGER,
+  minute_used INTEGER,
+  month_used INTEGER,
+  minute_resets_at TIMESTAMP WITH TIME ZONE,
+  month_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  s RECORD;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('analysis_quota:' || uid::TEXT));
+  SELECT * INTO s FROM public.analysis_quota_status(uid);
+
+  IF s.minute_used >= s.requests_per_minute THEN
+    allowed := false;
+    reason := 'TOO_MANY_REQUESTS';
+  ELSIF s.month_used >= s.analyses_per_month THEN
+    allowed := false;
+    reason := 'QUOTA_EXCEEDED';
+  ELSE
+    INSERT INTO public.analysis_requests (user_id) VALUES (uid);
+    SELECT * INTO s FROM public.analysis_quota_status(uid);
+    allowed := true;
+    reason := NULL;
+  END IF;
+
+  requests_per_minute := s.requests_per_minute;
+  analyses_per_month := s.analyses_per_month;
+  minute_used := s.minute_used;
+  month_used := s.month_used;
+  minute_resets_at := s.minute_resets_at;
+  month_resets_at := s.month_resets_at;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Analyses submitted as background jobs. analyze-business inserts the row and returns its id,
+-- runs the pipeline after the response has been sent, and saves the finished analysis into
+-- business_analyses itself, so closing the tab mid-run no longer loses the result. The client
+-- polls the row: progress holds the pipeline events seen so far, in order.
+CREATE TABLE public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  input JSONB NOT NULL,
+  force_refresh BOOLEAN NOT NULL DEFAULT false,
+  progress JSONB NOT NULL DEFAULT '[]'::jsonb,
+  analysis_id UUID REFERENCES public.business_analyses(id) ON DELETE SET NULL,
+  cache JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX analysis_jobs_user_created_idx ON public.analysis_jobs (user_id, created_at DESC);
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function (service role) creates and updates jobs
+CREATE POLICY "Users can view their own analysis jobs" ON public.analysis_jobs FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_analysis_jobs_updated_at
+BEFORE UPDATE ON public.analysis_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,108 @@
+-- Batch analysis: a CSV of ideas becomes one analysis_batches row and one queued analysis_jobs
+-- row per line. analyze-business works through the queue a few rows at a time (see
+-- claim_batch_job) and tags each saved analysis with the batch so results can be ranked together.
+CREATE TABLE public.analysis_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  row_count INTEGER NOT NULL CHECK (row_count > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX analysis_batches_user_created_idx ON public.analysis_batches (user_id, created_at DESC);
+
+ALTER TABLE public.analysis_batches ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function (service role) creates batches
+CREATE POLICY "Users can view their own analysis batches" ON public.analysis_batches FOR SELECT USING (auth.uid() = user_id);
+
+-- row_number is the 1-based position in the uploaded CSV (header excluded)
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN batch_id UUID REFERENCES public.analysis_batches(id) ON DELETE CASCADE,
+  ADD COLUMN row_number INTEGER;
+
+CREATE INDEX analysis_jobs_batch_idx ON public.analysis_jobs (batch_id, status, row_number) WHERE batch_id IS NOT NULL;
+
+ALTER TABLE public.business_analyses
+  ADD COLUMN batch_id UUID REFERENCES public.analysis_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX business_analyses_batch_idx ON public.business_analyses (batch_id) WHERE batch_id IS NOT NULL;
+
+-- Hands the next queued row of a batch to one worker. SKIP LOCKED lets several workers pull
+-- from the same batch without ever claiming the same row twice.
+CREATE OR REPLACE FUNCTION public.claim_batch_job(p_batch_id UUID)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE public.analysis_jobs
+  SET status = 'running'
+  WHERE id = (
+    SELECT id FROM public.analysis_jobs
+    WHERE batch_id = p_batch_id AND status = 'queued'
+    ORDER BY row_number
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_batch_job(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A batch consumes one analysis per row from the monthly quota, all or nothing. The burst check
+-- is unchanged, so a batch is only refused for speed when the user is already at the limit; its
+-- rows then fill the minute window like any other requests.
+DROP FUNCTION public.consume_analysis_quota();
+
+CREATE OR REPLACE FUNCTION public.consume_analysis_quota(p_count INTEGER DEFAULT 1)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  requests_per_minute INTEGER,
+  analyses_per_month INTEGER,
+  minute_used INTEGER,
+  month_used INTEGER,
+  minute_resets_at TIMESTAMP WITH TIME ZONE,
+  month_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  s RECORD;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'p_count must be at least 1';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('analysis_quota:' || uid::TEXT));
+  SELECT * INTO s FROM public.analysis_quota_status(uid);
+
+  IF s.minute_used >= s.requests_per_minute THEN
+    allowed := false;
+    reason := 'TOO_MANY_REQUESTS';
+  ELSIF s.month_used + p_count > s.analyses_per_month THEN
+    allowed := false;
+    reason := 'QUOTA_EXCEEDED';
+  ELSE
+    INSERT INTO public.analysis_requests (user_id) SELECT uid FROM generate_series(1, p_count);
+    SELECT * INTO s FROM public.analysis_quota_status(uid);
+    allowed := true;
+    reason := NULL;
+  END IF;
+
+  requests_per_minute := s.requests_per_minute;
+  analyses_per_month := s.analyses_per_month;
+  minute_used := s.minute_used;
+  month_used := s.month_used;
+  minute_resets_at := s.minute_resets_at;
+  month_resets_at := s.month_resets_at;
+  RETURN NEXT;
+END;
+$$;
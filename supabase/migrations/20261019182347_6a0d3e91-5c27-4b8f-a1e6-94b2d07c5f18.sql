@@ -0,0 +1,18 @@
+-- Follow-up questions about a saved analysis and the answers to them, one row per message.
+-- analysis-followup replays the most recent rows as conversation history with each new
+-- question, so a thread survives reloads and keeps its context.
+CREATE TABLE public.analysis_followups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  analysis_id UUID NOT NULL REFERENCES public.business_analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX analysis_followups_analysis_created_idx ON public.analysis_followups (analysis_id, created_at);
+
+ALTER TABLE public.analysis_followups ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function (service role) writes messages, so answers cannot be forged
+CREATE POLICY "Users can view their own analysis followups" ON public.analysis_followups FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Revisions: an analysis re-run with the user's corrections to its Pass 1 assumptions is
+-- saved as a new row pointing at the analysis it corrects. The corrections themselves and
+-- the resulting changes live in analysis_data.revision.
+ALTER TABLE public.business_analyses
+  ADD COLUMN parent_analysis_id UUID REFERENCES public.business_analyses(id) ON DELETE SET NULL;
+
+CREATE INDEX business_analyses_parent_idx ON public.business_analyses (parent_analysis_id) WHERE parent_analysis_id IS NOT NULL;
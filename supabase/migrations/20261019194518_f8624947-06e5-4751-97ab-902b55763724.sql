@@ -0,0 +1,41 @@
+-- Batch rows could get stuck: a row whose worker died stayed 'running' forever, and nothing
+-- picked up queued rows once every worker's hand-off had failed. claim_batch_job now also
+-- reclaims 'running' rows that have not been updated within p_stale_after, and fails a row
+-- instead of reclaiming it again once it has used up p_max_attempts workers.
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+
+DROP FUNCTION public.claim_batch_job(UUID);
+
+CREATE OR REPLACE FUNCTION public.claim_batch_job(p_batch_id UUID, p_stale_after INTERVAL DEFAULT '10 minutes', p_max_attempts INTEGER DEFAULT 2)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.analysis_jobs
+  SET status = 'failed',
+      error = 'The analysis stopped responding. Please run this idea again.',
+      finished_at = now()
+  WHERE batch_id = p_batch_id
+    AND status = 'running'
+    AND updated_at < now() - p_stale_after
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE public.analysis_jobs
+  SET status = 'running', attempts = attempts + 1, progress = '[]'::jsonb, error = NULL
+  WHERE id = (
+    SELECT id FROM public.analysis_jobs
+    WHERE batch_id = p_batch_id
+      AND (status = 'queued' OR (status = 'running' AND updated_at < now() - p_stale_after))
+    ORDER BY row_number
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_batch_job(UUID, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;